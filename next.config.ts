@@ -3,6 +3,13 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
+  /* PDFKit reads its font metrics from its own folder at run time */
+  serverExternalPackages: ["pdfkit"],
+  /* Guest photos are uploaded one per request, up to 15 MB each */
+  experimental: {
+    serverActions: { bodySizeLimit: "16mb" },
+    proxyClientMaxBodySize: "16mb",
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,124 @@
+/* ================================================================
+   Service worker — keeps an invitation readable without signal
+
+   The invitation page tells the worker what to keep (itself, the
+   day's calendar and the assets it loaded, fonts and background
+   included); see components/ServiceWorker. Afterwards:
+
+   - those pages are fetched from the network first, and served
+     from the cache when the network fails; no other page is
+     ever stored, so nothing from /admin ends up on a device
+   - hashed build assets are served from the cache first
+   - unhashed files (public/, optimized images, icons) come from
+     the cache at once and are refreshed behind the scenes
+
+   Submissions are not handled here: forms queue themselves in
+   the page's outbox (lib/offline) and resend when back online.
+   Bump VERSION to drop every cache on the next visit.
+   ================================================================ */
+
+const VERSION = "v1";
+const PAGES = `pages-${VERSION}`;
+const ASSETS = `assets-${VERSION}`;
+
+const isHashed = (url) => url.pathname.startsWith("/_next/static/");
+
+/* Never anything under /api: guest photos there are private */
+const isRefreshable = (url) =>
+  !url.pathname.startsWith("/api/") &&
+  (url.pathname.startsWith("/_next/image") ||
+    /\/(icon|apple-icon|pwa-icon)(\/|$)/.test(url.pathname) ||
+    /\.(jpe?g|png|webp|svg|ttf|woff2?)$/.test(url.pathname));
+
+self.addEventListener("install", () => self.skipWaiting());
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      for (const key of await caches.keys()) {
+        if (key !== PAGES && key !== ASSETS) await caches.delete(key);
+      }
+      await self.clients.claim();
+    })()
+  );
+});
+
+async function store(cacheName, url) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(url, { cache: "no-cache" });
+    if (response.ok) await cache.put(url, response);
+  } catch {
+    /* Offline now; the next visit tries again */
+  }
+}
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "precache") return;
+  const { pages = [], assets = [] } = event.data;
+  event.waitUntil(
+    (async () => {
+      const cached = await caches.open(ASSETS);
+      const wanted = assets
+        .map((href) => new URL(href, self.location.origin))
+        .filter((url) => url.origin === self.location.origin)
+        .filter((url) => isHashed(url) || isRefreshable(url));
+      await Promise.all([
+        ...pages.map((path) => store(PAGES, new URL(path, self.location.origin).href)),
+        ...wanted.map(async (url) => {
+          if (!(await cached.match(url.href))) await store(ASSETS, url.href);
+        }),
+      ]);
+    })()
+  );
+});
+
+/* Only pages the invitation asked to keep are refreshed */
+async function networkFirst(request) {
+  const cache = await caches.open(PAGES);
+  const known = await cache.match(request, { ignoreSearch: true });
+  try {
+    const response = await fetch(request);
+    if (response.ok && known) await cache.put(request.url.split("?")[0], response.clone());
+    return response;
+  } catch (err) {
+    if (known) return known;
+    throw err;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(ASSETS);
+  const hit = await cache.match(request);
+  if (hit) return hit;
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+async function staleWhileRevalidate(event) {
+  const cache = await caches.open(ASSETS);
+  const hit = await cache.match(event.request);
+  const refresh = fetch(event.request).then(async (response) => {
+    if (response.ok) await cache.put(event.request, response.clone());
+    return response;
+  });
+  if (!hit) return refresh;
+  event.waitUntil(refresh.catch(() => {}));
+  return hit;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === "navigate" || url.pathname.endsWith(".ics")) {
+    event.respondWith(networkFirst(request));
+  } else if (isHashed(url)) {
+    event.respondWith(cacheFirst(request));
+  } else if (isRefreshable(url)) {
+    event.respondWith(staleWhileRevalidate(event));
+  }
+});
@@ -0,0 +1,12 @@
+import { notFound } from "next/navigation";
+import { getWedding } from "@/config";
+import { iconImage } from "@/lib/share-image";
+
+export const size = { width: 180, height: 180 };
+export const contentType = "image/png";
+
+export default async function AppleIcon({ params }: { params: Promise<{ slug: string }> }) {
+  const config = getWedding((await params).slug);
+  if (!config) notFound();
+  return iconImage(config, size.width, true);
+}
@@ -0,0 +1,17 @@
+import { getWedding } from "@/config";
+import { isLocale } from "@/i18n";
+import { dayCalendar } from "@/lib/calendar";
+import { calendarResponse } from "@/lib/ics";
+import { getScheduleChanges } from "@/lib/schedule-store";
+
+type Context = { params: Promise<{ locale: string; slug: string }> };
+
+export async function GET(request: Request, { params }: Context) {
+  const { locale, slug } = await params;
+  const config = getWedding(slug);
+  if (!config || !isLocale(locale)) return new Response("Not found", { status: 404 });
+
+  const host = new URL(request.url).hostname;
+  const changes = await getScheduleChanges(slug);
+  return calendarResponse(dayCalendar(config, changes, locale, host), `${slug}.ics`);
+}
@@ -0,0 +1,24 @@
+import { getWedding } from "@/config";
+import { isLocale } from "@/i18n";
+import { eventCalendar } from "@/lib/calendar";
+import { calendarResponse } from "@/lib/ics";
+
+type Context = {
+  params: Promise<{ locale: string; slug: string; event: string }>;
+};
+
+/* Served as /<locale>/<slug>/calendar/<kind>.ics */
+export async function GET(request: Request, { params }: Context) {
+  const { locale, slug, event: file } = await params;
+  const config = getWedding(slug);
+  const event = config?.events.find((e) => `${e.kind}.ics` === file);
+  if (!config || !event || !isLocale(locale)) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const host = new URL(request.url).hostname;
+  return calendarResponse(
+    eventCalendar(config, event, locale, host),
+    `${slug}-${event.kind}.ics`
+  );
+}
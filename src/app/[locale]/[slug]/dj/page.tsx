@@ -0,0 +1,151 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { FlowerProvider } from "@/components/Flower";
+import { SmallRoseIcon } from "@/components/Roses";
+import { djAccess, getWedding } from "@/config";
+import { getMessages, isLocale, plural } from "@/i18n";
+import { isAdmin } from "@/lib/auth";
+import { listSongs } from "@/lib/song-store";
+import { rankSongs } from "@/lib/songs";
+import { resolveTheme, themeStyle } from "@/lib/themes";
+import { coupleNames } from "@/lib/wedding";
+
+/* ================================================================
+   The DJ's list — every song request ranked by votes, read-only,
+   with CSV and M3U exports. Opened with the wedding's djCode
+   (`?code=…`) or by the couple signed in to admin.
+   ================================================================ */
+
+type Props = {
+  params: Promise<{ locale: string; slug: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+const linkClass =
+  "border border-accent/40 rounded-xl px-5 py-2 text-serif-light text-xs tracking-[0.3em] !text-white hover:bg-accent/20 transition-colors";
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale, slug } = await params;
+  const config = getWedding(slug);
+  if (!config || !isLocale(locale)) return {};
+  return {
+    title: `${getMessages(locale).songs.dj.title} — ${coupleNames(config)}`,
+    robots: { index: false, follow: false },
+  };
+}
+
+export default async function DjPage({ params, searchParams }: Props) {
+  const { locale, slug } = await params;
+  const config = getWedding(slug);
+  if (!config || !isLocale(locale)) notFound();
+
+  const query = await searchParams;
+  const code = (Array.isArray(query.code) ? query.code[0] : query.code)?.trim() || undefined;
+  const allowed = djAccess(slug, code) || (await isAdmin());
+
+  const m = getMessages(locale).songs;
+  const songs = allowed ? rankSongs(await listSongs(slug)) : [];
+  const exportQuery = code ? `?code=${encodeURIComponent(code)}` : "";
+
+  return (
+    <FlowerProvider flower={config.flower}>
+      <main
+        className="flower-bg-dark relative min-h-screen"
+        style={themeStyle(resolveTheme(config.theme))}
+      >
+        <div className="relative z-10 flex flex-col items-center gap-10 px-6 py-16 text-center w-full max-w-3xl mx-auto">
+          <div className="flex flex-col items-center gap-4">
+            <SmallRoseIcon size={24} />
+            <h1 className="text-script text-4xl sm:text-5xl !text-white">{m.dj.title}</h1>
+            <p className="text-script text-2xl !text-white/80">{coupleNames(config)}</p>
+          </div>
+
+          {!allowed ? (
+            <form className="flex flex-col items-center gap-6 w-full max-w-md bg-accent/10 backdrop-blur-sm rounded-2xl px-6 py-10 border border-accent/20">
+              <label className="flex flex-col gap-2 w-full text-left">
+                <span className="text-serif-light text-xs tracking-[0.3em] !text-white/70">
+                  {m.dj.code}
+                </span>
+                <input
+                  type="text"
+                  name="code"
+                  required
+                  autoComplete="off"
+                  defaultValue={code}
+                  aria-invalid={!!code}
+                  aria-describedby="dj-code-hint"
+                  className="w-full bg-accent/10 backdrop-blur-sm border border-accent/20 rounded-xl px-4 py-3 text-serif-light text-sm tracking-[0.1em] font-normal text-white outline-none focus:border-accent/50 aria-[invalid=true]:border-accent/70 transition-colors"
+                />
+                <span
+                  id="dj-code-hint"
+                  role={code ? "alert" : undefined}
+                  className={`text-serif-light text-xs tracking-[0.15em] font-normal ${
+                    code ? "!text-accent" : "!text-white/50"
+                  }`}
+                >
+                  {code ? m.dj.wrongCode : m.dj.codeHint}
+                </span>
+              </label>
+              <button
+                type="submit"
+                className="w-full bg-accent text-primary rounded-xl px-6 py-4 text-serif-light text-sm tracking-[0.3em] uppercase hover:bg-accent-hover transition-colors cursor-pointer font-bold"
+              >
+                {m.dj.open}
+              </button>
+            </form>
+          ) : (
+            <>
+              <div className="flex flex-wrap justify-center gap-3">
+                <a href={`/${locale}/${slug}/dj/songs.csv${exportQuery}`} className={linkClass}>
+                  {m.dj.csv}
+                </a>
+                <a href={`/${locale}/${slug}/dj/songs.m3u${exportQuery}`} className={linkClass}>
+                  {m.dj.m3u}
+                </a>
+              </div>
+
+              {songs.length === 0 ? (
+                <p className="text-serif-light text-sm tracking-[0.1em] font-normal !text-white/60">
+                  {m.empty}
+                </p>
+              ) : (
+                <div className="w-full overflow-x-auto rounded-2xl border border-accent/20 bg-white/10 backdrop-blur-sm">
+                  <table className="w-full text-left text-sm">
+                    <thead>
+                      <tr className="border-b border-accent/20">
+                        {[m.dj.rank, m.songTitle, m.artist, ""].map((h) => (
+                          <th
+                            key={h}
+                            className="text-serif-light text-[0.65rem] tracking-[0.3em] !text-white/70 px-4 py-3"
+                          >
+                            {h}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {songs.map((song, i) => (
+                        <tr key={song.id} className="border-b border-accent/10 last:border-0">
+                          <td className="px-4 py-3 !text-white/60 tabular-nums">{i + 1}</td>
+                          <td className="px-4 py-3 font-semibold !text-white">{song.title}</td>
+                          <td className="px-4 py-3 !text-white/80">{song.artist}</td>
+                          <td className="px-4 py-3 text-right whitespace-nowrap !text-white/80 tabular-nums">
+                            {plural(locale, song.votes, m.votes)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <p className="text-serif-light text-xs tracking-[0.15em] font-normal !text-white/50">
+                {m.dj.refresh}
+              </p>
+            </>
+          )}
+        </div>
+      </main>
+    </FlowerProvider>
+  );
+}
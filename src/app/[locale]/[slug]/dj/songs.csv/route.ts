@@ -0,0 +1,26 @@
+import { djAccess, getWedding } from "@/config";
+import { isAdmin } from "@/lib/auth";
+import { csvResponse, toCsv } from "@/lib/csv";
+import { listSongs } from "@/lib/song-store";
+import { rankSongs } from "@/lib/songs";
+
+type Context = { params: Promise<{ slug: string }> };
+
+/* The DJ's ranked list, for a spreadsheet */
+export async function GET(request: Request, { params }: Context) {
+  const { slug } = await params;
+  if (!getWedding(slug)) return new Response("Not found", { status: 404 });
+  const code = new URL(request.url).searchParams.get("code") ?? undefined;
+  if (!djAccess(slug, code) && !(await isAdmin())) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const songs = rankSongs(await listSongs(slug));
+  return csvResponse(
+    toCsv([
+      ["Loc", "Titlu", "Artist", "Voturi"],
+      ...songs.map((s, i) => [i + 1, s.title, s.artist, s.votes]),
+    ]),
+    `melodii-${slug}.csv`
+  );
+}
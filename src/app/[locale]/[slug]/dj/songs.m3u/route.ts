@@ -0,0 +1,23 @@
+import { djAccess, getWedding } from "@/config";
+import { isAdmin } from "@/lib/auth";
+import { listSongs } from "@/lib/song-store";
+import { rankSongs, songsM3u } from "@/lib/songs";
+
+type Context = { params: Promise<{ slug: string }> };
+
+/* The DJ's ranked list as a playlist, see songsM3u() */
+export async function GET(request: Request, { params }: Context) {
+  const { slug } = await params;
+  if (!getWedding(slug)) return new Response("Not found", { status: 404 });
+  const code = new URL(request.url).searchParams.get("code") ?? undefined;
+  if (!djAccess(slug, code) && !(await isAdmin())) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  return new Response(songsM3u(rankSongs(await listSongs(slug))), {
+    headers: {
+      "Content-Type": "audio/x-mpegurl; charset=utf-8",
+      "Content-Disposition": `attachment; filename="melodii-${slug}.m3u"`,
+    },
+  });
+}
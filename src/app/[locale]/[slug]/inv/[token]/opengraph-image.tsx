@@ -0,0 +1,27 @@
+import { notFound } from "next/navigation";
+import { findGuest, getWedding } from "@/config";
+import { isLocale } from "@/i18n";
+import { SHARE_IMAGE_SIZE, shareImage, shareImageAlt } from "@/lib/share-image";
+
+type Params = { locale: string; slug: string; token: string };
+
+export const size = SHARE_IMAGE_SIZE;
+export const contentType = "image/png";
+
+/* Unknown or revoked tokens get the generic image, as the page
+   redirects them to the generic invitation */
+export function generateImageMetadata({ params }: { params: Params }) {
+  const config = getWedding(params.slug);
+  if (!config || !isLocale(params.locale)) return [];
+  const guest = findGuest(params.slug, params.token);
+  return [
+    { id: "invitation", alt: shareImageAlt(config, params.locale, guest), size, contentType },
+  ];
+}
+
+export default async function Image({ params }: { params: Promise<Params> }) {
+  const { locale, slug, token } = await params;
+  const config = getWedding(slug);
+  if (!config || !isLocale(locale)) notFound();
+  return shareImage(config, locale, findGuest(slug, token));
+}
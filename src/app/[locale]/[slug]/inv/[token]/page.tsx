@@ -0,0 +1,49 @@
+import type { Metadata } from "next";
+import { notFound, redirect } from "next/navigation";
+import { Invitation } from "@/components/Invitation";
+import { findGuest, getWedding, guestsOf, weddings } from "@/config";
+import { galleryOf } from "@/config/galleries";
+import { isLocale } from "@/i18n";
+import { weddingMetadata } from "@/lib/metadata";
+import { publicConfig } from "@/lib/wedding";
+
+type Props = {
+  params: Promise<{ locale: string; slug: string; token: string }>;
+};
+
+export function generateStaticParams() {
+  return weddings.flatMap((w) =>
+    guestsOf(w.slug).map((g) => ({ slug: w.slug, token: g.token }))
+  );
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale, slug, token } = await params;
+  const config = getWedding(slug);
+  if (!config || !isLocale(locale)) return {};
+  return {
+    ...weddingMetadata(config, locale, `/${locale}/${slug}/inv/${token}`),
+    /* Installed from here, the app opens on this invitation */
+    manifest: `/${locale}/${slug}/manifest.webmanifest?invite=${token}`,
+    robots: { index: false, follow: false },
+  };
+}
+
+export default async function GuestInvitationPage({ params }: Props) {
+  const { locale, slug, token } = await params;
+  const config = getWedding(slug);
+  if (!config || !isLocale(locale)) notFound();
+
+  /* Unknown or revoked tokens get the generic invitation */
+  const guest = findGuest(slug, token);
+  if (!guest) redirect(`/${locale}/${slug}`);
+
+  return (
+    <Invitation
+      config={publicConfig(config)}
+      guest={guest}
+      gallery={galleryOf(slug)}
+      locale={locale}
+    />
+  );
+}
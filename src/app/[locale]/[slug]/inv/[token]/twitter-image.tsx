@@ -0,0 +1 @@
+export { contentType, default, generateImageMetadata, size } from "./opengraph-image";
@@ -0,0 +1,46 @@
+import { findGuest, getWedding } from "@/config";
+import { getMessages, isLocale } from "@/i18n";
+import { PWA_ICON_SIZES } from "@/lib/share-image";
+import { resolveTheme } from "@/lib/themes";
+import { coupleNames, weddingTitle } from "@/lib/wedding";
+
+/* ================================================================
+   Web app manifest of one wedding, so guests can add the
+   invitation to their home screen. Installed from a personal
+   link (`?invite=<token>`), it opens on that link.
+   ================================================================ */
+
+type Context = { params: Promise<{ locale: string; slug: string }> };
+
+export async function GET(request: Request, { params }: Context) {
+  const { locale, slug } = await params;
+  const config = getWedding(slug);
+  if (!config || !isLocale(locale)) return new Response("Not found", { status: 404 });
+
+  const invite = new URL(request.url).searchParams.get("invite");
+  const guest = invite ? findGuest(slug, invite) : undefined;
+  const base = `/${locale}/${slug}`;
+  const theme = resolveTheme(config.theme);
+
+  const manifest = {
+    id: base,
+    name: weddingTitle(config, locale),
+    short_name: coupleNames(config),
+    description: getMessages(locale).meta.description,
+    lang: locale,
+    start_url: guest ? `${base}/inv/${guest.token}` : base,
+    scope: base,
+    display: "standalone",
+    background_color: theme.background,
+    theme_color: theme.primary,
+    icons: PWA_ICON_SIZES.map((size) => ({
+      src: `${base}/pwa-icon/${size}`,
+      sizes: `${size}x${size}`,
+      type: "image/png",
+      purpose: "any",
+    })),
+  };
+  return Response.json(manifest, {
+    headers: { "Content-Type": "application/manifest+json" },
+  });
+}
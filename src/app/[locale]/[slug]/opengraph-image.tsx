@@ -0,0 +1,23 @@
+import { notFound } from "next/navigation";
+import { getWedding } from "@/config";
+import { isLocale } from "@/i18n";
+import { SHARE_IMAGE_SIZE, shareImage, shareImageAlt } from "@/lib/share-image";
+
+type Params = { locale: string; slug: string };
+
+export const size = SHARE_IMAGE_SIZE;
+export const contentType = "image/png";
+
+/* One image, generated only for its localized alt text */
+export function generateImageMetadata({ params }: { params: Params }) {
+  const config = getWedding(params.slug);
+  if (!config || !isLocale(params.locale)) return [];
+  return [{ id: "invitation", alt: shareImageAlt(config, params.locale), size, contentType }];
+}
+
+export default async function Image({ params }: { params: Promise<Params> }) {
+  const { locale, slug } = await params;
+  const config = getWedding(slug);
+  if (!config || !isLocale(locale)) notFound();
+  return shareImage(config, locale);
+}
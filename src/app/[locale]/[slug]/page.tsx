@@ -0,0 +1,28 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { Invitation } from "@/components/Invitation";
+import { getWedding, weddings } from "@/config";
+import { galleryOf } from "@/config/galleries";
+import { isLocale } from "@/i18n";
+import { weddingMetadata } from "@/lib/metadata";
+import { publicConfig } from "@/lib/wedding";
+
+type Props = { params: Promise<{ locale: string; slug: string }> };
+
+export function generateStaticParams() {
+  return weddings.map((w) => ({ slug: w.slug }));
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale, slug } = await params;
+  const config = getWedding(slug);
+  if (!config || !isLocale(locale)) return {};
+  return weddingMetadata(config, locale, `/${locale}/${slug}`);
+}
+
+export default async function WeddingPage({ params }: Props) {
+  const { locale, slug } = await params;
+  const config = getWedding(slug);
+  if (!config || !isLocale(locale)) notFound();
+  return <Invitation config={publicConfig(config)} gallery={galleryOf(slug)} locale={locale} />;
+}
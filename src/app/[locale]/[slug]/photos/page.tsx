@@ -0,0 +1,153 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { FlowerProvider } from "@/components/Flower";
+import { RoseDividerLight, SmallRoseIcon } from "@/components/Roses";
+import { PhotoAlbum } from "@/components/photos/PhotoAlbum";
+import { PhotoUpload } from "@/components/photos/PhotoUpload";
+import { albumAccess, getWedding } from "@/config";
+import { format, getMessages, isLocale } from "@/i18n";
+import { listPhotos } from "@/lib/photo-store";
+import { albumOpen } from "@/lib/photos";
+import { resolveTheme, themeStyle } from "@/lib/themes";
+import { coupleNames, formatDate } from "@/lib/wedding";
+
+/* ================================================================
+   Photo album — guests reach it through their invitation link
+   (`?invite=<token>`) or with the couple's shared album code
+   (`?code=…`), add their own photos once the day has come, and
+   browse the ones the couple approved.
+   ================================================================ */
+
+type Props = {
+  params: Promise<{ locale: string; slug: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+const cardClass =
+  "flex flex-col items-center gap-6 w-full bg-accent/10 backdrop-blur-sm rounded-2xl px-6 py-10 border border-accent/20";
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale, slug } = await params;
+  const config = getWedding(slug);
+  if (!config || !isLocale(locale)) return {};
+  return {
+    title: `${getMessages(locale).photos.title} — ${coupleNames(config)}`,
+    robots: { index: false, follow: false },
+  };
+}
+
+export default async function PhotosPage({ params, searchParams }: Props) {
+  const { locale, slug } = await params;
+  const config = getWedding(slug);
+  if (!config || !isLocale(locale)) notFound();
+
+  const query = await searchParams;
+  const get = (key: string) => {
+    const v = query[key];
+    return (Array.isArray(v) ? v[0] : v)?.trim() || undefined;
+  };
+  const invite = get("invite");
+  const code = get("code");
+  const access = albumAccess(slug, { invite, code });
+
+  const m = getMessages(locale);
+  const back = access?.guest
+    ? `/${locale}/${slug}/inv/${access.guest.token}`
+    : `/${locale}/${slug}`;
+
+  return (
+    <FlowerProvider flower={config.flower}>
+      <main
+        className="flower-bg-dark relative min-h-screen"
+        style={themeStyle(resolveTheme(config.theme))}
+      >
+        <div className="relative z-10 flex flex-col items-center gap-12 px-6 py-24 text-center w-full max-w-2xl mx-auto">
+          <div className="flex flex-col items-center gap-4">
+            <SmallRoseIcon size={24} />
+            <h1 className="text-script text-4xl sm:text-5xl !text-white">{m.photos.title}</h1>
+            <p className="text-script text-2xl !text-white/80">{coupleNames(config)}</p>
+            <p className="text-serif-light text-sm sm:text-base tracking-[0.15em] font-normal leading-relaxed max-w-lg !text-white/70">
+              {m.photos.intro}
+            </p>
+          </div>
+
+          {!access ? (
+            <form className={cardClass}>
+              <label className="flex flex-col gap-2 w-full text-left">
+                <span className="text-serif-light text-xs tracking-[0.3em] !text-white/70">
+                  {m.photos.code}
+                </span>
+                <input
+                  type="text"
+                  name="code"
+                  required
+                  autoComplete="off"
+                  defaultValue={code}
+                  aria-invalid={!!code}
+                  aria-describedby="album-code-hint"
+                  className="w-full bg-accent/10 backdrop-blur-sm border border-accent/20 rounded-xl px-4 py-3 text-serif-light text-sm tracking-[0.1em] font-normal text-white outline-none focus:border-accent/50 aria-[invalid=true]:border-accent/70 transition-colors"
+                />
+                <span
+                  id="album-code-hint"
+                  role={code ? "alert" : undefined}
+                  className={`text-serif-light text-xs tracking-[0.15em] font-normal ${
+                    code ? "!text-accent" : "!text-white/50"
+                  }`}
+                >
+                  {code ? m.photos.wrongCode : m.photos.codeHint}
+                </span>
+              </label>
+              <button
+                type="submit"
+                className="w-full bg-accent text-primary rounded-xl px-6 py-4 text-serif-light text-sm tracking-[0.3em] uppercase hover:bg-accent-hover transition-colors cursor-pointer font-bold"
+              >
+                {m.photos.open}
+              </button>
+            </form>
+          ) : (
+            <>
+              <div className={cardClass}>
+                {albumOpen(config) ? (
+                  <PhotoUpload
+                    wedding={slug}
+                    invite={access.guest ? invite : undefined}
+                    code={access.guest ? undefined : code}
+                    uploader={access.guest?.displayName}
+                    locale={locale}
+                    messages={m.photos}
+                  />
+                ) : (
+                  <p className="text-serif-light text-sm tracking-[0.15em] font-normal leading-relaxed !text-white/70">
+                    {format(m.photos.closed, {
+                      date: formatDate(config.date, config.timeZone, locale),
+                    })}
+                  </p>
+                )}
+              </div>
+
+              <RoseDividerLight />
+
+              <div className="flex flex-col items-center gap-8 w-full">
+                <h2 className="text-script text-3xl sm:text-4xl !text-white">{m.photos.album}</h2>
+                <PhotoAlbum
+                  photos={await listPhotos({ wedding: slug, status: "approved" })}
+                  locale={locale}
+                  messages={m.photos}
+                  lightbox={m.story}
+                />
+              </div>
+            </>
+          )}
+
+          <Link
+            href={back}
+            className="text-serif-light text-xs tracking-[0.3em] !text-white/70 hover:!text-white transition-colors"
+          >
+            {m.photos.back}
+          </Link>
+        </div>
+      </main>
+    </FlowerProvider>
+  );
+}
@@ -0,0 +1,14 @@
+import { getWedding } from "@/config";
+import { iconImage, PWA_ICON_SIZES } from "@/lib/share-image";
+
+type Context = { params: Promise<{ slug: string; size: string }> };
+
+/* Home screen icons listed in the manifest */
+export async function GET(_request: Request, { params }: Context) {
+  const { slug, size } = await params;
+  const config = getWedding(slug);
+  if (!config || !PWA_ICON_SIZES.includes(Number(size))) {
+    return new Response("Not found", { status: 404 });
+  }
+  return iconImage(config, Number(size), true);
+}
@@ -0,0 +1,34 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { isLocale, LOCALES } from "@/i18n";
+import { fontVariables } from "../fonts";
+import "../globals.css";
+
+export function generateStaticParams() {
+  return LOCALES.map((locale) => ({ locale }));
+}
+
+/* Absolute URLs for share images and canonical links. Without
+   SITE_URL Next falls back to the local server's address. */
+export const metadata: Metadata = {
+  metadataBase: process.env.SITE_URL ? new URL(process.env.SITE_URL) : undefined,
+};
+
+export default async function LocaleLayout({
+  children,
+  params,
+}: Readonly<{
+  children: React.ReactNode;
+  params: Promise<{ locale: string }>;
+}>) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+
+  return (
+    <html lang={locale}>
+      <body className={`${fontVariables} antialiased`}>
+        {children}
+      </body>
+    </html>
+  );
+}
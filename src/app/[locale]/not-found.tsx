@@ -0,0 +1,32 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { RoseDivider, SmallRoseIcon } from "@/components/Roses";
+import { DEFAULT_LOCALE, getMessages, isLocale } from "@/i18n";
+
+export default function NotFound() {
+  const { locale } = useParams<{ locale?: string }>();
+  const m = getMessages(locale && isLocale(locale) ? locale : DEFAULT_LOCALE);
+
+  return (
+    <main className="flower-bg flex min-h-screen items-center justify-center overflow-hidden">
+      <div className="flower-vignette" />
+
+      <div className="relative z-10 flex flex-col items-center gap-8 px-6 py-20 text-center w-full max-w-xl">
+        <SmallRoseIcon size={32} />
+        <h1 className="text-script text-5xl sm:text-6xl">{m.notFound.title}</h1>
+        <p className="text-serif-light text-sm sm:text-base tracking-[0.15em] font-normal leading-relaxed">
+          {m.notFound.body}
+        </p>
+        <RoseDivider />
+        <Link
+          href="/"
+          className="bg-primary rounded-xl px-6 py-3 text-serif-light text-xs tracking-[0.3em] !text-background hover:bg-primary-hover transition-colors"
+        >
+          {m.notFound.back}
+        </Link>
+      </div>
+    </main>
+  );
+}
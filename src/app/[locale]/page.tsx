@@ -0,0 +1,9 @@
+import { redirect } from "next/navigation";
+import { defaultWedding } from "@/config";
+
+type Props = { params: Promise<{ locale: string }> };
+
+export default async function LocaleHome({ params }: Props) {
+  const { locale } = await params;
+  redirect(`/${locale}/${defaultWedding().slug}`);
+}
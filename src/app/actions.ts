@@ -0,0 +1,265 @@
+"use server";
+
+import { after } from "next/server";
+import { albumAccess, findGuest, getWedding } from "@/config";
+import { DEFAULT_LOCALE, isLocale } from "@/i18n";
+import { verifyDevice } from "@/lib/device";
+import { addReservation, GiftTakenError } from "@/lib/gift-store";
+import { MAX_RESERVER_NAME, type ReserveResult } from "@/lib/gifts";
+import { notifyRsvp, siteOrigin } from "@/lib/notifications";
+import { addPhoto, PhotoFormatError } from "@/lib/photo-store";
+import { albumOpen, checkPhotoFile, type PhotoUploadResult } from "@/lib/photos";
+import { allowHit, clientAddress } from "@/lib/rate-limit";
+import { parseRsvp, type RsvpResult } from "@/lib/rsvp";
+import { addRsvp } from "@/lib/rsvp-store";
+import { addSong, listSongs, SongNotFoundError, toggleVote } from "@/lib/song-store";
+import {
+  checkSong,
+  rankSongs,
+  songsOpen,
+  voterKey,
+  type SongResult,
+} from "@/lib/songs";
+import { addWish } from "@/lib/wish-store";
+import { checkWish, type WishResult } from "@/lib/wishes";
+
+const CONFIRMATIONS_PER_ADDRESS = 3;
+const HOUR_MS = 60 * 60 * 1000;
+
+export async function submitRsvp(
+  _prev: RsvpResult,
+  formData: FormData
+): Promise<RsvpResult> {
+  const wedding = getWedding(String(formData.get("wedding") ?? ""));
+  if (!wedding) throw new Error("RSVP submitted for an unknown wedding");
+
+  const token = formData.get("invite");
+  const guest = token ? findGuest(wedding.slug, String(token)) : undefined;
+
+  /* Invited guests can't rename themselves or exceed their seats */
+  if (guest) formData.set("name", guest.displayName);
+  const parsed = parseRsvp(formData, guest?.maxSeats);
+  if (!parsed.ok) return { status: "error", errors: parsed.errors };
+
+  const locale = String(formData.get("locale"));
+  const rsvp = await addRsvp({
+    ...parsed.value,
+    wedding: wedding.slug,
+    guestToken: guest?.token,
+    locale: isLocale(locale) ? locale : DEFAULT_LOCALE,
+  });
+
+  /* A song asked for with a "yes" joins the party's requests */
+  const song = {
+    title: String(formData.get("songTitle") ?? "").trim(),
+    artist: String(formData.get("songArtist") ?? "").trim(),
+  };
+  const voter = voterKey({
+    guest: guest?.token,
+    device: verifyDevice(String(formData.get("device") ?? "")),
+  });
+  if (
+    rsvp.attendance === "yes" &&
+    song.title &&
+    voter &&
+    !checkSong(song) &&
+    songsOpen(wedding)
+  ) {
+    await addSong({ ...song, wedding: wedding.slug, suggestedBy: rsvp.name }, voter);
+  }
+
+  /* Emails go out once the guest already has their answer.
+     Without an invitation a client gets a few confirmations an
+     hour, so the open form can't be used to mail strangers. */
+  const origin = siteOrigin();
+  const confirm =
+    !!guest ||
+    allowHit(`confirmation:${await clientAddress()}`, CONFIRMATIONS_PER_ADDRESS, HOUR_MS);
+  if (origin) after(() => notifyRsvp(wedding, rsvp, origin, { confirm }));
+
+  return { status: "success", rsvp };
+}
+
+const PHOTOS_PER_VISITOR = 60;
+
+/* One photo per call, so each upload stays under the body size
+   limit and the page can report on every file separately */
+export async function uploadPhoto(formData: FormData): Promise<PhotoUploadResult> {
+  const wedding = getWedding(String(formData.get("wedding") ?? ""));
+  if (!wedding) throw new Error("Photo uploaded for an unknown wedding");
+
+  const access = albumAccess(wedding.slug, {
+    invite: String(formData.get("invite") ?? ""),
+    code: String(formData.get("code") ?? ""),
+  });
+  if (!access) return { ok: false, error: "access" };
+  if (!albumOpen(wedding)) return { ok: false, error: "closed" };
+
+  const file = formData.get("photo");
+  if (!(file instanceof File)) return { ok: false, error: "type" };
+  const problem = checkPhotoFile(file);
+  if (problem) return { ok: false, error: problem };
+
+  const visitor = access.guest?.token ?? (await clientAddress());
+  if (!allowHit(`photo:${wedding.slug}:${visitor}`, PHOTOS_PER_VISITOR, HOUR_MS)) {
+    return { ok: false, error: "rate" };
+  }
+
+  const uploader =
+    String(formData.get("uploader") ?? "").trim().slice(0, 120) ||
+    access.guest?.displayName ||
+    "";
+  try {
+    const photo = await addPhoto(Buffer.from(await file.arrayBuffer()), {
+      wedding: wedding.slug,
+      guestToken: access.guest?.token,
+      uploader,
+    });
+    return { ok: true, photo };
+  } catch (err) {
+    if (err instanceof PhotoFormatError) return { ok: false, error: "unreadable" };
+    throw err;
+  }
+}
+
+/* Anonymous reservations keep no name, but still remember the
+   invitation they came through */
+const RESERVATIONS_PER_ADDRESS = 3;
+
+export async function reserveGift(
+  slug: string,
+  item: string,
+  input: { name: string; anonymous: boolean; invite?: string }
+): Promise<ReserveResult> {
+  const wedding = getWedding(slug);
+  if (!wedding?.gifts?.registry?.some((g) => g.id === item)) {
+    return { ok: false, error: "unknown" };
+  }
+
+  /* Only a personal invitation reserves without a name; everyone
+     else gives one and is held to a few reservations an hour */
+  const guest = input.invite ? findGuest(slug, input.invite) : undefined;
+  const anonymous = input.anonymous && !!guest;
+  const name = anonymous ? "" : String(input.name ?? "").trim();
+  if (!anonymous && (!name || name.length > MAX_RESERVER_NAME)) {
+    return { ok: false, error: "name" };
+  }
+  if (
+    !guest &&
+    !allowHit(`gift:${slug}:${await clientAddress()}`, RESERVATIONS_PER_ADDRESS, HOUR_MS)
+  ) {
+    return { ok: false, error: "rate" };
+  }
+
+  try {
+    await addReservation({ wedding: slug, item, name, guestToken: guest?.token });
+    return { ok: true };
+  } catch (err) {
+    if (err instanceof GiftTakenError) return { ok: false, error: "taken" };
+    throw err;
+  }
+}
+
+const WISHES_PER_VISITOR = 3;
+const WISH_WINDOW_MS = 10 * 60 * 1000;
+
+/* A filled-in `website` field is the honeypot: bots get a thank
+   you and nothing is stored */
+export async function submitWish(formData: FormData): Promise<WishResult> {
+  const wedding = getWedding(String(formData.get("wedding") ?? ""));
+  if (!wedding) throw new Error("Wish left for an unknown wedding");
+  if (formData.get("website")) return { ok: true };
+
+  const token = formData.get("invite");
+  const guest = token ? findGuest(wedding.slug, String(token)) : undefined;
+  const name = String(formData.get("name") ?? "").trim();
+  const text = String(formData.get("text") ?? "").trim();
+  const problem = checkWish({ name, text });
+  if (problem) return { ok: false, error: problem };
+
+  const visitor = guest?.token ?? (await clientAddress());
+  if (!allowHit(`wish:${wedding.slug}:${visitor}`, WISHES_PER_VISITOR, WISH_WINDOW_MS)) {
+    return { ok: false, error: "rate" };
+  }
+
+  await addWish({ wedding: wedding.slug, guestToken: guest?.token, name, text });
+  return { ok: true };
+}
+
+type Voter = { invite?: string; device?: string };
+
+function songVoter(slug: string, { invite, device }: Voter) {
+  const guest = invite ? findGuest(slug, invite) : undefined;
+  return voterKey({ guest: guest?.token, device: verifyDevice(device) });
+}
+
+const SONGS_PER_VISITOR = 5;
+const VOTES_PER_VISITOR = 30;
+const SONG_WINDOW_MS = 10 * 60 * 1000;
+
+/* Counted per invitation, or per address for everyone else */
+async function allowSongHit(kind: string, slug: string, { invite }: Voter, limit: number) {
+  const guest = invite ? findGuest(slug, invite) : undefined;
+  const visitor = guest?.token ?? (await clientAddress());
+  return allowHit(`${kind}:${slug}:${visitor}`, limit, SONG_WINDOW_MS);
+}
+
+async function songListing(slug: string, voter: string): Promise<SongResult> {
+  const songs = await listSongs(slug);
+  return {
+    ok: true,
+    songs: rankSongs(songs),
+    voted: songs.filter((s) => s.votes.includes(voter)).map((s) => s.id),
+  };
+}
+
+/* Answers with the whole ranked list, so the page shows the
+   suggestion in its place along with everyone else's votes */
+export async function suggestSong(
+  slug: string,
+  input: Voter & { title: string; artist: string; name?: string }
+): Promise<SongResult> {
+  const wedding = getWedding(slug);
+  if (!wedding) throw new Error("Song suggested for an unknown wedding");
+  if (!songsOpen(wedding)) return { ok: false, error: "closed" };
+  const voter = songVoter(slug, input);
+  if (!voter) return { ok: false, error: "voter" };
+
+  const song = {
+    title: String(input.title ?? "").trim(),
+    artist: String(input.artist ?? "").trim(),
+  };
+  const problem = checkSong(song);
+  if (problem) return { ok: false, error: problem };
+  if (!(await allowSongHit("song", slug, input, SONGS_PER_VISITOR))) {
+    return { ok: false, error: "rate" };
+  }
+
+  const name = String(input.name ?? "").trim().slice(0, 120);
+  const guest = input.invite ? findGuest(slug, input.invite) : undefined;
+  await addSong(
+    { ...song, wedding: slug, suggestedBy: name || guest?.displayName || undefined },
+    voter
+  );
+  return songListing(slug, voter);
+}
+
+/* Votes, or takes the vote back when given twice */
+export async function voteSong(slug: string, id: string, input: Voter): Promise<SongResult> {
+  const wedding = getWedding(slug);
+  if (!wedding) throw new Error("Vote for an unknown wedding");
+  if (!songsOpen(wedding)) return { ok: false, error: "closed" };
+  const voter = songVoter(slug, input);
+  if (!voter) return { ok: false, error: "voter" };
+  if (!(await allowSongHit("vote", slug, input, VOTES_PER_VISITOR))) {
+    return { ok: false, error: "rate" };
+  }
+
+  try {
+    await toggleVote(slug, id, voter);
+  } catch (err) {
+    if (err instanceof SongNotFoundError) return { ok: false, error: "unknown" };
+    throw err;
+  }
+  return songListing(slug, voter);
+}
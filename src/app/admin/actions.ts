@@ -0,0 +1,172 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+import { getWedding } from "@/config";
+import {
+  checkPassphrase,
+  endAdminSession,
+  isAdminConfigured,
+  requireAdmin,
+  startAdminSession,
+} from "@/lib/auth";
+import {
+  remindNonResponders,
+  rsvpOpen,
+  siteOrigin,
+  type ReminderBatch,
+} from "@/lib/notifications";
+import { deleteReservation } from "@/lib/gift-store";
+import { deletePhoto, setPhotoStatus } from "@/lib/photo-store";
+import type { PhotoStatus } from "@/lib/photos";
+import { allowHit, clientAddress } from "@/lib/rate-limit";
+import { parseRsvp, type RsvpResult } from "@/lib/rsvp";
+import { deleteRsvp, getRsvp, listRsvps, updateRsvp } from "@/lib/rsvp-store";
+import { parseScheduleChange } from "@/lib/schedule";
+import { setScheduleChange } from "@/lib/schedule-store";
+import { parseSeating, partiesOf, type SeatingPlan } from "@/lib/seating";
+import { setSeating } from "@/lib/seating-store";
+import { deleteWish, setWishStatus } from "@/lib/wish-store";
+import type { WishStatus } from "@/lib/wishes";
+
+export type LoginState = { error?: string };
+
+export type ReminderState = { error?: string; batch?: ReminderBatch };
+
+export type SeatingState = { error?: string; savedAt?: string };
+
+export type ScheduleState = { error?: string; savedAt?: string };
+
+/* Attempts per address, so the passphrase can't be guessed online */
+const LOGINS_PER_ADDRESS = 10;
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+
+export async function login(
+  _prev: LoginState,
+  formData: FormData
+): Promise<LoginState> {
+  if (!isAdminConfigured()) {
+    return { error: "Accesul de administrare nu este configurat" };
+  }
+  if (!allowHit(`login:${await clientAddress()}`, LOGINS_PER_ADDRESS, LOGIN_WINDOW_MS)) {
+    return { error: "Prea multe încercări. Reîncercați peste un sfert de oră" };
+  }
+  if (!checkPassphrase(String(formData.get("passphrase") ?? ""))) {
+    return { error: "Parolă greșită" };
+  }
+  await startAdminSession();
+  redirect("/admin");
+}
+
+export async function logout() {
+  await endAdminSession();
+  redirect("/admin/login");
+}
+
+export async function saveRsvp(
+  id: string,
+  _prev: RsvpResult,
+  formData: FormData
+): Promise<RsvpResult> {
+  await requireAdmin();
+  if (!(await getRsvp(id))) throw new Error(`RSVP ${id} not found`);
+
+  const parsed = parseRsvp(formData);
+  if (!parsed.ok) return { status: "error", errors: parsed.errors };
+
+  await updateRsvp(id, parsed.value);
+  redirect("/admin");
+}
+
+export async function removeRsvp(id: string) {
+  await requireAdmin();
+  await deleteRsvp(id);
+  redirect("/admin");
+}
+
+export async function sendReminders(slug: string): Promise<ReminderState> {
+  await requireAdmin();
+  const wedding = getWedding(slug);
+  if (!wedding) throw new Error(`Wedding ${slug} not found`);
+  if (!rsvpOpen(wedding)) {
+    return { error: "Termenul de confirmare a trecut" };
+  }
+
+  const origin = siteOrigin();
+  if (!origin) return { error: "Setați SITE_URL pentru linkurile din emailuri" };
+
+  const batch = await remindNonResponders(wedding, origin);
+  revalidatePath("/admin/notifications");
+  return { batch };
+}
+
+export async function moderatePhoto(id: string, status: PhotoStatus) {
+  await requireAdmin();
+  await setPhotoStatus(id, status);
+  revalidatePath("/admin/photos");
+}
+
+export async function removePhoto(id: string) {
+  await requireAdmin();
+  await deletePhoto(id);
+  revalidatePath("/admin/photos");
+}
+
+export async function moderateWish(id: string, status: WishStatus) {
+  await requireAdmin();
+  await setWishStatus(id, status);
+  revalidatePath("/admin/wishes");
+}
+
+export async function removeWish(id: string) {
+  await requireAdmin();
+  await deleteWish(id);
+  revalidatePath("/admin/wishes");
+}
+
+export async function releaseGift(id: string) {
+  await requireAdmin();
+  await deleteReservation(id);
+  revalidatePath("/admin/gifts");
+}
+
+export async function saveSeating(
+  slug: string,
+  plan: Pick<SeatingPlan, "tables" | "seats">
+): Promise<SeatingState> {
+  await requireAdmin();
+  if (!getWedding(slug)) throw new Error(`Wedding ${slug} not found`);
+
+  const parsed = parseSeating(plan, partiesOf(await listRsvps(), slug));
+  if (!parsed.ok) return { error: parsed.error };
+
+  const saved = await setSeating(slug, parsed.value);
+  revalidatePath(`/admin/seating/${slug}`);
+  return { savedAt: saved.updatedAt };
+}
+
+/* Open invitations pick the change up through the live feed */
+export async function moveScheduleItem(
+  slug: string,
+  item: number,
+  _prev: ScheduleState,
+  formData: FormData
+): Promise<ScheduleState> {
+  await requireAdmin();
+  const wedding = getWedding(slug);
+  if (!wedding) throw new Error(`Wedding ${slug} not found`);
+
+  const parsed = parseScheduleChange(wedding, item, formData);
+  if (!parsed.ok) return { error: parsed.error };
+
+  await setScheduleChange(slug, item, parsed.value);
+  revalidatePath("/admin/schedule");
+  return { savedAt: new Date().toISOString() };
+}
+
+export async function resetScheduleItem(slug: string, item: number) {
+  await requireAdmin();
+  if (!getWedding(slug)) throw new Error(`Wedding ${slug} not found`);
+  await setScheduleChange(slug, item, null);
+  revalidatePath("/admin/schedule");
+}
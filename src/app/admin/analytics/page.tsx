@@ -0,0 +1,210 @@
+import Link from "next/link";
+import { AdminHeader } from "@/components/admin/AdminHeader";
+import { BarList } from "@/components/admin/BarList";
+import { StatCard } from "@/components/admin/StatCard";
+import { guestsOf, weddings } from "@/config";
+import { galleryOf } from "@/config/galleries";
+import { SECTIONS, summarizeAnalytics, type Section } from "@/lib/analytics";
+import { listEvents } from "@/lib/analytics-store";
+import { requireAdmin } from "@/lib/auth";
+import { listRsvps } from "@/lib/rsvp-store";
+import { coupleNames } from "@/lib/wedding";
+
+type Props = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+const SECTION_LABELS: Record<Section, string> = {
+  hero: "Prima pagină",
+  invitation: "Invitația",
+  story: "Povestea",
+  locations: "Locații",
+  schedule: "Program",
+  rsvp: "Confirmare",
+  guestbook: "Urări",
+  songs: "Melodii",
+  gifts: "Cadouri",
+};
+
+function formatTimestamp(iso: string) {
+  return new Intl.DateTimeFormat("ro-RO", {
+    dateStyle: "short",
+    timeStyle: "short",
+    timeZone: "Europe/Bucharest",
+  }).format(new Date(iso));
+}
+
+/* "2026-08-15" → "15.08" */
+function shortDate(date: string) {
+  return `${date.slice(8, 10)}.${date.slice(5, 7)}`;
+}
+
+export default async function AnalyticsAdminPage({ searchParams }: Props) {
+  await requireAdmin();
+
+  const params = await searchParams;
+  const config = weddings.find((w) => w.slug === params.wedding) ?? weddings[0];
+  const summary = summarizeAnalytics(config, await listEvents(config.slug));
+  const answers = new Map(
+    (await listRsvps())
+      .filter((r) => r.wedding === config.slug && r.guestToken)
+      .map((r) => [r.guestToken!, r.attendance])
+  );
+
+  /* Sections this invitation actually has */
+  const sections = SECTIONS.filter(
+    (s) =>
+      (s !== "story" || (config.story ?? []).length > 0 || galleryOf(config.slug).length > 0) &&
+      (s !== "gifts" || config.gifts)
+  );
+  const peak = Math.max(1, ...summary.daily.map((d) => d.visits));
+
+  /* Opened without answering first: they are the ones to call */
+  const guests = guestsOf(config.slug)
+    .map((guest) => ({
+      guest,
+      opens: summary.opens.get(guest.token),
+      answer: answers.get(guest.token),
+    }))
+    .sort((a, b) => {
+      const rank = (g: typeof a) => (g.answer ? 2 : g.opens ? 0 : 1);
+      return rank(a) - rank(b) || a.guest.displayName.localeCompare(b.guest.displayName);
+    });
+  const silent = guests.filter((g) => g.opens && !g.answer).length;
+
+  return (
+    <main className="flex flex-col gap-10 px-6 py-10 w-full max-w-6xl mx-auto">
+      <AdminHeader title="Statistici" />
+
+      {weddings.length > 1 && (
+        <nav className="flex flex-wrap gap-3">
+          {weddings.map((w) => (
+            <Link
+              key={w.slug}
+              href={`/admin/analytics?wedding=${w.slug}`}
+              aria-current={w.slug === config.slug ? "page" : undefined}
+              className="border border-primary/30 rounded-xl px-5 py-2 text-serif-light text-xs tracking-[0.3em] hover:bg-accent/20 aria-[current=page]:bg-accent/30 transition-colors"
+            >
+              {coupleNames(w)}
+            </Link>
+          ))}
+        </nav>
+      )}
+
+      <p className="text-serif-light text-xs tracking-[0.15em] font-normal opacity-60">
+        Se numără doar vizitatorii care au acceptat statisticile. Fără cookie-uri: o vizită
+        înseamnă o deschidere a paginii.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatCard label="Vizite" value={summary.visits} />
+        <StatCard label="Invitații deschise" value={summary.opens.size} />
+        <StatCard label="Formulare începute" value={summary.starts} />
+        <StatCard label="Răspunsuri trimise" value={summary.submits} />
+      </div>
+
+      <section className="flex flex-col gap-4">
+        <h2 className="text-script text-2xl">Vizite pe zile</h2>
+        <div className="flex items-end gap-1.5 h-44 bg-white/40 rounded-2xl border border-primary/10 px-4 pt-4 pb-2">
+          {summary.daily.map((day) => (
+            <div
+              key={day.date}
+              className="flex-1 flex flex-col items-center justify-end gap-1 h-full"
+              title={`${shortDate(day.date)}: ${day.visits}`}
+            >
+              <span className="text-serif-light text-[0.6rem] tabular-nums opacity-70">
+                {day.visits || ""}
+              </span>
+              <div
+                className="w-full rounded-t-md bg-accent"
+                style={{ height: `${(day.visits / peak) * 100}%` }}
+              />
+              <span className="text-serif-light text-[0.6rem] tabular-nums opacity-60">
+                {shortDate(day.date)}
+              </span>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <div className="grid md:grid-cols-2 gap-10">
+        <section className="flex flex-col gap-4">
+          <h2 className="text-script text-2xl">Până unde ajung</h2>
+          <BarList
+            total={summary.visits}
+            rows={sections.map((s) => ({
+              label: SECTION_LABELS[s],
+              value: summary.sections[s],
+            }))}
+          />
+        </section>
+
+        <section className="flex flex-col gap-4">
+          <h2 className="text-script text-2xl">Confirmări</h2>
+          <BarList
+            total={summary.visits}
+            rows={[
+              { label: "Au deschis invitația", value: summary.visits },
+              { label: "Au ajuns la confirmare", value: summary.sections.rsvp },
+              { label: "Au început formularul", value: summary.starts },
+              { label: "Au trimis răspunsul", value: summary.submits },
+            ]}
+          />
+        </section>
+      </div>
+
+      <section className="flex flex-col gap-4">
+        <div className="flex items-baseline justify-between gap-4">
+          <h2 className="text-script text-2xl">Invitații personale</h2>
+          <p className="text-serif-light text-xs tracking-[0.15em] font-normal opacity-70">
+            {silent} deschise fără răspuns
+          </p>
+        </div>
+        {guests.length === 0 ? (
+          <p className="text-serif-light text-sm tracking-[0.15em] font-normal opacity-60 text-center py-10">
+            Nunta nu are listă de invitați
+          </p>
+        ) : (
+          <div className="overflow-x-auto rounded-2xl border border-primary/10 bg-white/40">
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="border-b border-primary/10">
+                  {["Invitație", "Deschideri", "Ultima dată", "Răspuns"].map((h) => (
+                    <th
+                      key={h}
+                      className="text-serif-light text-[0.65rem] tracking-[0.3em] px-4 py-3"
+                    >
+                      {h}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {guests.map(({ guest, opens, answer }) => (
+                  <tr key={guest.token} className="border-b border-primary/5 last:border-0">
+                    <td className="px-4 py-3 font-semibold">{guest.displayName}</td>
+                    <td className="px-4 py-3 tabular-nums">{opens?.opens ?? 0}</td>
+                    <td className="px-4 py-3 whitespace-nowrap opacity-60">
+                      {opens ? formatTimestamp(opens.lastOpened) : "—"}
+                    </td>
+                    <td className="px-4 py-3">
+                      {answer === "yes" ? (
+                        "Vine"
+                      ) : answer === "no" ? (
+                        "Nu vine"
+                      ) : opens ? (
+                        <span className="!text-highlight">Fără răspuns</span>
+                      ) : (
+                        <span className="opacity-50">Nedeschisă</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,44 @@
+import { weddings } from "@/config";
+import { isAdmin } from "@/lib/auth";
+import { csvResponse, toCsv } from "@/lib/csv";
+import { getMessages } from "@/i18n";
+import { describePerson, filterRsvps, parseRsvpFilter } from "@/lib/rsvp";
+import { listRsvps } from "@/lib/rsvp-store";
+import { coupleNames } from "@/lib/wedding";
+
+const m = getMessages("ro");
+
+export async function GET(request: Request) {
+  if (!(await isAdmin())) return new Response("Unauthorized", { status: 401 });
+
+  const params = Object.fromEntries(new URL(request.url).searchParams);
+  const rsvps = filterRsvps(await listRsvps(), parseRsvpFilter(params));
+  const names = new Map(weddings.map((w) => [w.slug, coupleNames(w)]));
+
+  const csv = toCsv([
+    [
+      "Nume",
+      "Nunta",
+      "Participare",
+      "Persoane",
+      "Detalii persoane",
+      "Cazare",
+      "Transport",
+      "Mentiuni",
+      "Primit",
+    ],
+    ...rsvps.map((r) => [
+      r.name,
+      names.get(r.wedding) ?? r.wedding,
+      r.attendance === "yes" ? "Da" : "Nu",
+      r.attendance === "yes" ? r.guests : 0,
+      r.people.map((p) => describePerson(p, m.rsvp)).join("; "),
+      r.accommodation ? "Da" : "Nu",
+      r.transport ? "Da" : "Nu",
+      r.notes,
+      r.createdAt,
+    ]),
+  ]);
+
+  return csvResponse(csv, "rsvp.csv");
+}
@@ -0,0 +1,120 @@
+import { releaseGift } from "@/app/admin/actions";
+import { AdminHeader } from "@/components/admin/AdminHeader";
+import { findGuest, weddings } from "@/config";
+import { localize } from "@/i18n";
+import { requireAdmin } from "@/lib/auth";
+import { listReservations } from "@/lib/gift-store";
+import { coupleNames } from "@/lib/wedding";
+
+function formatTimestamp(iso: string) {
+  return new Intl.DateTimeFormat("ro-RO", {
+    dateStyle: "short",
+    timeStyle: "short",
+    timeZone: "Europe/Bucharest",
+  }).format(new Date(iso));
+}
+
+export default async function GiftsAdminPage() {
+  await requireAdmin();
+
+  const reservations = await listReservations();
+  const registries = weddings.filter((w) => w.gifts?.registry);
+
+  return (
+    <main className="flex flex-col gap-10 px-6 py-10 w-full max-w-6xl mx-auto">
+      <AdminHeader title="Cadouri" />
+
+      {registries.length === 0 && (
+        <p className="text-serif-light text-sm tracking-[0.15em] font-normal opacity-60 text-center py-10">
+          Nicio nuntă nu are listă de cadouri
+        </p>
+      )}
+
+      {registries.map((w) => {
+        const items = w.gifts!.registry!;
+        const byItem = new Map(
+          reservations.filter((r) => r.wedding === w.slug).map((r) => [r.item, r])
+        );
+        /* Reservations of items since taken off the list */
+        const orphans = [...byItem.values()].filter(
+          (r) => !items.some((item) => item.id === r.item)
+        );
+        const rows = [
+          ...items.map((item) => ({
+            key: item.id,
+            title: localize(item.title, "ro"),
+            reservation: byItem.get(item.id),
+          })),
+          ...orphans.map((r) => ({
+            key: r.item,
+            title: `${r.item} (scos de pe listă)`,
+            reservation: r,
+          })),
+        ];
+
+        return (
+          <section key={w.slug} className="flex flex-col gap-4">
+            <div className="flex items-baseline justify-between gap-4">
+              <h2 className="text-script text-2xl">{coupleNames(w)}</h2>
+              <p className="text-serif-light text-xs tracking-[0.15em] font-normal opacity-70">
+                {items.filter((item) => byItem.has(item.id)).length} din {items.length}{" "}
+                rezervate
+              </p>
+            </div>
+            <div className="overflow-x-auto rounded-2xl border border-primary/10 bg-white/40">
+              <table className="w-full text-left text-sm">
+                <thead>
+                  <tr className="border-b border-primary/10">
+                    {["Cadou", "Rezervat de", "Invitație", "Când", ""].map((h) => (
+                      <th
+                        key={h}
+                        className="text-serif-light text-[0.65rem] tracking-[0.3em] px-4 py-3"
+                      >
+                        {h}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(({ key, title, reservation: r }) => (
+                    <tr key={key} className="border-b border-primary/5 last:border-0">
+                      <td className="px-4 py-3 font-semibold">{title}</td>
+                      {r ? (
+                        <>
+                          <td className="px-4 py-3">
+                            {r.name || <span className="opacity-60">Anonim</span>}
+                          </td>
+                          <td className="px-4 py-3">
+                            {(r.guestToken && findGuest(w.slug, r.guestToken)?.displayName) ||
+                              "—"}
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap opacity-60">
+                            {formatTimestamp(r.createdAt)}
+                          </td>
+                          <td className="px-4 py-3 text-right">
+                            <form action={releaseGift.bind(null, r.id)}>
+                              <button
+                                type="submit"
+                                className="border border-primary/30 rounded-xl px-3 py-1 text-serif-light text-[0.65rem] tracking-[0.2em] hover:bg-accent/20 transition-colors cursor-pointer"
+                              >
+                                Eliberează
+                              </button>
+                            </form>
+                          </td>
+                        </>
+                      ) : (
+                        <td colSpan={4} className="px-4 py-3 opacity-50">
+                          Disponibil
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        );
+      })}
+    </main>
+  );
+}
@@ -0,0 +1,24 @@
+import type { Metadata } from "next";
+import { cormorant, faith } from "../fonts";
+import "../globals.css";
+
+export const metadata: Metadata = {
+  title: "Administrare",
+  robots: { index: false, follow: false },
+};
+
+export default function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <html lang="ro">
+      <body
+        className={`${faith.variable} ${cormorant.variable} antialiased`}
+      >
+        <div className="min-h-screen bg-background">{children}</div>
+      </body>
+    </html>
+  );
+}
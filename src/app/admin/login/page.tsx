@@ -0,0 +1,18 @@
+import { redirect } from "next/navigation";
+import { LoginForm } from "@/components/admin/LoginForm";
+import { SmallRoseIcon } from "@/components/Roses";
+import { isAdmin } from "@/lib/auth";
+
+export default async function AdminLoginPage() {
+  if (await isAdmin()) redirect("/admin");
+
+  return (
+    <main className="flex min-h-screen items-center justify-center px-6">
+      <div className="flex flex-col items-center gap-6 w-full max-w-sm bg-white/50 rounded-2xl px-8 py-10 border border-primary/10 shadow-sm">
+        <SmallRoseIcon size={28} />
+        <h1 className="text-script text-4xl">Administrare</h1>
+        <LoginForm />
+      </div>
+    </main>
+  );
+}
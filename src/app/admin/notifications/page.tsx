@@ -0,0 +1,112 @@
+import { AdminHeader } from "@/components/admin/AdminHeader";
+import { ReminderForm } from "@/components/admin/ReminderForm";
+import { weddings } from "@/config";
+import { requireAdmin } from "@/lib/auth";
+import { listMailLog, mailTransport, type MailKind } from "@/lib/mail";
+import { pendingGuests, rsvpOpen } from "@/lib/notifications";
+import { listRsvps } from "@/lib/rsvp-store";
+import { coupleNames, formatDate } from "@/lib/wedding";
+
+const KINDS: Record<MailKind, string> = {
+  rsvp: "Răspuns nou",
+  confirmation: "Confirmare",
+  reminder: "Reminder",
+};
+
+function formatTimestamp(iso: string) {
+  return new Intl.DateTimeFormat("ro-RO", {
+    dateStyle: "short",
+    timeStyle: "short",
+    timeZone: "Europe/Bucharest",
+  }).format(new Date(iso));
+}
+
+export default async function NotificationsPage() {
+  await requireAdmin();
+
+  const [rsvps, log] = await Promise.all([listRsvps(), listMailLog()]);
+  const names = new Map(weddings.map((w) => [w.slug, coupleNames(w)]));
+
+  return (
+    <main className="flex flex-col gap-10 px-6 py-10 w-full max-w-6xl mx-auto">
+      <AdminHeader title="Notificări" />
+
+      <p className="text-serif-light text-sm tracking-[0.1em] font-normal opacity-70">
+        Transport: <span className="font-semibold">{mailTransport().name}</span>
+      </p>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        {weddings.map((w) => {
+          const pending = pendingGuests(w, rsvps, log).length;
+          return (
+            <div
+              key={w.slug}
+              className="flex flex-col gap-4 bg-accent/15 rounded-2xl px-6 py-5 border border-accent/40"
+            >
+              <div className="flex flex-col gap-1">
+                <p className="text-script text-2xl">{coupleNames(w)}</p>
+                <p className="text-serif-light text-xs tracking-[0.15em] font-normal opacity-70">
+                  Termen: {formatDate(w.rsvp.deadline, w.timeZone, "ro")}
+                  {!rsvpOpen(w) && " (trecut)"} · Fără răspuns, cu email: {pending}
+                </p>
+              </div>
+              <ReminderForm slug={w.slug} pending={pending} />
+            </div>
+          );
+        })}
+      </div>
+
+      {log.length === 0 ? (
+        <p className="text-serif-light text-sm tracking-[0.15em] font-normal opacity-60 text-center py-10">
+          Niciun email trimis
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-2xl border border-primary/10 bg-white/40">
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="border-b border-primary/10">
+                {["Trimis", "Tip", "Nuntă", "Destinatar", "Subiect", "Stare"].map((h) => (
+                  <th
+                    key={h}
+                    className="text-serif-light text-[0.65rem] tracking-[0.3em] px-4 py-3"
+                  >
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {log.map((e) => (
+                <tr key={e.id} className="border-b border-primary/5 last:border-0">
+                  <td className="px-4 py-3 whitespace-nowrap opacity-60">
+                    {formatTimestamp(e.createdAt)}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">{KINDS[e.kind]}</td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    {names.get(e.wedding) ?? e.wedding}
+                  </td>
+                  <td className="px-4 py-3">{e.to.join(", ")}</td>
+                  <td className="px-4 py-3">{e.subject}</td>
+                  <td className="px-4 py-3">
+                    {e.status === "sent" ? (
+                      <span className="whitespace-nowrap">
+                        Trimis ({e.transport})
+                      </span>
+                    ) : (
+                      <span
+                        title={e.error}
+                        className="inline-block bg-accent/35 text-highlight rounded-lg px-2 py-1 whitespace-nowrap"
+                      >
+                        Eșuat după {e.attempts} încercări
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,209 @@
+import Link from "next/link";
+import { AdminHeader } from "@/components/admin/AdminHeader";
+import { StatCard } from "@/components/admin/StatCard";
+import { weddings } from "@/config";
+import { requireAdmin } from "@/lib/auth";
+import { getMessages } from "@/i18n";
+import {
+  describePerson,
+  filterRsvps,
+  MENUS,
+  parseRsvpFilter,
+  summarizeRsvps,
+} from "@/lib/rsvp";
+import { listRsvps } from "@/lib/rsvp-store";
+import { coupleNames } from "@/lib/wedding";
+
+const m = getMessages("ro");
+
+type Props = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+const inputClass =
+  "bg-white/60 border border-primary/20 rounded-xl px-3 py-2 text-sm text-primary outline-none focus:border-primary/50 transition-colors";
+
+function formatTimestamp(iso: string) {
+  return new Intl.DateTimeFormat("ro-RO", {
+    dateStyle: "short",
+    timeStyle: "short",
+    timeZone: "Europe/Bucharest",
+  }).format(new Date(iso));
+}
+
+export default async function AdminPage({ searchParams }: Props) {
+  await requireAdmin();
+
+  const params = await searchParams;
+  const filter = parseRsvpFilter(params);
+  const rsvps = filterRsvps(await listRsvps(), filter);
+  const summary = summarizeRsvps(rsvps);
+  const names = new Map(weddings.map((w) => [w.slug, coupleNames(w)]));
+
+  const query = new URLSearchParams(
+    Object.entries(params).flatMap(([k, v]) =>
+      typeof v === "string" ? [[k, v]] : []
+    )
+  ).toString();
+
+  return (
+    <main className="flex flex-col gap-10 px-6 py-10 w-full max-w-6xl mx-auto">
+      <AdminHeader title="Răspunsuri" />
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatCard label="Confirmări" value={summary.confirmed} />
+        <StatCard label="Refuzuri" value={summary.declined} />
+        <StatCard label="Persoane" value={summary.headcount} />
+        <StatCard label="Cu mențiuni" value={summary.withNotes} />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {MENUS.map((menu) => (
+          <StatCard
+            key={menu}
+            label={`Meniu ${m.rsvp.menus[menu].toLowerCase()}`}
+            value={summary.menus[menu]}
+          />
+        ))}
+        <StatCard label={m.rsvp.accommodation} value={summary.accommodation} />
+        <StatCard label={m.rsvp.transport} value={summary.transport} />
+      </div>
+
+      <form className="flex flex-wrap items-end gap-3">
+        <select name="wedding" defaultValue={filter.wedding ?? ""} className={inputClass}>
+          <option value="">Toate nunțile</option>
+          {weddings.map((w) => (
+            <option key={w.slug} value={w.slug}>
+              {coupleNames(w)}
+            </option>
+          ))}
+        </select>
+        <select
+          name="attendance"
+          defaultValue={filter.attendance ?? ""}
+          className={inputClass}
+        >
+          <option value="">Toate răspunsurile</option>
+          <option value="yes">Confirmate</option>
+          <option value="no">Refuzate</option>
+        </select>
+        <input
+          type="search"
+          name="q"
+          defaultValue={filter.query}
+          placeholder="Caută nume sau mențiuni"
+          className={`${inputClass} flex-1 min-w-48`}
+        />
+        <label className="flex items-center gap-2 text-serif-light text-xs tracking-[0.15em] font-normal">
+          <input
+            type="checkbox"
+            name="notes"
+            value="1"
+            defaultChecked={filter.notesOnly}
+            className="accent-primary"
+          />
+          Doar cu mențiuni
+        </label>
+        <button
+          type="submit"
+          className="bg-primary rounded-xl px-5 py-2 text-serif-light text-xs tracking-[0.3em] !text-background hover:bg-primary-hover transition-colors cursor-pointer"
+        >
+          Filtrează
+        </button>
+        <a
+          href={`/admin/export${query ? `?${query}` : ""}`}
+          className="border border-primary/30 rounded-xl px-5 py-2 text-serif-light text-xs tracking-[0.3em] hover:bg-accent/20 transition-colors"
+        >
+          Export CSV
+        </a>
+      </form>
+
+      {rsvps.length === 0 ? (
+        <p className="text-serif-light text-sm tracking-[0.15em] font-normal opacity-60 text-center py-10">
+          Niciun răspuns
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-2xl border border-primary/10 bg-white/40">
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="border-b border-primary/10">
+                {[
+                  "Nume",
+                  "Nuntă",
+                  "Participare",
+                  "Persoane",
+                  "Detalii",
+                  "Mențiuni",
+                  "Primit",
+                  "",
+                ].map(
+                  (h) => (
+                    <th
+                      key={h}
+                      className="text-serif-light text-[0.65rem] tracking-[0.3em] px-4 py-3"
+                    >
+                      {h}
+                    </th>
+                  )
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {rsvps.map((r) => (
+                <tr key={r.id} className="border-b border-primary/5 last:border-0">
+                  <td className="px-4 py-3 font-semibold">{r.name}</td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    {names.get(r.wedding) ?? r.wedding}
+                  </td>
+                  <td className="px-4 py-3">
+                    {r.attendance === "yes" ? "Confirmă" : "Nu participă"}
+                  </td>
+                  <td className="px-4 py-3 text-center">
+                    {r.attendance === "yes" ? r.guests : "—"}
+                  </td>
+                  <td className="px-4 py-3">
+                    <ul className="flex flex-col gap-1">
+                      {r.people.map((p, i) => (
+                        <li key={i} className="whitespace-nowrap">
+                          {describePerson(p, m.rsvp)}
+                        </li>
+                      ))}
+                    </ul>
+                    {(r.accommodation || r.transport) && (
+                      <p className="mt-1 text-xs opacity-60">
+                        {[
+                          r.accommodation && m.rsvp.accommodation,
+                          r.transport && m.rsvp.transport,
+                        ]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    {r.notes && (
+                      <span className="inline-block bg-accent/35 text-primary rounded-lg px-2 py-1">
+                        {r.notes}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap opacity-60">
+                    {formatTimestamp(r.createdAt)}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <Link
+                      href={`/admin/rsvp/${r.id}`}
+                      className="text-serif-light text-xs tracking-[0.2em] hover:underline"
+                    >
+                      Editează
+                    </Link>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </main>
+  );
+}
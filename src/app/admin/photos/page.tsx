@@ -0,0 +1,133 @@
+import Image from "next/image";
+import Link from "next/link";
+import { moderatePhoto, removePhoto } from "@/app/admin/actions";
+import { AdminHeader } from "@/components/admin/AdminHeader";
+import { StatCard } from "@/components/admin/StatCard";
+import { weddings } from "@/config";
+import { requireAdmin } from "@/lib/auth";
+import { listPhotos } from "@/lib/photo-store";
+import { photoUrl, type PhotoStatus } from "@/lib/photos";
+import { coupleNames } from "@/lib/wedding";
+
+type Props = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+const STATUSES: Record<PhotoStatus, string> = {
+  pending: "De aprobat",
+  approved: "Aprobate",
+  rejected: "Respinse",
+};
+
+const buttonClass =
+  "flex-1 rounded-xl px-3 py-2 text-serif-light text-[0.65rem] tracking-[0.2em] transition-colors cursor-pointer";
+
+function formatTimestamp(iso: string) {
+  return new Intl.DateTimeFormat("ro-RO", {
+    dateStyle: "short",
+    timeStyle: "short",
+    timeZone: "Europe/Bucharest",
+  }).format(new Date(iso));
+}
+
+export default async function PhotosAdminPage({ searchParams }: Props) {
+  await requireAdmin();
+
+  const params = await searchParams;
+  const status: PhotoStatus =
+    params.status === "approved" || params.status === "rejected" ? params.status : "pending";
+  const all = await listPhotos();
+  const photos = all.filter((p) => p.status === status);
+  const names = new Map(weddings.map((w) => [w.slug, coupleNames(w)]));
+
+  return (
+    <main className="flex flex-col gap-10 px-6 py-10 w-full max-w-6xl mx-auto">
+      <AdminHeader title="Fotografii" />
+
+      <div className="grid grid-cols-3 gap-4">
+        {(Object.keys(STATUSES) as PhotoStatus[]).map((s) => (
+          <Link
+            key={s}
+            href={`/admin/photos?status=${s}`}
+            aria-current={s === status ? "page" : undefined}
+            className="rounded-2xl aria-[current=page]:ring-2 aria-[current=page]:ring-primary/40"
+          >
+            <StatCard label={STATUSES[s]} value={all.filter((p) => p.status === s).length} />
+          </Link>
+        ))}
+      </div>
+
+      {photos.length === 0 ? (
+        <p className="text-serif-light text-sm tracking-[0.15em] font-normal opacity-60 text-center py-10">
+          Nicio fotografie
+        </p>
+      ) : (
+        <ul className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+          {photos.map((photo) => (
+            <li
+              key={photo.id}
+              className="flex flex-col gap-3 bg-white/40 rounded-2xl border border-primary/10 p-3"
+            >
+              <a
+                href={photoUrl(photo.id, "full")}
+                target="_blank"
+                rel="noreferrer"
+                className="block aspect-square overflow-hidden rounded-xl"
+              >
+                {/* Served only with the admin cookie, so not through the optimizer */}
+                <Image
+                  src={photoUrl(photo.id, "thumb")}
+                  alt={`Fotografie de la ${photo.uploader || "un invitat"}`}
+                  width={photo.width}
+                  height={photo.height}
+                  placeholder="blur"
+                  blurDataURL={photo.blurDataURL}
+                  unoptimized
+                  className="h-full w-full object-cover"
+                />
+              </a>
+              <div className="flex flex-col gap-1 px-1">
+                <p className="text-serif-light text-sm font-semibold">
+                  {photo.uploader || "—"}
+                </p>
+                <p className="text-serif-light text-xs tracking-[0.1em] font-normal opacity-60">
+                  {names.get(photo.wedding) ?? photo.wedding} ·{" "}
+                  {formatTimestamp(photo.createdAt)}
+                </p>
+              </div>
+              <form className="flex gap-2">
+                {status !== "approved" && (
+                  <button
+                    type="submit"
+                    formAction={moderatePhoto.bind(null, photo.id, "approved")}
+                    className={`${buttonClass} bg-primary !text-background hover:bg-primary-hover`}
+                  >
+                    Aprobă
+                  </button>
+                )}
+                {status !== "rejected" && (
+                  <button
+                    type="submit"
+                    formAction={moderatePhoto.bind(null, photo.id, "rejected")}
+                    className={`${buttonClass} border border-primary/30 hover:bg-accent/20`}
+                  >
+                    Respinge
+                  </button>
+                )}
+                {status === "rejected" && (
+                  <button
+                    type="submit"
+                    formAction={removePhoto.bind(null, photo.id)}
+                    className={`${buttonClass} border border-highlight/40 !text-highlight hover:bg-accent/20`}
+                  >
+                    Șterge
+                  </button>
+                )}
+              </form>
+            </li>
+          ))}
+        </ul>
+      )}
+    </main>
+  );
+}
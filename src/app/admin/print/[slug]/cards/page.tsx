@@ -0,0 +1,80 @@
+import { notFound } from "next/navigation";
+import { AdminHeader } from "@/components/admin/AdminHeader";
+import { PlaceCards, TableCards } from "@/components/print/Cards";
+import { PrintButton } from "@/components/print/PrintButton";
+import { getWedding } from "@/config";
+import { requireAdmin } from "@/lib/auth";
+import { listRsvps } from "@/lib/rsvp-store";
+import { MAX_TABLES, tableOf } from "@/lib/seating";
+import { getSeating } from "@/lib/seating-store";
+import { coupleNames } from "@/lib/wedding";
+
+type Props = {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export default async function PrintCardsPage({ params, searchParams }: Props) {
+  await requireAdmin();
+
+  const { slug } = await params;
+  const config = getWedding(slug);
+  if (!config) notFound();
+  const [rsvps, plan] = await Promise.all([listRsvps(), getSeating(slug)]);
+
+  /* One card for every person coming, as they wrote their name,
+     with their table once the seating plan has one */
+  const cards = rsvps
+    .filter((r) => r.wedding === slug && r.attendance === "yes")
+    .flatMap((r) => {
+      const table = tableOf(plan, r.id)?.number;
+      return r.people.map((p) => ({ name: p.name, table }));
+    })
+    .sort((a, b) => a.name.localeCompare(b.name, "ro"));
+
+  /* The plan's tables, unless a number of them is asked for */
+  const { tables: param } = await searchParams;
+  const tables =
+    typeof param === "string" && param !== ""
+      ? Array.from(
+          { length: Math.min(Math.max(Number(param) || 0, 0), MAX_TABLES) },
+          (_, i) => i + 1
+        )
+      : plan.tables.map((t) => t.number).sort((a, b) => a - b);
+
+  return (
+    <main className="flex flex-col items-center gap-10 px-6 py-10 w-full max-w-6xl mx-auto print:p-0 print:gap-0">
+      <div className="flex flex-col gap-6 w-full print:hidden">
+        <AdminHeader title={`Carduri — ${coupleNames(config)}`} />
+        <form className="flex flex-wrap items-end gap-3">
+          <label className="flex items-center gap-3 text-serif-light text-xs tracking-[0.15em] font-normal">
+            Numere de masă
+            <input
+              type="number"
+              name="tables"
+              min={0}
+              max={MAX_TABLES}
+              defaultValue={tables.length}
+              className="w-24 bg-white/60 border border-primary/20 rounded-xl px-3 py-2 text-sm text-primary outline-none focus:border-primary/50 transition-colors"
+            />
+          </label>
+          <button
+            type="submit"
+            className="border border-primary/30 rounded-xl px-5 py-2 text-serif-light text-xs tracking-[0.3em] hover:bg-accent/20 transition-colors cursor-pointer"
+          >
+            Actualizează
+          </button>
+          <span className="flex-1" />
+          <PrintButton>Tipărește</PrintButton>
+        </form>
+        <p className="text-serif-light text-xs tracking-[0.15em] font-normal opacity-70">
+          {cards.length} carduri cu nume, din răspunsurile confirmate · {tables.length} numere
+          de masă{param === undefined && plan.tables.length > 0 && ", din planul de așezare"}
+        </p>
+      </div>
+
+      <PlaceCards config={config} cards={cards} />
+      <TableCards config={config} tables={tables} label="Masa" />
+    </main>
+  );
+}
@@ -0,0 +1,24 @@
+import { getWedding } from "@/config";
+import { DEFAULT_LOCALE, isLocale } from "@/i18n";
+import { isAdmin } from "@/lib/auth";
+import { invitationPdf } from "@/lib/print";
+
+type Context = { params: Promise<{ slug: string }> };
+
+export async function GET(request: Request, { params }: Context) {
+  if (!(await isAdmin())) return new Response("Unauthorized", { status: 401 });
+
+  const { slug } = await params;
+  const config = getWedding(slug);
+  if (!config) return new Response("Not found", { status: 404 });
+  const param = new URL(request.url).searchParams.get("locale") ?? "";
+  const locale = isLocale(param) ? param : DEFAULT_LOCALE;
+
+  const pdf = await invitationPdf(config, locale);
+  return new Response(new Uint8Array(pdf), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="invitatie-${slug}-${locale}.pdf"`,
+    },
+  });
+}
@@ -0,0 +1,57 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { AdminHeader } from "@/components/admin/AdminHeader";
+import { InvitationSheet } from "@/components/print/InvitationSheet";
+import { PrintButton } from "@/components/print/PrintButton";
+import { getWedding } from "@/config";
+import { DEFAULT_LOCALE, isLocale, LOCALE_NAMES, LOCALES } from "@/i18n";
+import { requireAdmin } from "@/lib/auth";
+import { coupleNames } from "@/lib/wedding";
+
+type Props = {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+const linkClass =
+  "border border-primary/30 rounded-xl px-5 py-2 text-serif-light text-xs tracking-[0.3em] hover:bg-accent/20 transition-colors aria-[current=page]:bg-accent/30";
+
+export default async function PrintInvitationPage({ params, searchParams }: Props) {
+  await requireAdmin();
+
+  const { slug } = await params;
+  const config = getWedding(slug);
+  if (!config) notFound();
+  const { locale: param } = await searchParams;
+  const locale = typeof param === "string" && isLocale(param) ? param : DEFAULT_LOCALE;
+
+  return (
+    <main className="flex flex-col items-center gap-10 px-6 py-10 w-full max-w-6xl mx-auto print:p-0">
+      <div className="flex flex-col gap-6 w-full print:hidden">
+        <AdminHeader title={`Invitație — ${coupleNames(config)}`} />
+        <div className="flex flex-wrap items-center gap-3">
+          {LOCALES.map((l) => (
+            <Link
+              key={l}
+              href={`/admin/print/${slug}?locale=${l}`}
+              aria-current={l === locale ? "page" : undefined}
+              className={linkClass}
+            >
+              {LOCALE_NAMES[l]}
+            </Link>
+          ))}
+          <span className="flex-1" />
+          <a href={`/admin/print/${slug}/invitation.pdf?locale=${locale}`} className={linkClass}>
+            PDF
+          </a>
+          <a href={`/admin/print/${slug}/invitation.svg?locale=${locale}`} className={linkClass}>
+            SVG
+          </a>
+          <PrintButton>Tipărește</PrintButton>
+        </div>
+      </div>
+
+      <InvitationSheet config={config} locale={locale} />
+    </main>
+  );
+}
@@ -0,0 +1,57 @@
+import Link from "next/link";
+import { AdminHeader } from "@/components/admin/AdminHeader";
+import { weddings } from "@/config";
+import { LOCALES } from "@/i18n";
+import { requireAdmin } from "@/lib/auth";
+import { coupleNames, formatDate } from "@/lib/wedding";
+
+const linkClass =
+  "border border-primary/30 rounded-xl px-4 py-2 text-serif-light text-[0.65rem] tracking-[0.3em] hover:bg-accent/20 transition-colors";
+
+export default async function PrintPage() {
+  await requireAdmin();
+
+  return (
+    <main className="flex flex-col gap-10 px-6 py-10 w-full max-w-6xl mx-auto">
+      <AdminHeader title="Tipărire" />
+
+      <div className="grid md:grid-cols-2 gap-4">
+        {weddings.map((w) => (
+          <div
+            key={w.slug}
+            className="flex flex-col gap-5 bg-accent/15 rounded-2xl px-6 py-5 border border-accent/40"
+          >
+            <div className="flex flex-col gap-1">
+              <p className="text-script text-2xl">{coupleNames(w)}</p>
+              <p className="text-serif-light text-xs tracking-[0.15em] font-normal opacity-70">
+                {formatDate(w.date, w.timeZone, "ro")}
+              </p>
+            </div>
+            {LOCALES.map((locale) => (
+              <div key={locale} className="flex flex-wrap items-center gap-2">
+                <span className="text-serif-light text-xs tracking-[0.3em] w-28">
+                  Invitație {locale}
+                </span>
+                <Link href={`/admin/print/${w.slug}?locale=${locale}`} className={linkClass}>
+                  Previzualizare
+                </Link>
+                <a href={`/admin/print/${w.slug}/invitation.pdf?locale=${locale}`} className={linkClass}>
+                  PDF
+                </a>
+                <a href={`/admin/print/${w.slug}/invitation.svg?locale=${locale}`} className={linkClass}>
+                  SVG
+                </a>
+              </div>
+            ))}
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-serif-light text-xs tracking-[0.3em] w-28">Carduri</span>
+              <Link href={`/admin/print/${w.slug}/cards`} className={linkClass}>
+                Nume și mese
+              </Link>
+            </div>
+          </div>
+        ))}
+      </div>
+    </main>
+  );
+}
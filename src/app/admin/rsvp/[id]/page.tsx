@@ -0,0 +1,21 @@
+import { notFound } from "next/navigation";
+import { AdminHeader } from "@/components/admin/AdminHeader";
+import { RsvpEditForm } from "@/components/admin/RsvpEditForm";
+import { requireAdmin } from "@/lib/auth";
+import { getRsvp } from "@/lib/rsvp-store";
+
+type Props = { params: Promise<{ id: string }> };
+
+export default async function EditRsvpPage({ params }: Props) {
+  await requireAdmin();
+
+  const rsvp = await getRsvp((await params).id);
+  if (!rsvp) notFound();
+
+  return (
+    <main className="flex flex-col gap-10 px-6 py-10 w-full max-w-2xl mx-auto">
+      <AdminHeader title="Editează răspunsul" />
+      <RsvpEditForm rsvp={rsvp} />
+    </main>
+  );
+}
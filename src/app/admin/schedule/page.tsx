@@ -0,0 +1,87 @@
+import { resetScheduleItem } from "@/app/admin/actions";
+import { AdminHeader } from "@/components/admin/AdminHeader";
+import { ScheduleItemForm } from "@/components/admin/ScheduleItemForm";
+import { weddings } from "@/config";
+import { localize } from "@/i18n";
+import { requireAdmin } from "@/lib/auth";
+import { getScheduleChanges } from "@/lib/schedule-store";
+import { coupleNames, formatDate } from "@/lib/wedding";
+
+export default async function ScheduleAdminPage() {
+  await requireAdmin();
+
+  const changes = await Promise.all(weddings.map((w) => getScheduleChanges(w.slug)));
+
+  return (
+    <main className="flex flex-col gap-10 px-6 py-10 w-full max-w-6xl mx-auto">
+      <AdminHeader title="Program" />
+
+      <p className="text-serif-light text-sm tracking-[0.1em] font-normal opacity-70">
+        O oră sau o notă salvată aici apare imediat la toți invitații care au invitația
+        deschisă, fără reîncărcare.
+      </p>
+
+      {weddings.map((w, wi) => {
+        const byItem = new Map(changes[wi].map((c) => [c.item, c]));
+        return (
+          <section key={w.slug} className="flex flex-col gap-4">
+            <div className="flex items-baseline justify-between gap-4">
+              <h2 className="text-script text-2xl">{coupleNames(w)}</h2>
+              <p className="text-serif-light text-xs tracking-[0.15em] font-normal opacity-70">
+                {formatDate(w.date, w.timeZone, "ro")} · {byItem.size} modificări
+              </p>
+            </div>
+            <div className="overflow-x-auto rounded-2xl border border-primary/10 bg-white/40">
+              <table className="w-full text-left text-sm">
+                <thead>
+                  <tr className="border-b border-primary/10">
+                    {["Moment", "Planificat", "Acum", ""].map((h) => (
+                      <th
+                        key={h}
+                        className="text-serif-light text-[0.65rem] tracking-[0.3em] px-4 py-3"
+                      >
+                        {h}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {w.schedule.map((item, i) => {
+                    const change = byItem.get(i);
+                    return (
+                      <tr key={i} className="border-b border-primary/5 last:border-0">
+                        <td className="px-4 py-3 font-semibold">{localize(item.title, "ro")}</td>
+                        <td className="px-4 py-3 whitespace-nowrap opacity-60">{item.time}</td>
+                        <td className="px-4 py-3 w-full">
+                          <ScheduleItemForm
+                            key={`${change?.time}|${change?.note}`}
+                            slug={w.slug}
+                            item={i}
+                            time={item.time}
+                            change={change}
+                          />
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {change && (
+                            <form action={resetScheduleItem.bind(null, w.slug, i)}>
+                              <button
+                                type="submit"
+                                className="border border-primary/30 rounded-xl px-3 py-1 text-serif-light text-[0.65rem] tracking-[0.2em] hover:bg-accent/20 transition-colors cursor-pointer whitespace-nowrap"
+                              >
+                                Ca în plan
+                              </button>
+                            </form>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        );
+      })}
+    </main>
+  );
+}
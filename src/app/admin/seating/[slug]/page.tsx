@@ -0,0 +1,59 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { AdminHeader } from "@/components/admin/AdminHeader";
+import { SeatingBoard } from "@/components/admin/SeatingBoard";
+import { getWedding, weddings } from "@/config";
+import { requireAdmin } from "@/lib/auth";
+import { listRsvps } from "@/lib/rsvp-store";
+import { partiesOf } from "@/lib/seating";
+import { getSeating } from "@/lib/seating-store";
+import { coupleNames } from "@/lib/wedding";
+
+type Props = { params: Promise<{ slug: string }> };
+
+export default async function SeatingPage({ params }: Props) {
+  await requireAdmin();
+
+  const { slug } = await params;
+  if (!getWedding(slug)) notFound();
+  const [rsvps, plan] = await Promise.all([listRsvps(), getSeating(slug)]);
+  const parties = partiesOf(rsvps, slug);
+
+  /* The board only knows confirmed responses; seats of any others
+     are left out and go away with the next save */
+  const confirmed = new Set(parties.map((p) => p.id));
+  const seats = Object.fromEntries(
+    Object.entries(plan.seats).filter(([id]) => confirmed.has(id))
+  );
+  const stale = Object.keys(plan.seats).length - Object.keys(seats).length;
+
+  return (
+    <main className="flex flex-col gap-10 px-6 py-10 w-full max-w-7xl mx-auto">
+      <AdminHeader title="Așezarea la mese" />
+
+      {weddings.length > 1 && (
+        <nav className="flex flex-wrap gap-3">
+          {weddings.map((w) => (
+            <Link
+              key={w.slug}
+              href={`/admin/seating/${w.slug}`}
+              aria-current={w.slug === slug ? "page" : undefined}
+              className="border border-primary/30 rounded-xl px-5 py-2 text-serif-light text-xs tracking-[0.3em] hover:bg-accent/20 transition-colors aria-[current=page]:bg-accent/30"
+            >
+              {coupleNames(w)}
+            </Link>
+          ))}
+        </nav>
+      )}
+
+      {/* Keyed so switching weddings starts from that wedding's plan */}
+      <SeatingBoard
+        key={slug}
+        slug={slug}
+        parties={parties}
+        plan={{ ...plan, seats }}
+        stale={stale}
+      />
+    </main>
+  );
+}
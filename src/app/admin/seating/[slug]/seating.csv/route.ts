@@ -0,0 +1,45 @@
+import { getWedding } from "@/config";
+import { getMessages } from "@/i18n";
+import { isAdmin } from "@/lib/auth";
+import { csvResponse, toCsv } from "@/lib/csv";
+import { listRsvps } from "@/lib/rsvp-store";
+import { tableOf } from "@/lib/seating";
+import { getSeating } from "@/lib/seating-store";
+
+type Context = { params: Promise<{ slug: string }> };
+
+const m = getMessages("ro");
+
+/* One row per person, by table; people without a seat come last */
+export async function GET(_request: Request, { params }: Context) {
+  if (!(await isAdmin())) return new Response("Unauthorized", { status: 401 });
+
+  const { slug } = await params;
+  if (!getWedding(slug)) return new Response("Not found", { status: 404 });
+
+  const [plan, rsvps] = await Promise.all([getSeating(slug), listRsvps()]);
+  const rows = rsvps
+    .filter((r) => r.wedding === slug && r.attendance === "yes")
+    .flatMap((r) => {
+      const table = tableOf(plan, r.id)?.number;
+      return r.people.map((p) => ({ table, person: p, response: r.name }));
+    })
+    .sort(
+      (a, b) =>
+        (a.table ?? Infinity) - (b.table ?? Infinity) ||
+        a.person.name.localeCompare(b.person.name, "ro")
+    );
+
+  const csv = toCsv([
+    ["Masa", "Nume", "Meniu", "Restrictii", "Raspuns"],
+    ...rows.map(({ table, person, response }) => [
+      table ?? "",
+      person.name,
+      m.rsvp.menus[person.menu],
+      person.diet.map((d) => m.rsvp.diets[d]).join(", "),
+      response,
+    ]),
+  ]);
+
+  return csvResponse(csv, `mese-${slug}.csv`);
+}
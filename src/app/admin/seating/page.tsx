@@ -0,0 +1,6 @@
+import { redirect } from "next/navigation";
+import { weddings } from "@/config";
+
+export default function SeatingIndexPage() {
+  redirect(`/admin/seating/${weddings[0].slug}`);
+}
@@ -0,0 +1,138 @@
+import Link from "next/link";
+import { moderateWish, removeWish } from "@/app/admin/actions";
+import { AdminHeader } from "@/components/admin/AdminHeader";
+import { StatCard } from "@/components/admin/StatCard";
+import { findGuest, weddings } from "@/config";
+import { requireAdmin } from "@/lib/auth";
+import { coupleNames } from "@/lib/wedding";
+import { listWishes } from "@/lib/wish-store";
+import { keepsakeReady, type WishStatus } from "@/lib/wishes";
+
+type Props = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+const STATUSES: Record<WishStatus, string> = {
+  pending: "De aprobat",
+  approved: "Aprobate",
+  rejected: "Respinse",
+};
+
+const buttonClass =
+  "rounded-xl px-3 py-2 text-serif-light text-[0.65rem] tracking-[0.2em] transition-colors cursor-pointer";
+
+function formatTimestamp(iso: string) {
+  return new Intl.DateTimeFormat("ro-RO", {
+    dateStyle: "short",
+    timeStyle: "short",
+    timeZone: "Europe/Bucharest",
+  }).format(new Date(iso));
+}
+
+export default async function WishesAdminPage({ searchParams }: Props) {
+  await requireAdmin();
+
+  const params = await searchParams;
+  const status: WishStatus =
+    params.status === "approved" || params.status === "rejected" ? params.status : "pending";
+  const all = await listWishes();
+  const wishes = all.filter((w) => w.status === status);
+  const names = new Map(weddings.map((w) => [w.slug, coupleNames(w)]));
+
+  return (
+    <main className="flex flex-col gap-10 px-6 py-10 w-full max-w-6xl mx-auto">
+      <AdminHeader title="Urări" />
+
+      <div className="grid grid-cols-3 gap-4">
+        {(Object.keys(STATUSES) as WishStatus[]).map((s) => (
+          <Link
+            key={s}
+            href={`/admin/wishes?status=${s}`}
+            aria-current={s === status ? "page" : undefined}
+            className="rounded-2xl aria-[current=page]:ring-2 aria-[current=page]:ring-primary/40"
+          >
+            <StatCard label={STATUSES[s]} value={all.filter((w) => w.status === s).length} />
+          </Link>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        {weddings.map((w) =>
+          keepsakeReady(w) ? (
+            <a
+              key={w.slug}
+              href={`/admin/wishes/${w.slug}/wishes.pdf`}
+              className="border border-primary/30 rounded-xl px-5 py-2 text-serif-light text-xs tracking-[0.3em] hover:bg-accent/20 transition-colors"
+            >
+              Carte de urări PDF · {coupleNames(w)}
+            </a>
+          ) : (
+            <p
+              key={w.slug}
+              className="text-serif-light text-xs tracking-[0.15em] font-normal opacity-60 py-2"
+            >
+              Cartea de urări pentru {coupleNames(w)} se poate descărca după nuntă
+            </p>
+          )
+        )}
+      </div>
+
+      {wishes.length === 0 ? (
+        <p className="text-serif-light text-sm tracking-[0.15em] font-normal opacity-60 text-center py-10">
+          Nicio urare
+        </p>
+      ) : (
+        <ul className="grid md:grid-cols-2 gap-4">
+          {wishes.map((wish) => (
+            <li
+              key={wish.id}
+              className="flex flex-col gap-3 bg-white/40 rounded-2xl border border-primary/10 p-5"
+            >
+              <p className="text-serif-light text-sm font-normal leading-relaxed whitespace-pre-line">
+                {wish.text}
+              </p>
+              <div className="flex flex-col gap-1">
+                <p className="text-serif-light text-sm font-semibold">{wish.name}</p>
+                <p className="text-serif-light text-xs tracking-[0.1em] font-normal opacity-60">
+                  {names.get(wish.wedding) ?? wish.wedding}
+                  {wish.guestToken &&
+                    ` · ${findGuest(wish.wedding, wish.guestToken)?.displayName ?? "invitație"}`}{" "}
+                  · {formatTimestamp(wish.createdAt)}
+                </p>
+              </div>
+              <form className="flex gap-2">
+                {status !== "approved" && (
+                  <button
+                    type="submit"
+                    formAction={moderateWish.bind(null, wish.id, "approved")}
+                    className={`${buttonClass} bg-primary !text-background hover:bg-primary-hover`}
+                  >
+                    Aprobă
+                  </button>
+                )}
+                {status !== "rejected" && (
+                  <button
+                    type="submit"
+                    formAction={moderateWish.bind(null, wish.id, "rejected")}
+                    className={`${buttonClass} border border-primary/30 hover:bg-accent/20`}
+                  >
+                    Respinge
+                  </button>
+                )}
+                {status === "rejected" && (
+                  <button
+                    type="submit"
+                    formAction={removeWish.bind(null, wish.id)}
+                    className={`${buttonClass} border border-highlight/40 !text-highlight hover:bg-accent/20`}
+                  >
+                    Șterge
+                  </button>
+                )}
+              </form>
+            </li>
+          ))}
+        </ul>
+      )}
+    </main>
+  );
+}
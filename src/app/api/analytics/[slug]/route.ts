@@ -0,0 +1,42 @@
+import { findGuest, getWedding } from "@/config";
+import { parseHit } from "@/lib/analytics";
+import { recordEvent } from "@/lib/analytics-store";
+import { allowHit, clientAddress } from "@/lib/rate-limit";
+
+/* ================================================================
+   Analytics events from the invitation, sent with sendBeacon
+
+   The address is only used for the rate limit, in memory; nothing
+   about the visitor is stored beyond the event itself.
+   ================================================================ */
+
+const HITS_PER_ADDRESS = 60;
+const HIT_WINDOW_MS = 10 * 60 * 1000;
+
+type Context = { params: Promise<{ slug: string }> };
+
+export async function POST(request: Request, { params }: Context) {
+  const { slug } = await params;
+  if (!getWedding(slug)) return new Response("Not found", { status: 404 });
+
+  let hit;
+  try {
+    hit = parseHit(JSON.parse(await request.text()));
+  } catch {
+    hit = undefined;
+  }
+  if (!hit) return new Response("Bad request", { status: 400 });
+
+  if (!allowHit(`analytics:${await clientAddress()}`, HITS_PER_ADDRESS, HIT_WINDOW_MS)) {
+    return new Response("Too many requests", { status: 429 });
+  }
+
+  await recordEvent({
+    wedding: slug,
+    kind: hit.kind,
+    section: hit.section,
+    guestToken: hit.invite && findGuest(slug, hit.invite)?.token,
+    visit: hit.visit,
+  });
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,21 @@
+import { getWedding } from "@/config";
+import { listReservations } from "@/lib/gift-store";
+
+/* ================================================================
+   Registry items already reserved, by id
+
+   Only which items are taken, never by whom: that stays between
+   the guest and the couple.
+   ================================================================ */
+
+type Context = { params: Promise<{ slug: string }> };
+
+export async function GET(_request: Request, { params }: Context) {
+  const { slug } = await params;
+  if (!getWedding(slug)?.gifts?.registry) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const reserved = (await listReservations(slug)).map((r) => r.item);
+  return Response.json({ reserved }, { headers: { "Cache-Control": "no-store" } });
+}
@@ -0,0 +1,34 @@
+import { isAdmin } from "@/lib/auth";
+import { getPhoto, readPhotoFile } from "@/lib/photo-store";
+
+/* ================================================================
+   Guest photo files, full size or thumbnail
+
+   Approved photos are served to anyone holding the link — ids
+   can't be guessed — while photos awaiting moderation are only
+   shown to the admin.
+   ================================================================ */
+
+type Context = { params: Promise<{ id: string; variant: string }> };
+
+export async function GET(_request: Request, { params }: Context) {
+  const { id, variant } = await params;
+  if (variant !== "full" && variant !== "thumb") {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const photo = await getPhoto(id);
+  const visible = photo && (photo.status === "approved" || (await isAdmin()));
+  if (!photo || !visible) return new Response("Not found", { status: 404 });
+
+  const data = await readPhotoFile(photo, variant);
+  if (!data) return new Response("Not found", { status: 404 });
+
+  return new Response(new Uint8Array(data), {
+    headers: {
+      "Content-Type": "image/jpeg",
+      "Cache-Control":
+        photo.status === "approved" ? "public, max-age=3600" : "private, no-store",
+    },
+  });
+}
@@ -0,0 +1,34 @@
+import { weddings } from "@/config";
+import { safeEqual } from "@/lib/auth";
+import { remindNonResponders, rsvpOpen, siteOrigin } from "@/lib/notifications";
+import { addDays, localDate } from "@/lib/time";
+
+/* ================================================================
+   Reminder batch for a scheduler (cron, GitHub Actions, …)
+
+   POST with `Authorization: Bearer $CRON_SECRET`. Every wedding
+   whose RSVP deadline is at most REMINDER_DAYS (default 7) away
+   reminds the guests who haven't answered; each guest is only
+   ever reminded once, so running it daily is safe.
+   ================================================================ */
+
+export async function POST(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  const authorization = request.headers.get("authorization") ?? "";
+  if (!secret || !safeEqual(authorization, `Bearer ${secret}`)) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const days = Number(process.env.REMINDER_DAYS ?? 7);
+  const origin = siteOrigin();
+  if (!origin) return new Response("SITE_URL is not set", { status: 500 });
+  const results: Record<string, { sent: number; failed: number }> = {};
+
+  for (const wedding of weddings) {
+    const today = localDate(new Date(), wedding.timeZone);
+    if (!rsvpOpen(wedding) || addDays(today, days) < wedding.rsvp.deadline) continue;
+    results[wedding.slug] = await remindNonResponders(wedding, origin);
+  }
+
+  return Response.json(results);
+}
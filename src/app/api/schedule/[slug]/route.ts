@@ -0,0 +1,68 @@
+import { getWedding } from "@/config";
+import type { ScheduleChange } from "@/lib/schedule";
+import { getScheduleChanges, onScheduleChange } from "@/lib/schedule-store";
+
+/* ================================================================
+   Live feed of a wedding's schedule changes (Server-Sent Events)
+
+   Sends the current changes on connect and again after every
+   save in admin, always the full list. A comment line every 25 s
+   keeps proxies from closing a quiet connection. A request that
+   doesn't ask for an event stream gets the current changes once,
+   as JSON.
+   ================================================================ */
+
+export const dynamic = "force-dynamic";
+
+type Context = { params: Promise<{ slug: string }> };
+
+const HEARTBEAT_MS = 25000;
+
+export async function GET(request: Request, { params }: Context) {
+  const { slug } = await params;
+  if (!getWedding(slug)) return new Response("Not found", { status: 404 });
+
+  const initial = await getScheduleChanges(slug);
+  if (!request.headers.get("accept")?.includes("text/event-stream")) {
+    return Response.json({ changes: initial }, { headers: { "Cache-Control": "no-store" } });
+  }
+
+  const encoder = new TextEncoder();
+  let close = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (changes: ScheduleChange[]) =>
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ changes })}\n\n`));
+      const unsubscribe = onScheduleChange(slug, send);
+      const heartbeat = setInterval(
+        () => controller.enqueue(encoder.encode(": ping\n\n")),
+        HEARTBEAT_MS
+      );
+      close = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener("abort", () => {
+        close();
+        try {
+          controller.close();
+        } catch {
+          /* Already cancelled by the reader */
+        }
+      });
+      send(initial);
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-store, no-transform",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
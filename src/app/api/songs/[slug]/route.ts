@@ -0,0 +1,44 @@
+import { findGuest, getWedding } from "@/config";
+import { issueDevice, verifyDevice } from "@/lib/device";
+import { allowHit, clientAddress } from "@/lib/rate-limit";
+import { listSongs } from "@/lib/song-store";
+import { rankSongs, voterKey } from "@/lib/songs";
+
+/* ================================================================
+   Song requests, most votes first, and which of them the asking
+   voter (`?invite=` or `?device=`) has voted for. Only titles,
+   artists and counts, never who suggested or voted.
+
+   A browser without an invitation or a valid device token gets a
+   new token to vote with, a few per address per hour.
+   ================================================================ */
+
+const DEVICES_PER_ADDRESS = 10;
+const DEVICE_WINDOW_MS = 60 * 60 * 1000;
+
+type Context = { params: Promise<{ slug: string }> };
+
+export async function GET(request: Request, { params }: Context) {
+  const { slug } = await params;
+  if (!getWedding(slug)) return new Response("Not found", { status: 404 });
+
+  const query = new URL(request.url).searchParams;
+  const invite = query.get("invite");
+  const guest = invite ? findGuest(slug, invite)?.token : undefined;
+  let device = verifyDevice(query.get("device") ?? undefined);
+  let issued: string | undefined;
+  if (!guest && !device) {
+    if (allowHit(`device:${await clientAddress()}`, DEVICES_PER_ADDRESS, DEVICE_WINDOW_MS)) {
+      issued = issueDevice();
+      device = verifyDevice(issued);
+    }
+  }
+  const voter = voterKey({ guest, device });
+
+  const songs = await listSongs(slug);
+  const voted = voter ? songs.filter((s) => s.votes.includes(voter)).map((s) => s.id) : [];
+  return Response.json(
+    { songs: rankSongs(songs), voted, device: issued },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
@@ -0,0 +1,30 @@
+import { findGuest, getWedding } from "@/config";
+import { findTableNumber } from "@/lib/seating-store";
+import { weddingTimes } from "@/lib/wedding";
+
+/* ================================================================
+   A personal invitation's table number
+
+   Answered from the start of the wedding day only, so guests
+   never see a plan the couple is still changing. The token is
+   the invitation's own secret, as on its page.
+   ================================================================ */
+
+type Context = { params: Promise<{ slug: string; token: string }> };
+
+export async function GET(_request: Request, { params }: Context) {
+  const { slug, token } = await params;
+  const config = getWedding(slug);
+  if (!config || !findGuest(slug, token)) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const table =
+    Date.now() >= weddingTimes(config).dayStart
+      ? await findTableNumber(slug, token)
+      : undefined;
+  return Response.json(
+    { table: table ?? null },
+    { headers: { "Cache-Control": "private, no-store" } }
+  );
+}
@@ -0,0 +1,26 @@
+import { getWedding } from "@/config";
+import { listWishes } from "@/lib/wish-store";
+import { WISHES_PER_PAGE, type PublicWish } from "@/lib/wishes";
+
+/* ================================================================
+   Approved guestbook wishes, newest first, a page at a time
+   (`?page=1` is the first). Only the name and the wish, never
+   which invitation it came through.
+   ================================================================ */
+
+type Context = { params: Promise<{ slug: string }> };
+
+export async function GET(request: Request, { params }: Context) {
+  const { slug } = await params;
+  if (!getWedding(slug)) return new Response("Not found", { status: 404 });
+
+  const approved = await listWishes({ wedding: slug, status: "approved" });
+  const pages = Math.max(1, Math.ceil(approved.length / WISHES_PER_PAGE));
+  const requested = Number(new URL(request.url).searchParams.get("page"));
+  const page = Number.isInteger(requested) ? Math.min(Math.max(requested, 1), pages) : 1;
+
+  const wishes: PublicWish[] = approved
+    .slice((page - 1) * WISHES_PER_PAGE, page * WISHES_PER_PAGE)
+    .map(({ id, name, text, createdAt }) => ({ id, name, text, createdAt }));
+  return Response.json({ wishes, page, pages }, { headers: { "Cache-Control": "no-store" } });
+}
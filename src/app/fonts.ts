@@ -0,0 +1,35 @@
+import localFont from "next/font/local";
+import { Cormorant_Garamond, Great_Vibes, Playfair_Display } from "next/font/google";
+
+export const faith = localFont({
+  src: "../../public/fonts/faith.ttf",
+  variable: "--font-faith",
+  display: "swap",
+});
+
+export const cormorant = Cormorant_Garamond({
+  weight: ["300", "400", "600"],
+  variable: "--font-cormorant",
+  subsets: ["latin"],
+});
+
+/* Alternatives offered by themes (lib/themes). Not preloaded: the
+   browser only fetches them when a theme actually uses them. */
+
+export const greatVibes = Great_Vibes({
+  weight: "400",
+  variable: "--font-great-vibes",
+  subsets: ["latin", "latin-ext"],
+  preload: false,
+});
+
+export const playfair = Playfair_Display({
+  weight: ["400", "600"],
+  variable: "--font-playfair",
+  subsets: ["latin", "latin-ext"],
+  preload: false,
+});
+
+export const fontVariables = [faith, cormorant, greatVibes, playfair]
+  .map((f) => f.variable)
+  .join(" ");
@@ -0,0 +1,127 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef } from "react";
+import { motion } from "framer-motion";
+import type { Messages } from "@/i18n";
+import type { AnalyticsKind, Section } from "@/lib/analytics";
+import { useConsent, type ConsentChoice } from "@/lib/consent";
+
+/* ================================================================
+   Analytics in the browser — events wait in memory until the
+   visitor agrees, and go nowhere if they decline. Each event is
+   sent once per page load.
+   ================================================================ */
+
+type Track = (kind: AnalyticsKind, section?: Section) => void;
+
+/* Props for the element whose `whileInView` marks a section as reached */
+type Seen = (section: Section) => { onViewportEnter: () => void };
+
+export interface Analytics {
+  track: Track;
+  seen: Seen;
+}
+
+const AnalyticsContext = createContext<Analytics>({
+  track: () => {},
+  seen: () => ({ onViewportEnter: () => {} }),
+});
+
+export function useAnalytics(slug: string, invite?: string): Analytics {
+  const [consent] = useConsent("analytics");
+  const choice = useRef<ConsentChoice | null | undefined>(undefined);
+  const visit = useRef<string | null>(null);
+  const pending = useRef<{ kind: AnalyticsKind; section?: Section }[]>([]);
+  const tracked = useRef(new Set<string>());
+
+  const flush = useCallback(() => {
+    visit.current ??= crypto.randomUUID();
+    const url = `/api/analytics/${slug}`;
+    for (const { kind, section } of pending.current) {
+      const body = JSON.stringify({ kind, section, visit: visit.current, invite });
+      if (!navigator.sendBeacon?.(url, body)) {
+        fetch(url, { method: "POST", body, keepalive: true }).catch(() => {});
+      }
+    }
+    pending.current = [];
+  }, [slug, invite]);
+
+  const track = useCallback<Track>(
+    (kind, section) => {
+      const key = `${kind}:${section ?? ""}`;
+      if (tracked.current.has(key) || choice.current === "denied") return;
+      tracked.current.add(key);
+      pending.current.push({ kind, section });
+      if (choice.current === "granted") flush();
+    },
+    [flush]
+  );
+
+  useEffect(() => {
+    choice.current = consent;
+    if (consent === "granted") flush();
+    if (consent === "denied") pending.current = [];
+  }, [consent, flush]);
+
+  /* The first screen is reached by opening the page */
+  useEffect(() => {
+    track("view");
+    track("section", "hero");
+  }, [track]);
+
+  const seen = useCallback<Seen>(
+    (section) => ({ onViewportEnter: () => track("section", section) }),
+    [track]
+  );
+  return useMemo(() => ({ track, seen }), [track, seen]);
+}
+
+export function AnalyticsProvider({
+  value,
+  children,
+}: {
+  value: Analytics;
+  children: React.ReactNode;
+}) {
+  return <AnalyticsContext value={value}>{children}</AnalyticsContext>;
+}
+
+export function useSeen() {
+  return useContext(AnalyticsContext).seen;
+}
+
+/* Asks once, at the bottom of the screen; nothing is sent before */
+export function AnalyticsConsent({ messages }: { messages: Messages["analytics"] }) {
+  const [consent, setConsent] = useConsent("analytics");
+  if (consent !== null) return null;
+
+  return (
+    <motion.aside
+      aria-label={messages.title}
+      className="fixed inset-x-4 bottom-4 z-50 mx-auto max-w-xl flex flex-col sm:flex-row items-center gap-4 bg-background rounded-2xl border border-primary/20 shadow-lg px-6 py-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6, ease: "easeOut", delay: 1 }}
+    >
+      <p className="text-serif-light text-xs tracking-[0.1em] font-normal leading-relaxed text-left">
+        {messages.consent}
+      </p>
+      <div className="flex shrink-0 gap-2">
+        <button
+          type="button"
+          onClick={() => setConsent("granted")}
+          className="rounded-xl px-4 py-2 text-serif-light text-xs tracking-[0.2em] bg-primary text-background hover:bg-primary-hover transition-colors cursor-pointer"
+        >
+          {messages.allow}
+        </button>
+        <button
+          type="button"
+          onClick={() => setConsent("denied")}
+          className="rounded-xl px-4 py-2 text-serif-light text-xs tracking-[0.2em] border border-primary/30 hover:bg-white transition-colors cursor-pointer"
+        >
+          {messages.decline}
+        </button>
+      </div>
+    </motion.aside>
+  );
+}
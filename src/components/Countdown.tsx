@@ -0,0 +1,115 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { SmallRoseIcon } from "./Roses";
+import { plural, type Locale, type Messages } from "@/i18n";
+
+/* ================================================================
+   Countdown to the wedding
+
+   The clock is read through useSyncExternalStore with a `null`
+   server snapshot: the server and the hydrating client both
+   render the placeholder, and live numbers only appear once the
+   client has taken over, so there is never a markup mismatch.
+   ================================================================ */
+
+function subscribe(onTick: () => void) {
+  const id = setInterval(onTick, 1000);
+  return () => clearInterval(id);
+}
+
+/* Whole seconds keep the snapshot stable between ticks */
+const clientNow = () => Math.floor(Date.now() / 1000) * 1000;
+const serverNow = () => null;
+
+const UNITS = ["days", "hours", "minutes", "seconds"] as const;
+
+function split(ms: number) {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  return {
+    days: Math.floor(s / 86400),
+    hours: Math.floor((s % 86400) / 3600),
+    minutes: Math.floor((s % 3600) / 60),
+    seconds: s % 60,
+  };
+}
+
+export function Countdown({
+  dayStart,
+  start,
+  end,
+  locale,
+  messages,
+  delay = 0,
+}: {
+  /* Epoch ms, see weddingTimes() */
+  dayStart: number;
+  start: number;
+  end: number;
+  locale: Locale;
+  messages: Messages["countdown"];
+  delay?: number;
+}) {
+  const now = useSyncExternalStore(subscribe, clientNow, serverNow);
+
+  const phase =
+    now === null ? "pending" : now >= end ? "after" : now >= dayStart ? "today" : "before";
+
+  return (
+    <motion.div
+      className="flex flex-col items-center gap-3 min-h-20"
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.8, ease: "easeOut", delay }}
+    >
+      {(phase === "pending" || phase === "before") && (
+        <div
+          role="timer"
+          aria-label={messages.label}
+          className="flex items-start justify-center gap-4 sm:gap-8"
+        >
+          {UNITS.map((unit) => {
+            const value = now === null ? null : split(start - now)[unit];
+            return (
+              <div key={unit} className="flex flex-col items-center gap-1 min-w-[3.5rem]">
+                <div className="relative h-9 sm:h-11 overflow-hidden">
+                  <AnimatePresence mode="popLayout" initial={false}>
+                    <motion.span
+                      key={value ?? "placeholder"}
+                      className="block text-serif-light text-2xl sm:text-4xl font-bold tabular-nums"
+                      initial={{ y: "-100%", opacity: 0 }}
+                      animate={{ y: 0, opacity: 1 }}
+                      exit={{ y: "100%", opacity: 0 }}
+                      transition={{ duration: 0.35, ease: [0.22, 1, 0.36, 1] }}
+                    >
+                      {value === null ? "–" : String(value).padStart(2, "0")}
+                    </motion.span>
+                  </AnimatePresence>
+                </div>
+                <span className="text-serif-light text-[0.6rem] sm:text-xs tracking-[0.3em] opacity-70">
+                  {plural(locale, value ?? 0, messages[unit])}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {(phase === "today" || phase === "after") && (
+        <motion.div
+          className="flex items-center gap-3"
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          transition={{ duration: 0.8, ease: [0.22, 1.15, 0.36, 1] }}
+        >
+          <SmallRoseIcon size={18} />
+          <p className="text-script text-2xl sm:text-3xl">
+            {phase === "today" ? messages.today : messages.after}
+          </p>
+          <SmallRoseIcon size={18} />
+        </motion.div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import { motion } from "framer-motion";
+import {
+  FLOWERS,
+  flowerRadius,
+  petalLayout,
+  type FlowerId,
+  type FlowerSpecies,
+} from "@/lib/flowers";
+
+/* ================================================================
+   Phyllotaxis flower — any species from lib/flowers
+
+   The couple's flower is provided once for the whole page, so
+   every rose, leaf and divider icon below picks it up without
+   threading a prop through each section.
+
+   `still` draws everything fully open from the first render,
+   server-side included, for the print sheets.
+   ================================================================ */
+
+const FlowerContext = createContext<FlowerSpecies>(FLOWERS.rose);
+const StillContext = createContext(false);
+
+export function FlowerProvider({
+  flower,
+  still = false,
+  children,
+}: {
+  flower: FlowerId;
+  still?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <FlowerContext value={FLOWERS[flower]}>
+      <StillContext value={still}>{children}</StillContext>
+    </FlowerContext>
+  );
+}
+
+export function useFlower() {
+  return useContext(FlowerContext);
+}
+
+export function useStill() {
+  return useContext(StillContext);
+}
+
+/* Standalone bloom rendered as its own <svg> element, unfurling
+   petals from the center outward */
+export function Flower({
+  delay,
+  size = 1,
+  species: override,
+  className = "",
+}: {
+  delay: number;
+  size?: number;
+  species?: FlowerSpecies;
+  className?: string;
+}) {
+  const context = useFlower();
+  const still = useStill();
+  const species = override ?? context;
+  const { bloom, center } = species;
+  const dim = Math.round(50 * size);
+
+  return (
+    <motion.div
+      className={className}
+      initial={still ? false : { scale: 0, opacity: 0 }}
+      animate={{ scale: 1, opacity: 1 }}
+      transition={{ duration: 0.5, delay, ease: [0.22, 1.15, 0.36, 1] }}
+    >
+      <svg width={dim} height={dim} viewBox="-25 -25 50 50" overflow="visible" aria-hidden>
+        {petalLayout(species).map((p, i) => (
+          <g
+            key={i}
+            transform={`translate(${p.x},${p.y}) rotate(${p.rotate}) scale(${p.scale})`}
+          >
+            <motion.path
+              d={species.petalPath}
+              fill={p.color}
+              initial={still ? false : { scale: 0, opacity: 0 }}
+              animate={{ scale: 1, opacity: species.opacity }}
+              transition={{
+                duration: bloom.duration,
+                delay: delay + i * bloom.stagger,
+                ease: [0.22, 1.15, 0.36, 1],
+              }}
+            />
+          </g>
+        ))}
+        {center && (
+          <motion.circle
+            cx="0"
+            cy="0"
+            r={center.radius}
+            fill={center.color}
+            initial={still ? false : { scale: 0 }}
+            animate={{ scale: 1 }}
+            transition={{ duration: 0.25, delay }}
+          />
+        )}
+      </svg>
+    </motion.div>
+  );
+}
+
+/* Static bloom scaled to fit a square icon */
+export function FlowerIcon({
+  size = 18,
+  species: override,
+}: {
+  size?: number;
+  species?: FlowerSpecies;
+}) {
+  const context = useFlower();
+  const species = override ?? context;
+  const fit = 24 / flowerRadius(species);
+
+  return (
+    <svg width={size} height={size} viewBox="-25 -25 50 50" aria-hidden>
+      <g transform={`scale(${fit})`}>
+        {petalLayout(species).map((p, i) => (
+          <path
+            key={i}
+            d={species.petalPath}
+            fill={p.color}
+            opacity={species.opacity - 0.07}
+            transform={`translate(${p.x},${p.y}) rotate(${p.rotate}) scale(${p.scale})`}
+          />
+        ))}
+        {species.center && (
+          <circle r={species.center.radius} fill={species.center.color} />
+        )}
+      </g>
+    </svg>
+  );
+}
@@ -0,0 +1,397 @@
+"use client";
+
+import { useEffect, useId, useState, useTransition } from "react";
+import { motion } from "framer-motion";
+import { reserveGift } from "@/app/actions";
+import { format, localize, type Locale, type Messages } from "@/i18n";
+import {
+  epcPayload,
+  formatIban,
+  MAX_RESERVER_NAME,
+  revolutUrl,
+  type GiftsConfig,
+  type RegistryItem,
+  type ReserveError,
+} from "@/lib/gifts";
+import { qrPath } from "@/lib/qr";
+import { useSeen } from "./Analytics";
+import { SmallRoseIcon } from "./Roses";
+
+/* ================================================================
+   Gifts — the couple's bank details with copy buttons and an EPC
+   QR code for banking apps, a Revolut link, and the registry.
+   Which items are taken is fetched when the section loads, since
+   the page itself is static; the server refuses a second
+   reservation of the same item either way.
+   ================================================================ */
+
+const cardClass =
+  "flex flex-col gap-5 w-full bg-white/40 rounded-2xl border border-primary/10 px-6 py-8";
+
+const buttonClass =
+  "border border-primary/25 rounded-xl px-4 py-2 text-serif-light text-xs tracking-[0.2em] hover:bg-accent/20 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-wait";
+
+type ItemState = "free" | "reserved" | "yours";
+
+function CopyRow({
+  label,
+  value,
+  display = value,
+  messages,
+  onCopy,
+}: {
+  label: string;
+  value: string;
+  display?: string;
+  messages: Messages["gifts"];
+  onCopy: (label: string) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-4 text-left">
+      <div className="flex flex-col gap-0.5 min-w-0">
+        <span className="text-serif-light text-xs tracking-[0.3em] opacity-60">{label}</span>
+        <span className="text-serif-light text-sm sm:text-base font-semibold break-all">
+          {display}
+        </span>
+      </div>
+      <button
+        type="button"
+        onClick={() =>
+          navigator.clipboard
+            ?.writeText(value)
+            .then(() => onCopy(label))
+            .catch(() => {})
+        }
+        aria-label={format(messages.copy, { what: label })}
+        className={`${buttonClass} shrink-0`}
+      >
+        <span aria-hidden>⧉</span>
+      </button>
+    </div>
+  );
+}
+
+function RegistryEntry({
+  item,
+  state,
+  guestName,
+  canBeAnonymous,
+  locale,
+  messages,
+  onReserve,
+}: {
+  item: RegistryItem;
+  state: ItemState;
+  guestName: string;
+  /* Anonymous reservations are for personal invitations */
+  canBeAnonymous: boolean;
+  locale: Locale;
+  messages: Messages["gifts"];
+  onReserve: (name: string, anonymous: boolean) => Promise<ReserveError | null>;
+}) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(guestName);
+  const [anonymous, setAnonymous] = useState(false);
+  const [error, setError] = useState<ReserveError | "failed" | null>(null);
+  const [pending, startPending] = useTransition();
+  const fieldId = `gift-${useId()}`;
+
+  const submit = () =>
+    startPending(async () => {
+      try {
+        const problem = await onReserve(name, anonymous);
+        setError(problem);
+        if (!problem) setOpen(false);
+      } catch {
+        setError("failed");
+      }
+    });
+
+  return (
+    <li className="flex flex-col gap-3 bg-white/60 rounded-xl border border-primary/10 px-5 py-4 text-left">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex flex-col gap-1">
+          <h4 className="text-script text-xl sm:text-2xl">{localize(item.title, locale)}</h4>
+          {item.desc && (
+            <p className="text-serif-light text-sm tracking-[0.1em] font-normal opacity-70">
+              {localize(item.desc, locale)}
+            </p>
+          )}
+          {item.url && (
+            <a
+              href={item.url}
+              target="_blank"
+              rel="noreferrer"
+              className="text-serif-light text-xs tracking-[0.2em] underline underline-offset-4 opacity-70 hover:opacity-100"
+            >
+              {messages.view}
+            </a>
+          )}
+        </div>
+        {state === "free" ? (
+          !open && (
+            <button
+              type="button"
+              onClick={() => setOpen(true)}
+              className={`${buttonClass} shrink-0`}
+            >
+              {messages.reserve}
+            </button>
+          )
+        ) : (
+          <span className="shrink-0 text-serif-light text-xs tracking-[0.2em] opacity-60">
+            {state === "yours" ? messages.yours : messages.reserved}
+          </span>
+        )}
+      </div>
+
+      {state === "free" && open && (
+        <form
+          className="flex flex-col gap-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit();
+          }}
+        >
+          {!anonymous && (
+            <input
+              id={`${fieldId}-name`}
+              type="text"
+              value={name}
+              maxLength={MAX_RESERVER_NAME}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={messages.name}
+              aria-label={messages.name}
+              aria-invalid={error === "name"}
+              aria-describedby={error ? `${fieldId}-error` : undefined}
+              className="w-full bg-white/70 border border-primary/20 rounded-xl px-4 py-2 text-serif-light text-sm tracking-[0.1em] font-normal outline-none focus:border-primary/50 transition-colors"
+            />
+          )}
+          {canBeAnonymous && (
+            <label className="flex items-center gap-2 text-serif-light text-xs tracking-[0.15em] font-normal">
+              <input
+                type="checkbox"
+                checked={anonymous}
+                onChange={(e) => setAnonymous(e.target.checked)}
+                className="accent-primary"
+              />
+              {messages.anonymous}
+            </label>
+          )}
+          {error && (
+            <p
+              id={`${fieldId}-error`}
+              role="alert"
+              className="text-serif-light text-xs tracking-[0.15em] font-normal !text-highlight"
+            >
+              {error === "name" && !canBeAnonymous
+                ? messages.errors.nameOnly
+                : messages.errors[error]}
+            </p>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={pending}
+              className="flex-1 bg-primary rounded-xl px-4 py-2 text-serif-light text-xs tracking-[0.2em] !text-background hover:bg-primary-hover transition-colors cursor-pointer disabled:opacity-60 disabled:cursor-wait"
+            >
+              {pending ? messages.reserving : messages.confirm}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setOpen(false);
+                setError(null);
+              }}
+              className={buttonClass}
+            >
+              {messages.cancel}
+            </button>
+          </div>
+        </form>
+      )}
+    </li>
+  );
+}
+
+export function Gifts({
+  slug,
+  gifts,
+  names,
+  invite,
+  guestName = "",
+  locale,
+  messages,
+}: {
+  slug: string;
+  gifts: GiftsConfig;
+  /* Couple's names, for the transfer's remittance text */
+  names: string;
+  /* Token of a personal invitation, stored with its reservations */
+  invite?: string;
+  guestName?: string;
+  locale: Locale;
+  messages: Messages["gifts"];
+}) {
+  const seen = useSeen();
+  const [reserved, setReserved] = useState<string[]>([]);
+  const [mine, setMine] = useState<string[]>([]);
+  const [copied, setCopied] = useState<string | null>(null);
+  const registry = gifts.registry ?? [];
+
+  useEffect(() => {
+    if (registry.length === 0) return;
+    let cancelled = false;
+    fetch(`/api/gifts/${slug}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { reserved: string[] } | null) => {
+        if (!cancelled && data) setReserved(data.reserved);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [slug, registry.length]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(null), 2500);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const reserve = async (item: string, name: string, anonymous: boolean) => {
+    const result = await reserveGift(slug, item, { name, anonymous, invite });
+    if (result.ok) {
+      setMine((m) => [...m, item]);
+      return null;
+    }
+    if (result.error === "taken") setReserved((r) => [...r, item]);
+    return result.error;
+  };
+
+  const stateOf = (item: string): ItemState =>
+    mine.includes(item) ? "yours" : reserved.includes(item) ? "reserved" : "free";
+
+  const qr =
+    gifts.bank && qrPath(epcPayload(gifts.bank, format(messages.remittance, { names })));
+
+  return (
+    <section className="flex min-h-screen items-center justify-center overflow-hidden bg-background snap-start">
+      <div className="flex flex-col items-center gap-12 px-6 py-24 text-center w-full max-w-3xl mx-auto">
+        <motion.h2
+          className="text-script text-4xl sm:text-5xl"
+          initial={{ opacity: 0, y: 20 }}
+          whileInView={{ opacity: 1, y: 0 }}
+          viewport={{ once: true, margin: "-100px" }}
+          transition={{ duration: 0.8, ease: "easeOut" }}
+          {...seen("gifts")}
+        >
+          {messages.title}
+        </motion.h2>
+
+        {gifts.note && (
+          <p className="text-serif-light text-sm sm:text-base tracking-[0.1em] font-normal leading-relaxed opacity-80 max-w-xl">
+            {localize(gifts.note, locale)}
+          </p>
+        )}
+
+        {(gifts.bank || gifts.revolut) && (
+          <motion.div
+            className={cardClass}
+            initial={{ opacity: 0, y: 30 }}
+            whileInView={{ opacity: 1, y: 0 }}
+            viewport={{ once: true, margin: "-100px" }}
+            transition={{ duration: 0.8, ease: "easeOut" }}
+          >
+            {gifts.bank && (
+              <div className="flex flex-col sm:flex-row items-center gap-8">
+                <div className="flex flex-col gap-4 w-full">
+                  <h3 className="text-serif-light text-xs tracking-[0.3em] font-bold text-left">
+                    {messages.transfer}
+                    {gifts.bank.bank && (
+                      <span className="font-normal opacity-60"> · {gifts.bank.bank}</span>
+                    )}
+                  </h3>
+                  <CopyRow
+                    label={messages.holder}
+                    value={gifts.bank.holder}
+                    messages={messages}
+                    onCopy={setCopied}
+                  />
+                  <CopyRow
+                    label={messages.iban}
+                    value={gifts.bank.iban.replace(/\s+/g, "")}
+                    display={formatIban(gifts.bank.iban)}
+                    messages={messages}
+                    onCopy={setCopied}
+                  />
+                  {gifts.bank.bic && (
+                    <CopyRow
+                      label={messages.bic}
+                      value={gifts.bank.bic}
+                      messages={messages}
+                      onCopy={setCopied}
+                    />
+                  )}
+                </div>
+                {qr && (
+                  <figure className="flex flex-col items-center gap-2 shrink-0">
+                    <svg
+                      viewBox={`0 0 ${qr.size} ${qr.size}`}
+                      role="img"
+                      aria-label={messages.qr}
+                      className="w-40 h-40 bg-white rounded-xl"
+                      shapeRendering="crispEdges"
+                    >
+                      <path d={qr.d} fill="#000" />
+                    </svg>
+                    <figcaption className="text-serif-light text-[0.65rem] tracking-[0.1em] font-normal opacity-60 max-w-40">
+                      {messages.qr}
+                    </figcaption>
+                  </figure>
+                )}
+              </div>
+            )}
+            {gifts.revolut && (
+              <a
+                href={revolutUrl(gifts.revolut)}
+                target="_blank"
+                rel="noreferrer"
+                className="self-center flex items-center gap-3 border border-primary/25 rounded-xl px-6 py-3 text-serif-light text-xs tracking-[0.3em] hover:bg-accent/20 transition-colors"
+              >
+                <SmallRoseIcon size={14} />
+                {messages.revolut} · @{gifts.revolut}
+              </a>
+            )}
+            <p role="status" className="text-serif-light text-xs tracking-[0.15em] font-normal opacity-70 min-h-4">
+              {copied && format(messages.copied, { what: copied })}
+            </p>
+          </motion.div>
+        )}
+
+        {registry.length > 0 && (
+          <div className="flex flex-col gap-4 w-full">
+            <h3 className="text-script text-3xl">{messages.registry}</h3>
+            <p className="text-serif-light text-sm tracking-[0.1em] font-normal opacity-70">
+              {messages.registryHint}
+            </p>
+            <ul className="flex flex-col gap-3">
+              {registry.map((item) => (
+                <RegistryEntry
+                  key={item.id}
+                  item={item}
+                  state={stateOf(item.id)}
+                  guestName={guestName}
+                  canBeAnonymous={!!invite}
+                  locale={locale}
+                  messages={messages}
+                  onReserve={(name, anonymous) => reserve(item.id, name, anonymous)}
+                />
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
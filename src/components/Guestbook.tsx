@@ -0,0 +1,244 @@
+"use client";
+
+import { useEffect, useId, useState, useTransition } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { submitWish } from "@/app/actions";
+import { format, type Messages } from "@/i18n";
+import {
+  MAX_WISH_NAME,
+  MAX_WISH_TEXT,
+  type PublicWish,
+  type WishErrorCode,
+} from "@/lib/wishes";
+import { useSeen } from "./Analytics";
+import { SmallRoseIcon } from "./Roses";
+
+/* ================================================================
+   Guestbook — a form for wishes and the approved ones as cards,
+   a page at a time. Wishes are fetched when the section loads,
+   like the registry, since the page itself is static; a new wish
+   only shows once the couple has approved it.
+   ================================================================ */
+
+const fieldClass =
+  "w-full bg-white/70 border border-primary/20 rounded-xl px-4 py-3 text-serif-light text-sm tracking-[0.1em] font-normal outline-none focus:border-primary/50 transition-colors";
+
+const pageButtonClass =
+  "border border-primary/25 rounded-xl px-4 py-2 text-serif-light text-xs tracking-[0.2em] hover:bg-accent/20 transition-colors cursor-pointer disabled:opacity-30 disabled:cursor-default";
+
+type Listing = { wishes: PublicWish[]; page: number; pages: number };
+
+function WishCard({ wish, index }: { wish: PublicWish; index: number }) {
+  return (
+    <motion.li
+      layout
+      className="relative flex flex-col gap-3 bg-white/50 rounded-2xl border border-primary/10 px-6 pt-8 pb-6 text-left"
+      initial={{ opacity: 0, y: 20, rotate: index % 2 ? 1.5 : -1.5 }}
+      animate={{ opacity: 1, y: 0, rotate: 0 }}
+      exit={{ opacity: 0, y: -10 }}
+      transition={{ duration: 0.6, ease: "easeOut", delay: index * 0.08 }}
+    >
+      <span className="absolute -top-3 left-1/2 -translate-x-1/2 bg-background rounded-full p-1">
+        <SmallRoseIcon size={18} />
+      </span>
+      <p className="text-serif-light text-sm sm:text-base tracking-[0.05em] font-normal leading-relaxed whitespace-pre-line">
+        {wish.text}
+      </p>
+      <p className="text-script text-xl sm:text-2xl self-end">{wish.name}</p>
+    </motion.li>
+  );
+}
+
+export function Guestbook({
+  slug,
+  invite,
+  guestName = "",
+  messages,
+}: {
+  slug: string;
+  /* Token of a personal invitation, stored with its wishes */
+  invite?: string;
+  guestName?: string;
+  messages: Messages["guestbook"];
+}) {
+  const seen = useSeen();
+  const [listing, setListing] = useState<Listing | null>(null);
+  const [page, setPage] = useState(1);
+  const [name, setName] = useState(guestName);
+  const [text, setText] = useState("");
+  const [error, setError] = useState<WishErrorCode | "failed" | null>(null);
+  const [sent, setSent] = useState(false);
+  const [pending, startPending] = useTransition();
+  const fieldId = `wish-${useId()}`;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch(`/api/wishes/${slug}?page=${page}`, { signal: controller.signal })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: Listing | null) => {
+        if (data) setListing(data);
+      })
+      .catch(() => {});
+    return () => controller.abort();
+  }, [slug, page]);
+
+  const submit = (formData: FormData) =>
+    startPending(async () => {
+      try {
+        const result = await submitWish(formData);
+        setError(result.ok ? null : result.error);
+        if (result.ok) {
+          setSent(true);
+          setText("");
+        }
+      } catch {
+        setError("failed");
+      }
+    });
+
+  return (
+    <section className="flex min-h-screen items-center justify-center overflow-hidden bg-background snap-start">
+      <div className="flex flex-col items-center gap-12 px-6 py-24 text-center w-full max-w-3xl mx-auto">
+        <motion.h2
+          className="text-script text-4xl sm:text-5xl"
+          initial={{ opacity: 0, y: 20 }}
+          whileInView={{ opacity: 1, y: 0 }}
+          viewport={{ once: true, margin: "-100px" }}
+          transition={{ duration: 0.8, ease: "easeOut" }}
+          {...seen("guestbook")}
+        >
+          {messages.title}
+        </motion.h2>
+
+        <p className="text-serif-light text-sm sm:text-base tracking-[0.1em] font-normal leading-relaxed opacity-80 max-w-xl">
+          {messages.intro}
+        </p>
+
+        {sent ? (
+          <motion.div
+            role="status"
+            className="flex flex-col items-center gap-4 w-full bg-white/40 rounded-2xl border border-primary/10 px-6 py-8"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6, ease: "easeOut" }}
+          >
+            <SmallRoseIcon size={22} />
+            <p className="text-serif-light text-sm tracking-[0.1em] font-normal">
+              {messages.sent}
+            </p>
+            <button type="button" onClick={() => setSent(false)} className={pageButtonClass}>
+              {messages.another}
+            </button>
+          </motion.div>
+        ) : (
+          <motion.form
+            onSubmit={(e) => {
+              e.preventDefault();
+              submit(new FormData(e.currentTarget));
+            }}
+            className="flex flex-col gap-4 w-full bg-white/40 rounded-2xl border border-primary/10 px-6 py-8"
+            initial={{ opacity: 0, y: 30 }}
+            whileInView={{ opacity: 1, y: 0 }}
+            viewport={{ once: true, margin: "-100px" }}
+            transition={{ duration: 0.8, ease: "easeOut" }}
+          >
+            <input type="hidden" name="wedding" value={slug} />
+            {invite && <input type="hidden" name="invite" value={invite} />}
+            {/* Left empty by people; see submitWish */}
+            <input
+              type="text"
+              name="website"
+              tabIndex={-1}
+              autoComplete="off"
+              aria-hidden
+              className="hidden"
+            />
+            <input
+              type="text"
+              name="name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={MAX_WISH_NAME}
+              required
+              placeholder={messages.name}
+              aria-label={messages.name}
+              aria-invalid={error === "name"}
+              aria-describedby={error ? `${fieldId}-error` : undefined}
+              className={fieldClass}
+            />
+            <textarea
+              name="text"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              maxLength={MAX_WISH_TEXT}
+              required
+              rows={4}
+              placeholder={messages.text}
+              aria-label={messages.text}
+              aria-invalid={error === "text" || error === "links" || error === "language"}
+              aria-describedby={error ? `${fieldId}-error` : undefined}
+              className={`${fieldClass} resize-none`}
+            />
+            {error && (
+              <p
+                id={`${fieldId}-error`}
+                role="alert"
+                className="text-serif-light text-xs tracking-[0.15em] font-normal !text-highlight"
+              >
+                {messages.errors[error]}
+              </p>
+            )}
+            <button
+              type="submit"
+              disabled={pending}
+              className="bg-primary rounded-xl px-6 py-3 text-serif-light text-xs tracking-[0.3em] !text-background hover:bg-primary-hover transition-colors cursor-pointer disabled:opacity-60 disabled:cursor-wait"
+            >
+              {pending ? messages.sending : messages.submit}
+            </button>
+          </motion.form>
+        )}
+
+        {listing && listing.wishes.length === 0 && (
+          <p className="text-serif-light text-sm tracking-[0.1em] font-normal opacity-60">
+            {messages.empty}
+          </p>
+        )}
+
+        {listing && listing.wishes.length > 0 && (
+          <div className="flex flex-col items-center gap-8 w-full">
+            <ul className="grid sm:grid-cols-2 gap-8 w-full pt-3">
+              <AnimatePresence mode="popLayout">
+                {listing.wishes.map((wish, i) => (
+                  <WishCard key={wish.id} wish={wish} index={i} />
+                ))}
+              </AnimatePresence>
+            </ul>
+            {listing.pages > 1 && (
+              <nav className="flex items-center gap-4">
+                <button
+                  type="button"
+                  disabled={listing.page <= 1}
+                  onClick={() => setPage(listing.page - 1)}
+                  className={pageButtonClass}
+                >
+                  {messages.previous}
+                </button>
+                <span className="text-serif-light text-xs tracking-[0.2em] font-normal opacity-70">
+                  {format(messages.page, { page: listing.page, pages: listing.pages })}
+                </span>
+                <button
+                  type="button"
+                  disabled={listing.page >= listing.pages}
+                  onClick={() => setPage(listing.page + 1)}
+                  className={pageButtonClass}
+                >
+                  {messages.next}
+                </button>
+              </nav>
+            )}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
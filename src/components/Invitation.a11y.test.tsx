@@ -0,0 +1,124 @@
+// @vitest-environment jsdom
+import axe from "axe-core";
+import { act } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { guestsOf, weddings } from "@/config";
+import { LOCALES } from "@/i18n/config";
+import { publicConfig } from "@/lib/wedding";
+import { Invitation } from "./Invitation";
+
+/* ================================================================
+   Automated accessibility checks of the invitation page with axe
+
+   The page is rendered in jsdom for each wedding and language, as
+   a visitor and through a personal link, and checked again with
+   the RSVP details opened. Color contrast is left out: jsdom does
+   not lay out or paint, so axe can't measure it.
+   ================================================================ */
+
+vi.mock("@/app/actions", () => ({
+  submitRsvp: vi.fn(),
+  submitWish: vi.fn(),
+  suggestSong: vi.fn(),
+  voteSong: vi.fn(),
+  reserveGift: vi.fn(),
+}));
+
+/* Outside the app router there is no current path to read */
+vi.mock("next/navigation", () => ({ usePathname: () => "/ro/wedding" }));
+
+/* What jsdom lacks and the page asks for */
+beforeAll(() => {
+  class IntersectionObserverStub {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+    takeRecords() {
+      return [];
+    }
+  }
+  vi.stubGlobal("IntersectionObserver", IntersectionObserverStub);
+  vi.stubGlobal("ResizeObserver", IntersectionObserverStub);
+  vi.stubGlobal(
+    "matchMedia",
+    (query: string) =>
+      ({
+        matches: false,
+        media: query,
+        addEventListener() {},
+        removeEventListener() {},
+        addListener() {},
+        removeListener() {},
+      }) as unknown as MediaQueryList
+  );
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () => new Response("Not found", { status: 404 }))
+  );
+  Element.prototype.scrollIntoView = () => {};
+  (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+});
+
+let root: Root | undefined;
+
+afterEach(() => {
+  act(() => root?.unmount());
+  root = undefined;
+  document.body.innerHTML = "";
+});
+
+async function render(node: React.ReactNode) {
+  const container = document.body.appendChild(document.createElement("div"));
+  root = createRoot(container);
+  await act(async () => root!.render(node));
+  return container;
+}
+
+async function violations() {
+  const results = await axe.run(document.body, {
+    rules: { "color-contrast": { enabled: false } },
+  });
+  return results.violations.map(
+    (v) => `${v.id}: ${v.help}\n  ${v.nodes.map((n) => n.target.join(" ")).join("\n  ")}`
+  );
+}
+
+/* A whole page and a full axe run take a few seconds each */
+vi.setConfig({ testTimeout: 30_000 });
+
+describe.each(weddings.map((w) => [w.slug, w] as const))("%s", (_slug, wedding) => {
+  const config = publicConfig(wedding);
+
+  it.each(LOCALES)("has no axe violations in %s", async (locale) => {
+    await render(<Invitation config={config} locale={locale} />);
+    expect(await violations()).toEqual([]);
+  });
+
+  const guest = guestsOf(wedding.slug)[0];
+
+  it.skipIf(!guest)("has no axe violations on a personal link", async () => {
+    await render(<Invitation config={config} guest={guest} locale={guest.language} />);
+    expect(await violations()).toEqual([]);
+  });
+
+  it("has no axe violations with the RSVP details open", async () => {
+    const page = await render(<Invitation config={config} locale="ro" />);
+    const yes = page.querySelector<HTMLInputElement>('input[name="attendance"][value="yes"]');
+    expect(yes).not.toBeNull();
+    await act(async () => yes!.click());
+    expect(page.querySelector('[name="people.0.name"]')).not.toBeNull();
+    expect(await violations()).toEqual([]);
+  });
+
+  it("announces RSVP errors and marks the fields", async () => {
+    const page = await render(<Invitation config={config} locale="ro" />);
+    const form = page.querySelector<HTMLFormElement>('input[name="attendance"]')!.form!;
+    await act(async () => {
+      form.dispatchEvent(new Event("submit", { bubbles: true, cancelable: true }));
+    });
+    expect(page.querySelectorAll('[role="alert"]').length).toBeGreaterThan(0);
+    expect(page.querySelector("[aria-invalid=true]")).not.toBeNull();
+    expect(await violations()).toEqual([]);
+  });
+});
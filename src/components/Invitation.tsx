@@ -0,0 +1,837 @@
+"use client";
+
+import { useActionState, useEffect, useId, useRef, useState } from "react";
+import { AnimatePresence, MotionConfig, motion, useReducedMotion } from "framer-motion";
+import { submitRsvp } from "@/app/actions";
+import { AnalyticsConsent, AnalyticsProvider, useAnalytics } from "./Analytics";
+import { Countdown } from "./Countdown";
+import { FlowerProvider } from "./Flower";
+import { Gifts } from "./Gifts";
+import { Guestbook } from "./Guestbook";
+import { LanguageSwitcher } from "./LanguageSwitcher";
+import { RsvpDetails, type Needs, type PersonDraft } from "./RsvpDetails";
+import { ServiceWorker } from "./ServiceWorker";
+import { SongRequests } from "./SongRequests";
+import { DeepLinks, VenueMap } from "./map/VenueMap";
+import type { Venue } from "./map/types";
+import { RoseCluster, RoseDivider, RoseDividerLight, SmallRoseIcon } from "./Roses";
+import { Story } from "./Story";
+import { Timeline } from "./Timeline";
+import { YourTable } from "./YourTable";
+import { format, getMessages, plural, type Locale } from "@/i18n";
+import type { GalleryPhoto } from "@/lib/gallery";
+import type { Guest } from "@/lib/guests";
+import { isNetworkError, useOutbox } from "@/lib/offline";
+import { MAX_SONG_FIELD, storedDevice } from "@/lib/songs";
+import { resolveTheme, themeStyle } from "@/lib/themes";
+import {
+  MAX_GUESTS,
+  MIN_GUESTS,
+  parseRsvp,
+  type Attendance,
+  type RsvpErrorCode,
+  type RsvpErrors,
+  type RsvpField,
+  type RsvpResult,
+} from "@/lib/rsvp";
+import {
+  coupleNames,
+  eventLabel,
+  formatDate,
+  formatTime,
+  mainVenue,
+  weddingTimes,
+  type PublicWeddingConfig,
+} from "@/lib/wedding";
+
+/* ================================================================
+   Bold name list — "A și B" / "A, B și C"
+   ================================================================ */
+
+function NameList({ names, and }: { names: string[]; and: string }) {
+  return names.map((name, i) => (
+    <span key={name}>
+      {i > 0 && (i === names.length - 1 ? ` ${and} ` : ", ")}
+      <span className="font-bold">{name}</span>
+    </span>
+  ));
+}
+
+/* ================================================================
+   Inline form error, shown under the field it belongs to
+   ================================================================ */
+
+function FieldError({ id, message }: { id: string; message?: string }) {
+  if (!message) return null;
+  return (
+    <p
+      id={id}
+      role="alert"
+      className="text-serif-light text-xs tracking-[0.15em] font-normal !text-accent"
+    >
+      {message}
+    </p>
+  );
+}
+
+/* ================================================================
+   Invitation — the full snap-scrolling page for one wedding
+   ================================================================ */
+
+const RSVP_IDLE: RsvpResult = { status: "idle" };
+
+export function Invitation({
+  config,
+  guest,
+  gallery = [],
+  locale,
+}: {
+  config: PublicWeddingConfig;
+  /* Set when opened through a personal invitation link */
+  guest?: Guest;
+  gallery?: GalleryPhoto[];
+  locale: Locale;
+}) {
+  const m = getMessages(locale);
+  const basePath = `/${locale}/${config.slug}`;
+  const maxGuests = guest ? Math.min(guest.maxSeats, MAX_GUESTS) : MAX_GUESTS;
+  const [guests, setGuests] = useState(Math.min(2, maxGuests));
+  const [name, setName] = useState(guest?.displayName ?? "");
+  const [email, setEmail] = useState(guest?.email ?? "");
+  const [attendance, setAttendance] = useState<Attendance | "">("");
+  const [notes, setNotes] = useState("");
+  const [people, setPeople] = useState<PersonDraft[]>([]);
+  const [needs, setNeeds] = useState<Needs>({ accommodation: false, transport: false });
+  const [focusedVenue, setFocusedVenue] = useState<string | null>(null);
+  const analytics = useAnalytics(config.slug, guest?.token);
+  const venues: Venue[] = config.events.map((event) => ({
+    key: event.kind,
+    label: eventLabel(event, locale, m.events),
+    name: event.venue,
+    address: event.address,
+    coordinates: event.coordinates,
+  }));
+  /* Answers given without signal wait in the outbox; the one sent
+     later replaces whatever the form last showed */
+  const [sent, setSent] = useState<RsvpResult | null>(null);
+  const outbox = useOutbox("rsvp", async (data) => setSent(await submitRsvp(RSVP_IDLE, data)));
+  const [submitted, rsvpAction, rsvpPending] = useActionState(
+    async (prev: RsvpResult, data: FormData): Promise<RsvpResult> => {
+      setSent(null);
+      /* Counts a song asked for here as this browser's vote */
+      const device = storedDevice();
+      if (!guest && device) data.set("device", device);
+      try {
+        if (!navigator.onLine) throw new TypeError("Offline");
+        const result = await submitRsvp(prev, data);
+        if (result.status === "success") analytics.track("rsvp-submit");
+        return result;
+      } catch (err) {
+        if (!isNetworkError(err)) {
+          console.error("RSVP failed", err);
+          return { status: "failed" };
+        }
+        await outbox.enqueue(config.slug, data);
+        analytics.track("rsvp-submit");
+        return prev;
+      }
+    },
+    RSVP_IDLE
+  );
+  const rsvp = sent ?? submitted;
+  const rsvpQueued = outbox.queued.includes(config.slug) && rsvp.status !== "success";
+  /* Checked in the browser first with the same parser the server uses */
+  const [clientErrors, setClientErrors] = useState<RsvpErrors | null>(null);
+  const rsvpErrors = clientErrors ?? (rsvp.status === "error" ? rsvp.errors : {});
+  const errorMessage = (code?: RsvpErrorCode) =>
+    code && format(m.rsvp.errors[code], { min: MIN_GUESTS, max: maxGuests });
+  const errorText = (field: RsvpField) => errorMessage(rsvpErrors[field]);
+  /* Ids tying labels and error messages to their fields */
+  const fieldId = `rsvp-${useId()}`;
+  const invalid = (field: RsvpField) => ({
+    "aria-invalid": !!rsvpErrors[field],
+    "aria-describedby": rsvpErrors[field] ? `${fieldId}-${field}-error` : undefined,
+  });
+
+  /* Move focus to the first field that needs fixing; radio groups
+     are flagged on their fieldset, which points at the message */
+  const formRef = useRef<HTMLFormElement>(null);
+  useEffect(() => {
+    formRef.current
+      ?.querySelector<HTMLElement>("[aria-invalid=true], fieldset[aria-describedby] input")
+      ?.focus();
+  }, [clientErrors, rsvp]);
+
+  /* With prefers-reduced-motion, everything appears in its final state */
+  const reduceMotion = useReducedMotion() ?? false;
+
+  return (
+    <FlowerProvider flower={config.flower}>
+      <MotionConfig reducedMotion="user" skipAnimations={reduceMotion}>
+        <AnalyticsProvider value={analytics}>
+          <main
+            className="snap-y snap-mandatory h-screen overflow-y-auto"
+            style={themeStyle(resolveTheme(config.theme))}
+          >
+            {/* ═══════════════════════════════════════════════════════════
+               SECTION 1 — HERO
+               ═══════════════════════════════════════════════════════════ */}
+            <section className="flower-bg flex min-h-screen items-center justify-center overflow-hidden snap-start">
+              <div className="flower-vignette" />
+
+              <div className="absolute top-6 right-6 z-20">
+                <LanguageSwitcher locale={locale} label={m.hero.languageSwitcher} />
+              </div>
+
+              <div className="relative z-10 flex flex-col items-center gap-5 px-6 py-20 text-center w-full">
+                {/* Screen readers get the names as text, not the drawn outline */}
+                <h1 className="sr-only">{coupleNames(config)}</h1>
+
+                {/* ── Name row: roses + title + roses ── */}
+                <div className="flex items-center justify-center gap-2 sm:gap-4 w-full max-w-5xl">
+                  <div className="hidden sm:block shrink-0">
+                    <RoseCluster />
+                  </div>
+
+                  <svg className="flex-1 max-w-3xl min-w-0" viewBox="0 0 1000 200" aria-hidden>
+                    <defs>
+                      <filter id="glow" x="-20%" y="-40%" width="140%" height="180%">
+                        <feGaussianBlur in="SourceGraphic" stdDeviation="30" />
+                      </filter>
+                    </defs>
+                    <rect
+                      x="100" y="20" width="800" height="170" rx="50"
+                      className="fill-background" opacity="0.55" filter="url(#glow)"
+                    />
+                    <motion.text
+                      x="500" y="140" textAnchor="middle"
+                      style={{
+                        fontFamily: "var(--font-script), cursive",
+                        fontSize: "120px",
+                        fill: "var(--primary)",
+                        stroke: "var(--primary)",
+                        strokeWidth: 1.5,
+                        strokeDasharray: 3000,
+                      }}
+                      initial={{ strokeDashoffset: 3000, fillOpacity: 0 }}
+                      animate={{ strokeDashoffset: 0, fillOpacity: 1 }}
+                      transition={{
+                        strokeDashoffset: { duration: 2, ease: [0.25, 0.1, 0.25, 1], delay: 0.3 },
+                        fillOpacity: { duration: 0.8, ease: "easeIn", delay: 1.8 },
+                      }}
+                    >
+                      {coupleNames(config)}
+                    </motion.text>
+                  </svg>
+
+                  <div className="hidden sm:block shrink-0">
+                    <RoseCluster mirror />
+                  </div>
+                </div>
+
+                <motion.div
+                  className="flex items-center gap-3"
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  transition={{ duration: 0.8, delay: 2.3 }}
+                >
+                  <div className="w-12 h-px bg-primary opacity-25" />
+                  <SmallRoseIcon size={20} />
+                  <div className="w-12 h-px bg-primary opacity-25" />
+                </motion.div>
+
+                <motion.p
+                  className="text-serif-light text-base sm:text-lg md:text-xl"
+                  initial={{ opacity: 0, y: 8 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.8, ease: "easeOut", delay: 2.5 }}
+                >
+                  {mainVenue(config)}
+                </motion.p>
+
+                <motion.div
+                  className="flex items-center gap-3"
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  transition={{ duration: 0.8, delay: 2.8 }}
+                >
+                  <div className="w-8 h-px bg-primary opacity-20" />
+                  <SmallRoseIcon size={14} />
+                  <div className="w-8 h-px bg-primary opacity-20" />
+                </motion.div>
+
+                <motion.p
+                  className="text-serif-light text-xl sm:text-2xl md:text-3xl"
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  transition={{ duration: 1, ease: "easeIn", delay: 3.0 }}
+                >
+                  {formatDate(config.date, config.timeZone, locale)}
+                </motion.p>
+
+                <Countdown
+                  {...weddingTimes(config)}
+                  locale={locale}
+                  messages={m.countdown}
+                  delay={3.4}
+                />
+
+                {guest && (
+                  <YourTable
+                    slug={config.slug}
+                    token={guest.token}
+                    dayStart={weddingTimes(config).dayStart}
+                    end={weddingTimes(config).end}
+                    label={m.invitation.table}
+                  />
+                )}
+              </div>
+            </section>
+
+            {/* ═══════════════════════════════════════════════════════════
+               SECTION 2 — INVITATION
+               ═══════════════════════════════════════════════════════════ */}
+            <section className="flex min-h-screen items-center justify-center overflow-hidden bg-background snap-start">
+              <div className="relative z-10 flex flex-col items-center gap-12 px-6 py-24 text-center w-full max-w-3xl mx-auto">
+                <motion.div
+                  className="flex flex-col items-center gap-10 w-full"
+                  initial={{ opacity: 0, y: 30 }}
+                  whileInView={{ opacity: 1, y: 0 }}
+                  viewport={{ once: true, margin: "-100px" }}
+                  transition={{ duration: 1, ease: "easeOut" }}
+                  {...analytics.seen("invitation")}
+                >
+                  {guest && (
+                    <div className="flex flex-col items-center gap-3">
+                      <span className="text-serif-light text-xs tracking-[0.3em] opacity-70">
+                        {m.invitation.for}
+                      </span>
+                      <p className="text-script text-4xl sm:text-5xl">
+                        {guest.displayName}
+                      </p>
+                    </div>
+                  )}
+
+                  <p className="text-serif-light text-lg sm:text-xl md:text-2xl tracking-[0.15em] leading-loose max-w-2xl font-normal">
+                    {m.invitation.before}{" "}
+                    <NameList names={config.family.parents} and={m.invitation.and} />,{" "}
+                    {m.invitation.godparents}{" "}
+                    <NameList names={config.family.godparents} and={m.invitation.and} />,{" "}
+                    {m.invitation.after}
+                  </p>
+
+                  <RoseDivider />
+                </motion.div>
+              </div>
+            </section>
+
+            {/* ═══════════════════════════════════════════════════════════
+               SECTION 3 — OUR STORY (only when there is one to tell)
+               ═══════════════════════════════════════════════════════════ */}
+            {((config.story ?? []).length > 0 || gallery.length > 0) && (
+              <Story
+                story={config.story ?? []}
+                gallery={gallery}
+                locale={locale}
+                messages={m.story}
+              />
+            )}
+
+            {/* ═══════════════════════════════════════════════════════════
+               SECTION 4 — LOCATIONS
+               ═══════════════════════════════════════════════════════════ */}
+            <section className="flower-bg-dark relative flex min-h-screen items-center justify-center overflow-hidden snap-start">
+              <div className="relative z-10 flex flex-col items-center gap-16 px-6 py-24 text-center w-full max-w-5xl mx-auto">
+                <motion.h2
+                  className="text-script text-4xl sm:text-5xl !text-white"
+                  initial={{ opacity: 0, y: 20 }}
+                  whileInView={{ opacity: 1, y: 0 }}
+                  viewport={{ once: true, margin: "-100px" }}
+                  transition={{ duration: 0.8, ease: "easeOut" }}
+                  {...analytics.seen("locations")}
+                >
+                  {m.locations.title}
+                </motion.h2>
+
+                <motion.div
+                  className="flex flex-col md:flex-row items-stretch justify-center gap-8 w-full"
+                  initial={{ opacity: 0, y: 30 }}
+                  whileInView={{ opacity: 1, y: 0 }}
+                  viewport={{ once: true, margin: "-100px" }}
+                  transition={{ duration: 1, ease: "easeOut", delay: 0.2 }}
+                >
+                  {config.events.map((event, i) => (
+                    <div
+                      key={event.kind}
+                      className={`flex-1 flex flex-col items-center gap-3 bg-accent/10 backdrop-blur-sm rounded-2xl px-6 py-8 border transition-colors ${
+                        focusedVenue === event.kind ? "border-accent/70" : "border-accent/20"
+                      }`}
+                    >
+                      <span className="text-serif-light text-xs tracking-[0.3em] !text-white/70">
+                        {venues[i].label}
+                      </span>
+                      <p className="text-script text-xl sm:text-2xl !text-white">
+                        {event.venue}
+                      </p>
+                      <p className="text-serif-light text-sm tracking-[0.15em] font-normal !text-white/50">
+                        {event.address}
+                      </p>
+                      <p className="text-serif-light text-sm tracking-[0.15em] font-normal !text-white">
+                        {format(m.locations.time, { time: formatTime(event.time, locale) })}
+                      </p>
+                      <SmallRoseIcon size={14} />
+                      <DeepLinks
+                        venue={venues[i]}
+                        label={m.locations.openIn}
+                        className="font-normal !text-white/70"
+                      />
+                      <div className="mt-auto flex flex-wrap justify-center gap-2">
+                        <button
+                          type="button"
+                          onClick={() => setFocusedVenue(event.kind)}
+                          aria-pressed={focusedVenue === event.kind}
+                          className="text-serif-light text-xs tracking-[0.2em] font-normal !text-white/70 border border-accent/30 rounded-xl px-4 py-2 hover:bg-accent/20 hover:!text-white transition-colors cursor-pointer"
+                        >
+                          {m.locations.viewOnMap}
+                        </button>
+                        <a
+                          href={`${basePath}/calendar/${event.kind}.ics`}
+                          download
+                          className="text-serif-light text-xs tracking-[0.2em] font-normal !text-white/70 border border-accent/30 rounded-xl px-4 py-2 hover:bg-accent/20 hover:!text-white transition-colors"
+                        >
+                          {m.calendar.add}
+                        </a>
+                      </div>
+                    </div>
+                  ))}
+                </motion.div>
+
+                {/* Map of all venues */}
+                <motion.div
+                  className="w-full rounded-2xl overflow-hidden border border-accent/20 shadow-lg"
+                  initial={{ opacity: 0, y: 30 }}
+                  whileInView={{ opacity: 1, y: 0 }}
+                  viewport={{ once: true, margin: "-100px" }}
+                  transition={{ duration: 1, ease: "easeOut", delay: 0.4 }}
+                >
+                  <VenueMap
+                    provider={config.map.provider}
+                    venues={venues}
+                    focused={focusedVenue}
+                    onFocus={setFocusedVenue}
+                    focusZoom={config.map.zoom}
+                    locale={locale}
+                    title={m.locations.mapTitle}
+                    openIn={m.locations.openIn}
+                    messages={m.map}
+                  />
+                </motion.div>
+              </div>
+            </section>
+
+            {/* ═══════════════════════════════════════════════════════════
+               SECTION 5 — TIMELINE
+               ═══════════════════════════════════════════════════════════ */}
+            <section className="flex min-h-screen items-center justify-center overflow-hidden bg-background snap-start">
+              <div className="flex flex-col items-center gap-16 px-6 py-24 text-center w-full max-w-3xl mx-auto">
+                <motion.h2
+                  className="text-script text-4xl sm:text-5xl"
+                  initial={{ opacity: 0, y: 20 }}
+                  whileInView={{ opacity: 1, y: 0 }}
+                  viewport={{ once: true, margin: "-100px" }}
+                  transition={{ duration: 0.8, ease: "easeOut" }}
+                  {...analytics.seen("schedule")}
+                >
+                  {m.schedule.title}
+                </motion.h2>
+
+                <Timeline config={config} locale={locale} messages={m.schedule} />
+
+                <motion.a
+                  href={`${basePath}/calendar.ics`}
+                  download
+                  className="flex items-center gap-3 border border-primary/25 rounded-xl px-6 py-3 text-serif-light text-xs tracking-[0.3em] hover:bg-accent/20 transition-colors"
+                  initial={{ opacity: 0, y: 20 }}
+                  whileInView={{ opacity: 1, y: 0 }}
+                  viewport={{ once: true, margin: "-100px" }}
+                  transition={{ duration: 0.8, ease: "easeOut", delay: 0.4 }}
+                >
+                  <SmallRoseIcon size={14} />
+                  {m.calendar.addDay}
+                </motion.a>
+              </div>
+            </section>
+
+            {/* ═══════════════════════════════════════════════════════════
+               SECTION 6 — RSVP
+               ═══════════════════════════════════════════════════════════ */}
+            <section className="flower-bg-dark relative flex min-h-screen items-center justify-center overflow-hidden snap-start">
+              <div className="relative z-10 flex flex-col items-center gap-12 px-6 py-24 text-center w-full max-w-2xl mx-auto">
+                <motion.h2
+                  id={`${fieldId}-title`}
+                  className="text-script text-4xl sm:text-5xl !text-white"
+                  initial={{ opacity: 0, y: 20 }}
+                  whileInView={{ opacity: 1, y: 0 }}
+                  viewport={{ once: true, margin: "-100px" }}
+                  transition={{ duration: 0.8, ease: "easeOut" }}
+                  {...analytics.seen("rsvp")}
+                >
+                  {m.rsvp.title}
+                </motion.h2>
+
+                <motion.p
+                  className="text-serif-light text-sm sm:text-base tracking-[0.15em] font-normal leading-relaxed max-w-lg !text-white/70"
+                  initial={{ opacity: 0, y: 20 }}
+                  whileInView={{ opacity: 1, y: 0 }}
+                  viewport={{ once: true, margin: "-100px" }}
+                  transition={{ duration: 0.8, ease: "easeOut", delay: 0.1 }}
+                >
+                  {format(m.rsvp.deadline, {
+                    date: formatDate(config.rsvp.deadline, config.timeZone, locale),
+                  })}
+                </motion.p>
+
+                {rsvpQueued ? (
+                  <motion.div
+                    role="status"
+                    className="flex flex-col items-center gap-4 w-full bg-accent/10 backdrop-blur-sm rounded-2xl px-6 py-10 border border-accent/20"
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ duration: 0.8, ease: "easeOut" }}
+                  >
+                    <SmallRoseIcon size={24} />
+                    <p className="text-serif-light text-sm tracking-[0.15em] font-normal leading-relaxed !text-white/80">
+                      {m.rsvp.queued}
+                    </p>
+                  </motion.div>
+                ) : rsvp.status === "success" ? (
+                  <motion.div
+                    role="status"
+                    className="flex flex-col items-center gap-4 w-full bg-accent/10 backdrop-blur-sm rounded-2xl px-6 py-10 border border-accent/20"
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ duration: 0.8, ease: "easeOut" }}
+                  >
+                    <SmallRoseIcon size={24} />
+                    <p className="text-script text-2xl sm:text-3xl !text-white">
+                      {format(m.rsvp.thanks, { name: rsvp.rsvp.name })}
+                    </p>
+                    <p className="text-serif-light text-sm tracking-[0.15em] font-normal leading-relaxed !text-white/70">
+                      {rsvp.rsvp.attendance === "yes"
+                        ? plural(locale, rsvp.rsvp.guests, m.rsvp.confirmed)
+                        : m.rsvp.declined}
+                    </p>
+                  </motion.div>
+                ) : (
+                  <motion.form
+                    ref={formRef}
+                    aria-labelledby={`${fieldId}-title`}
+                    className="flex flex-col gap-6 w-full"
+                    initial={{ opacity: 0, y: 30 }}
+                    whileInView={{ opacity: 1, y: 0 }}
+                    viewport={{ once: true, margin: "-100px" }}
+                    transition={{ duration: 1, ease: "easeOut", delay: 0.2 }}
+                    action={rsvpAction}
+                    onFocus={() => analytics.track("rsvp-start")}
+                    onSubmit={(e) => {
+                      const parsed = parseRsvp(new FormData(e.currentTarget), maxGuests);
+                      setClientErrors(parsed.ok ? null : parsed.errors);
+                      if (!parsed.ok) e.preventDefault();
+                    }}
+                  >
+                    <input type="hidden" name="wedding" value={config.slug} />
+                    <input type="hidden" name="locale" value={locale} />
+                    {guest && <input type="hidden" name="invite" value={guest.token} />}
+
+                    {/* Nume */}
+                    <div className="flex flex-col gap-2 text-left">
+                      <label
+                        htmlFor={`${fieldId}-name`}
+                        className="text-serif-light text-xs tracking-[0.3em] !text-white/70"
+                      >
+                        {m.rsvp.name}
+                      </label>
+                      <input
+                        id={`${fieldId}-name`}
+                        type="text"
+                        name="name"
+                        autoComplete="name"
+                        required
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        readOnly={!!guest}
+                        placeholder={m.rsvp.namePlaceholder}
+                        {...invalid("name")}
+                        className="w-full bg-accent/10 backdrop-blur-sm border border-accent/20 rounded-xl px-4 py-3 text-serif-light text-sm tracking-[0.1em] font-normal text-white placeholder:text-white/30 outline-none focus:border-accent/50 aria-[invalid=true]:border-accent/70 read-only:opacity-70 read-only:cursor-default transition-colors"
+                      />
+                      <FieldError id={`${fieldId}-name-error`} message={errorText("name")} />
+                    </div>
+
+                    {/* Email */}
+                    <div className="flex flex-col gap-2 text-left">
+                      <label
+                        htmlFor={`${fieldId}-email`}
+                        className="text-serif-light text-xs tracking-[0.3em] !text-white/70"
+                      >
+                        {m.rsvp.email}
+                      </label>
+                      <input
+                        id={`${fieldId}-email`}
+                        type="email"
+                        name="email"
+                        autoComplete="email"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        placeholder={m.rsvp.emailPlaceholder}
+                        {...invalid("email")}
+                        className="w-full bg-accent/10 backdrop-blur-sm border border-accent/20 rounded-xl px-4 py-3 text-serif-light text-sm tracking-[0.1em] font-normal text-white placeholder:text-white/30 outline-none focus:border-accent/50 aria-[invalid=true]:border-accent/70 transition-colors"
+                      />
+                      <FieldError id={`${fieldId}-email-error`} message={errorText("email")} />
+                    </div>
+
+                    {/* Număr persoane */}
+                    <div
+                      role="group"
+                      aria-labelledby={`${fieldId}-guests`}
+                      aria-describedby={invalid("guests")["aria-describedby"]}
+                      className="flex flex-col gap-2 text-left"
+                    >
+                      <span
+                        id={`${fieldId}-guests`}
+                        className="text-serif-light text-xs tracking-[0.3em] !text-white/70"
+                      >
+                        {m.rsvp.guests}
+                      </span>
+                      <div className="flex items-center gap-4">
+                        <button
+                          type="button"
+                          onClick={() => setGuests((g) => Math.max(MIN_GUESTS, g - 1))}
+                          disabled={guests <= MIN_GUESTS}
+                          aria-label={m.rsvp.fewerGuests}
+                          className="w-12 h-12 flex items-center justify-center bg-accent/10 backdrop-blur-sm border border-accent/20 rounded-xl text-white text-xl hover:bg-accent/20 transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-default"
+                        >
+                          <span aria-hidden>&minus;</span>
+                        </button>
+                        <output
+                          aria-live="polite"
+                          className="text-serif-light text-2xl !text-white font-bold min-w-[3ch] text-center"
+                        >
+                          {guests}
+                        </output>
+                        <button
+                          type="button"
+                          onClick={() => setGuests((g) => Math.min(maxGuests, g + 1))}
+                          disabled={guests >= maxGuests}
+                          aria-label={m.rsvp.moreGuests}
+                          className="w-12 h-12 flex items-center justify-center bg-accent/10 backdrop-blur-sm border border-accent/20 rounded-xl text-white text-xl hover:bg-accent/20 transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-default"
+                        >
+                          <span aria-hidden>+</span>
+                        </button>
+                        <input type="hidden" name="guests" value={guests} />
+                      </div>
+                      <FieldError id={`${fieldId}-guests-error`} message={errorText("guests")} />
+                    </div>
+
+                    {/* Participare */}
+                    <fieldset
+                      aria-describedby={invalid("attendance")["aria-describedby"]}
+                      className="flex flex-col gap-2 text-left border-0 p-0 m-0 min-w-0"
+                    >
+                      <legend className="mb-2 text-serif-light text-xs tracking-[0.3em] !text-white/70">
+                        {m.rsvp.attendance}
+                      </legend>
+                      <div className="flex gap-4">
+                        <label className="flex-1 flex items-center justify-center gap-2 bg-accent/10 backdrop-blur-sm border border-accent/20 rounded-xl px-4 py-3 cursor-pointer has-[:checked]:border-accent/60 has-[:checked]:bg-accent/20 transition-colors">
+                          <input
+                            type="radio"
+                            name="attendance"
+                            value="yes"
+                            required
+                            checked={attendance === "yes"}
+                            onChange={() => setAttendance("yes")}
+                            className="accent-accent"
+                          />
+                          <span className="text-serif-light text-sm tracking-[0.1em] font-normal !text-white">
+                            {m.rsvp.attendanceYes}
+                          </span>
+                        </label>
+                        <label className="flex-1 flex items-center justify-center gap-2 bg-accent/10 backdrop-blur-sm border border-accent/20 rounded-xl px-4 py-3 cursor-pointer has-[:checked]:border-accent/60 has-[:checked]:bg-accent/20 transition-colors">
+                          <input
+                            type="radio"
+                            name="attendance"
+                            value="no"
+                            checked={attendance === "no"}
+                            onChange={() => setAttendance("no")}
+                            className="accent-accent"
+                          />
+                          <span className="text-serif-light text-sm tracking-[0.1em] font-normal !text-white">
+                            {m.rsvp.attendanceNo}
+                          </span>
+                        </label>
+                      </div>
+                      <FieldError
+                        id={`${fieldId}-attendance-error`}
+                        message={errorText("attendance")}
+                      />
+                    </fieldset>
+
+                    {/* Detalii per persoană */}
+                    <AnimatePresence initial={false}>
+                      {attendance !== "no" && (
+                        <motion.div
+                          key="details"
+                          className="overflow-hidden"
+                          initial={{ opacity: 0, height: 0 }}
+                          animate={{ opacity: 1, height: "auto" }}
+                          exit={{ opacity: 0, height: 0 }}
+                          transition={{ duration: 0.4, ease: "easeOut" }}
+                        >
+                          <RsvpDetails
+                            count={guests}
+                            people={people}
+                            onPeopleChange={setPeople}
+                            firstName={guest ? "" : name}
+                            needs={needs}
+                            onNeedsChange={setNeeds}
+                            errors={rsvpErrors.people}
+                            errorMessage={errorMessage}
+                            messages={m.rsvp}
+                          />
+                          <fieldset className="flex flex-col gap-2 text-left pt-6">
+                            <legend className="text-serif-light text-xs tracking-[0.3em] !text-white/70 pb-2">
+                              {m.rsvp.song}
+                            </legend>
+                            <div className="flex flex-col sm:flex-row gap-2">
+                              {[
+                                ["songTitle", m.songs.songTitle],
+                                ["songArtist", m.songs.artist],
+                              ].map(([field, label]) => (
+                                <input
+                                  key={field}
+                                  type="text"
+                                  name={field}
+                                  maxLength={MAX_SONG_FIELD}
+                                  placeholder={label}
+                                  aria-label={label}
+                                  className="w-full bg-accent/10 backdrop-blur-sm border border-accent/20 rounded-xl px-4 py-3 text-serif-light text-sm tracking-[0.1em] font-normal text-white placeholder:text-white/30 outline-none focus:border-accent/50 transition-colors"
+                                />
+                              ))}
+                            </div>
+                          </fieldset>
+                        </motion.div>
+                      )}
+                    </AnimatePresence>
+
+                    {/* Mențiuni */}
+                    <div className="flex flex-col gap-2 text-left">
+                      <label
+                        htmlFor={`${fieldId}-notes`}
+                        className="text-serif-light text-xs tracking-[0.3em] !text-white/70"
+                      >
+                        {m.rsvp.notes}
+                      </label>
+                      <textarea
+                        id={`${fieldId}-notes`}
+                        rows={3}
+                        name="notes"
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        placeholder={m.rsvp.notesPlaceholder}
+                        {...invalid("notes")}
+                        className="w-full bg-accent/10 backdrop-blur-sm border border-accent/20 rounded-xl px-4 py-3 text-serif-light text-sm tracking-[0.1em] font-normal text-white placeholder:text-white/30 outline-none focus:border-accent/50 transition-colors resize-none"
+                      />
+                      <FieldError id={`${fieldId}-notes-error`} message={errorText("notes")} />
+                    </div>
+
+                    {/* Separator */}
+                    <RoseDividerLight />
+
+                    {Object.keys(rsvpErrors).length > 0 && (
+                      <p
+                        role="alert"
+                        className="text-serif-light text-xs tracking-[0.15em] font-normal !text-accent"
+                      >
+                        {m.rsvp.errorSummary}
+                      </p>
+                    )}
+                    {!clientErrors && rsvp.status === "failed" && (
+                      <p
+                        role="alert"
+                        className="text-serif-light text-xs tracking-[0.15em] font-normal !text-accent"
+                      >
+                        {m.rsvp.failed}
+                      </p>
+                    )}
+
+                    {/* Submit */}
+                    <button
+                      type="submit"
+                      disabled={rsvpPending}
+                      className="w-full bg-accent text-primary rounded-xl px-6 py-4 text-serif-light text-sm tracking-[0.3em] uppercase hover:bg-accent-hover transition-colors cursor-pointer font-bold disabled:opacity-60 disabled:cursor-wait"
+                    >
+                      {rsvpPending ? m.rsvp.pending : m.rsvp.submit}
+                    </button>
+                  </motion.form>
+                )}
+
+                <a
+                  href={`${basePath}/photos${guest ? `?invite=${guest.token}` : ""}`}
+                  className="flex items-center gap-3 text-serif-light text-xs tracking-[0.3em] !text-white/70 hover:!text-white transition-colors"
+                >
+                  <SmallRoseIcon size={14} />
+                  {m.photos.link}
+                </a>
+              </div>
+            </section>
+
+            {/* ═══════════════════════════════════════════════════════════
+               SECTION 7 — GUESTBOOK
+               ═══════════════════════════════════════════════════════════ */}
+            <Guestbook
+              slug={config.slug}
+              invite={guest?.token}
+              guestName={guest?.displayName}
+              messages={m.guestbook}
+            />
+
+            {/* ═══════════════════════════════════════════════════════════
+               SECTION 8 — SONG REQUESTS
+               ═══════════════════════════════════════════════════════════ */}
+            <SongRequests
+              slug={config.slug}
+              venue={config.events.find((e) => e.kind === "party")?.venue ?? config.city}
+              invite={guest?.token}
+              end={weddingTimes(config).end}
+              locale={locale}
+              messages={m.songs}
+            />
+
+            {/* ═══════════════════════════════════════════════════════════
+               SECTION 9 — GIFTS (only when the couple set them up)
+               ═══════════════════════════════════════════════════════════ */}
+            {config.gifts && (
+              <Gifts
+                slug={config.slug}
+                gifts={config.gifts}
+                names={coupleNames(config)}
+                invite={guest?.token}
+                guestName={guest?.displayName}
+                locale={locale}
+                messages={m.gifts}
+              />
+            )}
+
+            {/* Inside <main> so the banner takes the wedding's theme */}
+            <AnalyticsConsent messages={m.analytics} />
+          </main>
+        </AnalyticsProvider>
+        <ServiceWorker
+          pages={[
+            guest ? `${basePath}/inv/${guest.token}` : basePath,
+            `${basePath}/calendar.ics`,
+          ]}
+        />
+      </MotionConfig>
+    </FlowerProvider>
+  );
+}
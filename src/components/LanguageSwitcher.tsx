@@ -0,0 +1,37 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { LOCALE_NAMES, LOCALES, type Locale } from "@/i18n";
+
+/* "RO · EN" toggle — swaps the locale prefix of the current path */
+export function LanguageSwitcher({
+  locale,
+  label,
+}: {
+  locale: Locale;
+  label: string;
+}) {
+  const pathname = usePathname();
+  const rest = pathname.split("/").slice(2).join("/");
+
+  return (
+    <nav aria-label={label} className="flex items-center gap-2">
+      {LOCALES.map((l, i) => (
+        <span key={l} className="flex items-center gap-2">
+          {i > 0 && <span className="w-1 h-1 rounded-full bg-primary opacity-30" />}
+          <Link
+            href={`/${l}/${rest}`}
+            hrefLang={l}
+            lang={l}
+            title={LOCALE_NAMES[l]}
+            aria-current={l === locale ? "page" : undefined}
+            className="text-serif-light text-xs tracking-[0.3em] opacity-50 hover:opacity-100 aria-[current=page]:opacity-100 transition-opacity"
+          >
+            {l}
+          </Link>
+        </span>
+      ))}
+    </nav>
+  );
+}
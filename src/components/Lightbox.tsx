@@ -0,0 +1,173 @@
+"use client";
+
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import { createPortal } from "react-dom";
+import Image from "next/image";
+import { AnimatePresence, motion, type PanInfo } from "framer-motion";
+import { format, localize, type Locale, type Messages } from "@/i18n";
+import type { GalleryPhoto } from "@/lib/gallery";
+
+/* ================================================================
+   Lightbox — one photo at a time over the whole page
+
+   Rendered into <body> so the snap-scrolling <main> neither
+   clips it nor scrolls underneath it. Arrow keys and horizontal
+   swipes move between photos, Escape closes, and focus stays in
+   the dialog until it closes and returns to the thumbnail.
+   ================================================================ */
+
+/* How far (px) or how fast (px/s) a swipe must go to turn the page */
+const SWIPE_OFFSET = 80;
+const SWIPE_VELOCITY = 500;
+
+/* There is no <body> to portal into before hydration */
+const subscribe = () => () => {};
+const onClient = () => true;
+const onServer = () => false;
+
+const controlClass =
+  "flex items-center justify-center w-12 h-12 rounded-full bg-white/10 text-white text-2xl hover:bg-white/20 transition-colors cursor-pointer";
+
+export function Lightbox({
+  photos,
+  index,
+  onIndexChange,
+  onClose,
+  locale,
+  messages,
+}: {
+  photos: GalleryPhoto[];
+  /* Photo on show, or null when closed */
+  index: number | null;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+  locale: Locale;
+  messages: Messages["story"];
+}) {
+  const hydrated = useSyncExternalStore(subscribe, onClient, onServer);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const open = index !== null;
+
+  const step = (delta: number) => {
+    if (index === null) return;
+    onIndexChange((index + delta + photos.length) % photos.length);
+  };
+
+  /* Focus the dialog on open and give it back to the page on close */
+  useEffect(() => {
+    if (!open) return;
+    const opener = document.activeElement as HTMLElement | null;
+    dialogRef.current?.querySelector<HTMLElement>("button")?.focus();
+    return () => opener?.focus();
+  }, [open]);
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") onClose();
+    else if (e.key === "ArrowLeft") step(-1);
+    else if (e.key === "ArrowRight") step(1);
+    else if (e.key === "Tab") {
+      const controls = [...(dialogRef.current?.querySelectorAll("button") ?? [])];
+      const first = controls[0];
+      const last = controls[controls.length - 1];
+      if (e.shiftKey && document.activeElement === first) {
+        e.preventDefault();
+        last?.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first?.focus();
+      }
+    }
+  };
+
+  const onDragEnd = (_: unknown, { offset, velocity }: PanInfo) => {
+    if (offset.x < -SWIPE_OFFSET || velocity.x < -SWIPE_VELOCITY) step(1);
+    else if (offset.x > SWIPE_OFFSET || velocity.x > SWIPE_VELOCITY) step(-1);
+  };
+
+  if (!hydrated) return null;
+  const photo = index === null ? undefined : photos[index];
+
+  return createPortal(
+    <AnimatePresence>
+      {photo && index !== null && (
+        <motion.div
+          ref={dialogRef}
+          role="dialog"
+          aria-modal="true"
+          aria-label={localize(photo.alt, locale)}
+          onKeyDown={onKeyDown}
+          className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-4 bg-black/90 px-4 py-6"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.3 }}
+          onClick={(e) => e.target === e.currentTarget && onClose()}
+        >
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label={messages.close}
+            className={`absolute top-4 right-4 ${controlClass}`}
+          >
+            <span aria-hidden>&times;</span>
+          </button>
+
+          <AnimatePresence mode="wait" initial={false}>
+            <motion.figure
+              key={index}
+              className="flex flex-col items-center gap-3 max-w-5xl w-full"
+              initial={{ opacity: 0, scale: 0.96 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.96 }}
+              transition={{ duration: 0.25, ease: "easeOut" }}
+              drag={photos.length > 1 ? "x" : false}
+              dragConstraints={{ left: 0, right: 0 }}
+              dragElastic={0.6}
+              onDragEnd={onDragEnd}
+            >
+              <Image
+                src={photo.image}
+                alt={localize(photo.alt, locale)}
+                placeholder="blur"
+                sizes="100vw"
+                draggable={false}
+                className="max-h-[78vh] w-auto max-w-full object-contain rounded-lg select-none"
+              />
+              <figcaption className="text-serif-light text-sm tracking-[0.15em] font-normal !text-white/80 text-center">
+                {localize(photo.alt, locale)}
+              </figcaption>
+            </motion.figure>
+          </AnimatePresence>
+
+          {photos.length > 1 && (
+            <div className="flex items-center gap-6">
+              <button
+                type="button"
+                onClick={() => step(-1)}
+                aria-label={messages.previous}
+                className={controlClass}
+              >
+                <span aria-hidden>&lsaquo;</span>
+              </button>
+              <span
+                aria-live="polite"
+                className="text-serif-light text-xs tracking-[0.3em] !text-white/70 tabular-nums"
+              >
+                {format(messages.counter, { n: index + 1, total: photos.length })}
+              </span>
+              <button
+                type="button"
+                onClick={() => step(1)}
+                aria-label={messages.next}
+                className={controlClass}
+              >
+                <span aria-hidden>&rsaquo;</span>
+              </button>
+            </div>
+          )}
+        </motion.div>
+      )}
+    </AnimatePresence>,
+    document.body
+  );
+}
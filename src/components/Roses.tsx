@@ -0,0 +1,125 @@
+"use client";
+
+import { motion } from "framer-motion";
+import {
+  clusterItemSize,
+  CLUSTER_ROW_GAP,
+  LEAF_PATH,
+  LEAF_VEIN,
+  ROSE_CLUSTER,
+} from "@/lib/flowers";
+import { Flower, FlowerIcon, useFlower, useStill } from "./Flower";
+
+/* ================================================================
+   Roses — the wedding's flower, whichever species the couple
+   picked (see FlowerProvider). The names predate the other
+   species and are kept because every section uses them.
+   ================================================================ */
+
+/* Standalone bloom rendered as its own <svg> element for use in HTML flow */
+export function Rose(props: { delay: number; size?: number; className?: string }) {
+  return <Flower {...props} />;
+}
+
+/* Standalone leaf rendered as its own <svg> element */
+export function Leaf({
+  delay,
+  rotate = 0,
+  scale = 1,
+  className = "",
+}: {
+  delay: number;
+  rotate?: number;
+  scale?: number;
+  className?: string;
+}) {
+  const { leaf } = useFlower();
+  const still = useStill();
+  const { width: w, height: h } = clusterItemSize({ kind: "leaf", rotate, scale, delay });
+  return (
+    <motion.div
+      className={className}
+      initial={still ? false : { scale: 0, opacity: 0 }}
+      animate={{ scale: 1, opacity: 1 }}
+      transition={{ duration: 0.4, delay }}
+    >
+      <svg width={w} height={h} viewBox="0 0 14 22" aria-hidden>
+        <g transform={`translate(7,20) rotate(${rotate})`}>
+          <path d={LEAF_PATH} fill={leaf} opacity="0.55" />
+          <line
+            x1="0" y1={LEAF_VEIN.from} x2="0" y2={LEAF_VEIN.to}
+            stroke="#3a6a2a" strokeWidth="0.7" opacity="0.4"
+          />
+        </g>
+      </svg>
+    </motion.div>
+  );
+}
+
+/* ================================================================
+   Small rose icon for inline separators
+   ================================================================ */
+
+export function SmallRoseIcon({ size = 18 }: { size?: number }) {
+  return <FlowerIcon size={size} />;
+}
+
+/* ================================================================
+   Rose cluster — a group of roses + leaves arranged with flexbox,
+   following ROSE_CLUSTER. Used on each side of the title.
+   ================================================================ */
+
+export function RoseCluster({ mirror = false }: { mirror?: boolean }) {
+  const baseDelay = 2.2;
+  return (
+    <div
+      className="flex flex-col items-center"
+      style={{ gap: CLUSTER_ROW_GAP, transform: mirror ? "scaleX(-1)" : undefined }}
+    >
+      {ROSE_CLUSTER.map((row, r) => (
+        <div
+          key={r}
+          className={`flex ${row.align === "end" ? "items-end" : "items-center"}`}
+          style={{ gap: row.gap }}
+        >
+          {row.items.map((item, i) =>
+            item.kind === "rose" ? (
+              <Rose key={i} delay={baseDelay + item.delay} size={item.size} />
+            ) : (
+              <Leaf
+                key={i}
+                delay={baseDelay + item.delay}
+                rotate={item.rotate}
+                scale={item.scale}
+              />
+            )
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/* ================================================================
+   Reusable section dividers
+   ================================================================ */
+
+export function RoseDivider() {
+  return (
+    <div className="flex items-center gap-4 w-full max-w-xs mx-auto">
+      <div className="flex-1 h-px bg-primary/20" />
+      <SmallRoseIcon size={18} />
+      <div className="flex-1 h-px bg-primary/20" />
+    </div>
+  );
+}
+
+export function RoseDividerLight() {
+  return (
+    <div className="flex items-center gap-4 w-full max-w-xs mx-auto">
+      <div className="flex-1 h-px bg-white/20" />
+      <SmallRoseIcon size={18} />
+      <div className="flex-1 h-px bg-white/20" />
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import { useId } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { format, type Messages } from "@/i18n";
+import {
+  DIETS,
+  MENUS,
+  type Diet,
+  type Menu,
+  type PersonErrors,
+  type RsvpErrorCode,
+} from "@/lib/rsvp";
+
+/* ================================================================
+   RSVP details — one card per attending person (name, menu,
+   dietary restrictions) plus the party's logistics needs. The
+   list grows and shrinks with the guest stepper; drafts beyond
+   the current count are kept so stepping back down and up again
+   doesn't lose what was typed.
+   ================================================================ */
+
+export interface PersonDraft {
+  /* Unset until typed, so the first person can mirror the RSVP name */
+  name?: string;
+  menu?: Menu;
+  diet: Diet[];
+}
+
+export interface Needs {
+  accommodation: boolean;
+  transport: boolean;
+}
+
+const EMPTY: PersonDraft = { diet: [] };
+
+const pillClass =
+  "flex items-center justify-center gap-2 bg-accent/10 backdrop-blur-sm border border-accent/20 rounded-xl px-3 py-2 cursor-pointer has-[:checked]:border-accent/60 has-[:checked]:bg-accent/20 transition-colors";
+
+const labelClass = "text-serif-light text-xs tracking-[0.3em] !text-white/70";
+
+/* Fieldsets lose their browser frame; the legend reads like the other labels */
+const fieldsetClass = "flex flex-col gap-2 border-0 p-0 m-0 min-w-0";
+const legendClass = `mb-2 ${labelClass}`;
+
+const optionClass = "text-serif-light text-sm tracking-[0.1em] font-normal !text-white";
+
+function DetailError({ id, message }: { id: string; message?: string }) {
+  if (!message) return null;
+  return (
+    <p
+      id={id}
+      role="alert"
+      className="text-serif-light text-xs tracking-[0.15em] font-normal !text-accent"
+    >
+      {message}
+    </p>
+  );
+}
+
+export function RsvpDetails({
+  count,
+  people,
+  onPeopleChange,
+  firstName,
+  needs,
+  onNeedsChange,
+  errors = {},
+  errorMessage,
+  messages,
+}: {
+  count: number;
+  people: PersonDraft[];
+  onPeopleChange: (people: PersonDraft[]) => void;
+  /* Shown for the first person until their name is edited */
+  firstName: string;
+  needs: Needs;
+  onNeedsChange: (needs: Needs) => void;
+  errors?: Record<number, PersonErrors>;
+  errorMessage: (code?: RsvpErrorCode) => string | undefined;
+  messages: Messages["rsvp"];
+}) {
+  const baseId = useId();
+  /* Ties a field or group to its error message, when there is one */
+  const errorId = (i: number, field: keyof PersonErrors) =>
+    errors[i]?.[field] ? `${baseId}-${i}-${field}` : undefined;
+
+  const update = (i: number, patch: Partial<PersonDraft>) => {
+    const next = [...people];
+    next[i] = { ...(next[i] ?? EMPTY), ...patch };
+    onPeopleChange(next);
+  };
+
+  return (
+    <div className="flex flex-col gap-4 text-left">
+      <AnimatePresence initial={false}>
+        {Array.from({ length: count }, (_, i) => {
+          const person = people[i] ?? EMPTY;
+          const personErrors = errors[i] ?? {};
+          return (
+            <motion.div
+              key={i}
+              role="group"
+              aria-label={format(messages.person, { n: i + 1 })}
+              className="flex flex-col gap-4 bg-accent/5 border border-accent/15 rounded-2xl px-5 py-5 overflow-hidden"
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: "auto" }}
+              exit={{ opacity: 0, height: 0 }}
+              transition={{ duration: 0.35, ease: "easeOut" }}
+            >
+              <p className="text-script text-xl !text-white" aria-hidden>
+                {format(messages.person, { n: i + 1 })}
+              </p>
+
+              <label className="flex flex-col gap-2">
+                <span className={labelClass}>{messages.personName}</span>
+                <input
+                  type="text"
+                  name={`people.${i}.name`}
+                  required
+                  value={person.name ?? (i === 0 ? firstName : "")}
+                  onChange={(e) => update(i, { name: e.target.value })}
+                  aria-invalid={!!personErrors.name}
+                  aria-describedby={errorId(i, "name")}
+                  className="w-full bg-accent/10 backdrop-blur-sm border border-accent/20 rounded-xl px-4 py-3 text-serif-light text-sm tracking-[0.1em] font-normal text-white placeholder:text-white/30 outline-none focus:border-accent/50 aria-[invalid=true]:border-accent/70 transition-colors"
+                />
+                <DetailError
+                  id={`${baseId}-${i}-name`}
+                  message={errorMessage(personErrors.name)}
+                />
+              </label>
+
+              <fieldset className={fieldsetClass} aria-describedby={errorId(i, "menu")}>
+                <legend className={legendClass}>{messages.menu}</legend>
+                <div className="grid grid-cols-3 gap-2">
+                  {MENUS.map((menu) => (
+                    <label key={menu} className={pillClass}>
+                      <input
+                        type="radio"
+                        name={`people.${i}.menu`}
+                        value={menu}
+                        required
+                        checked={person.menu === menu}
+                        onChange={() => update(i, { menu })}
+                        className="accent-accent"
+                      />
+                      <span className={optionClass}>{messages.menus[menu]}</span>
+                    </label>
+                  ))}
+                </div>
+                <DetailError
+                  id={`${baseId}-${i}-menu`}
+                  message={errorMessage(personErrors.menu)}
+                />
+              </fieldset>
+
+              <fieldset className={fieldsetClass} aria-describedby={errorId(i, "diet")}>
+                <legend className={legendClass}>{messages.diet}</legend>
+                <div className="flex flex-wrap gap-2">
+                  {DIETS.map((diet) => (
+                    <label key={diet} className={pillClass}>
+                      <input
+                        type="checkbox"
+                        name={`people.${i}.diet`}
+                        value={diet}
+                        checked={person.diet.includes(diet)}
+                        onChange={(e) =>
+                          update(i, {
+                            diet: e.target.checked
+                              ? [...person.diet, diet]
+                              : person.diet.filter((d) => d !== diet),
+                          })
+                        }
+                        className="accent-accent"
+                      />
+                      <span className={optionClass}>{messages.diets[diet]}</span>
+                    </label>
+                  ))}
+                </div>
+                <DetailError
+                  id={`${baseId}-${i}-diet`}
+                  message={errorMessage(personErrors.diet)}
+                />
+              </fieldset>
+            </motion.div>
+          );
+        })}
+      </AnimatePresence>
+
+      <fieldset className={fieldsetClass}>
+        <legend className={legendClass}>{messages.needs}</legend>
+        <div className="flex gap-4">
+          {(["accommodation", "transport"] as const).map((need) => (
+            <label key={need} className={`flex-1 ${pillClass} py-3`}>
+              <input
+                type="checkbox"
+                name={need}
+                checked={needs[need]}
+                onChange={(e) => onNeedsChange({ ...needs, [need]: e.target.checked })}
+                className="accent-accent"
+              />
+              <span className={optionClass}>{messages[need]}</span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+    </div>
+  );
+}
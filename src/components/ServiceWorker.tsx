@@ -0,0 +1,47 @@
+"use client";
+
+import { useEffect } from "react";
+
+/* ================================================================
+   Registers public/sw.js and hands it what the invitation needs
+   offline: the given pages, plus every same-origin file loaded so
+   far — scripts, styles, fonts and images. The worker picks the
+   ones it keeps. Production only, so it never caches dev builds.
+   ================================================================ */
+
+function loadedFiles() {
+  const fromDom = [
+    ...document.querySelectorAll<HTMLScriptElement>("script[src]"),
+  ].map((s) => s.src);
+  const fromLinks = [
+    ...document.querySelectorAll<HTMLLinkElement>("link[rel=stylesheet], link[rel=preload]"),
+  ].map((l) => l.href);
+  const fetched = performance.getEntriesByType("resource").map((e) => e.name);
+  return [...new Set([...fromDom, ...fromLinks, ...fetched])].filter(
+    (url) => new URL(url, location.href).origin === location.origin
+  );
+}
+
+export function ServiceWorker({ pages }: { pages: string[] }) {
+  const key = pages.join(" ");
+
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    const precache = async () => {
+      await navigator.serviceWorker.register("/sw.js");
+      const registration = await navigator.serviceWorker.ready;
+      registration.active?.postMessage({
+        type: "precache",
+        pages: key.split(" "),
+        assets: loadedFiles(),
+      });
+    };
+    /* After load, so images and fonts the page used are listed too */
+    const start = () => void precache().catch(() => {});
+    if (document.readyState === "complete") start();
+    else window.addEventListener("load", start, { once: true });
+    return () => window.removeEventListener("load", start);
+  }, [key]);
+
+  return null;
+}
@@ -0,0 +1,252 @@
+"use client";
+
+import { useEffect, useId, useState, useTransition } from "react";
+import { motion } from "framer-motion";
+import { suggestSong, voteSong } from "@/app/actions";
+import { format, plural, type Locale, type Messages } from "@/i18n";
+import {
+  keepDevice,
+  MAX_SONG_FIELD,
+  storedDevice,
+  type PublicSong,
+  type SongErrorCode,
+  type SongResult,
+} from "@/lib/songs";
+import { useSeen } from "./Analytics";
+import { SmallRoseIcon } from "./Roses";
+
+/* ================================================================
+   Song requests — guests suggest songs for the party and vote for
+   each other's; the list re-ranks as votes come in. Fetched when
+   the section loads, since the page itself is static.
+   ================================================================ */
+
+const fieldClass =
+  "w-full bg-white/70 border border-primary/20 rounded-xl px-4 py-3 text-serif-light text-sm tracking-[0.1em] font-normal outline-none focus:border-primary/50 transition-colors";
+
+type Listing = { songs: PublicSong[]; voted: string[]; device?: string };
+
+export function SongRequests({
+  slug,
+  venue,
+  invite,
+  end,
+  locale,
+  messages,
+}: {
+  slug: string;
+  /* Where the party is, for the introduction */
+  venue: string;
+  /* Token of a personal invitation, which votes instead of the browser */
+  invite?: string;
+  /* Epoch ms the party ends, see weddingTimes() */
+  end: number;
+  locale: Locale;
+  messages: Messages["songs"];
+}) {
+  const seen = useSeen();
+  const [listing, setListing] = useState<Listing | null>(null);
+  const [closed, setClosed] = useState(false);
+  const [error, setError] = useState<SongErrorCode | "failed" | null>(null);
+  const [title, setTitle] = useState("");
+  const [artist, setArtist] = useState("");
+  const [name, setName] = useState("");
+  const [pending, startPending] = useTransition();
+  const fieldId = `song-${useId()}`;
+
+  const voter = () => (invite ? { invite } : { device: storedDevice() });
+
+  useEffect(() => {
+    const query = new URLSearchParams(invite ? { invite } : { device: storedDevice() ?? "" });
+    let cancelled = false;
+    fetch(`/api/songs/${slug}?${query}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: Listing | null) => {
+        if (cancelled || !data) return;
+        /* Handed out when this browser had no valid token yet */
+        if (data.device) keepDevice(data.device);
+        setListing(data);
+        setClosed(Date.now() >= end);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [slug, invite, end]);
+
+  const apply = (result: SongResult) => {
+    if (result.ok) {
+      setListing({ songs: result.songs, voted: result.voted });
+      setError(null);
+    } else {
+      setError(result.error);
+      if (result.error === "closed") setClosed(true);
+    }
+    return result.ok;
+  };
+
+  const suggest = () =>
+    startPending(async () => {
+      try {
+        if (apply(await suggestSong(slug, { ...voter(), title, artist, name }))) {
+          setTitle("");
+          setArtist("");
+        }
+      } catch {
+        setError("failed");
+      }
+    });
+
+  const vote = (id: string) =>
+    startPending(async () => {
+      try {
+        apply(await voteSong(slug, id, voter()));
+      } catch {
+        setError("failed");
+      }
+    });
+
+  return (
+    <section className="flower-bg-dark relative flex min-h-screen items-center justify-center overflow-hidden snap-start">
+      <div className="relative z-10 flex flex-col items-center gap-12 px-6 py-24 text-center w-full max-w-2xl mx-auto">
+        <motion.h2
+          className="text-script text-4xl sm:text-5xl !text-white"
+          initial={{ opacity: 0, y: 20 }}
+          whileInView={{ opacity: 1, y: 0 }}
+          viewport={{ once: true, margin: "-100px" }}
+          transition={{ duration: 0.8, ease: "easeOut" }}
+          {...seen("songs")}
+        >
+          {messages.title}
+        </motion.h2>
+
+        <p className="text-serif-light text-sm sm:text-base tracking-[0.15em] font-normal leading-relaxed max-w-lg !text-white/70">
+          {closed ? messages.closed : format(messages.intro, { venue })}
+        </p>
+
+        {!closed && (
+          <motion.form
+            className="flex flex-col gap-3 w-full bg-accent/10 backdrop-blur-sm rounded-2xl px-6 py-8 border border-accent/20"
+            initial={{ opacity: 0, y: 30 }}
+            whileInView={{ opacity: 1, y: 0 }}
+            viewport={{ once: true, margin: "-100px" }}
+            transition={{ duration: 0.8, ease: "easeOut" }}
+            onSubmit={(e) => {
+              e.preventDefault();
+              suggest();
+            }}
+          >
+            <div className="flex flex-col sm:flex-row gap-3">
+              <input
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                maxLength={MAX_SONG_FIELD}
+                required
+                placeholder={messages.songTitle}
+                aria-label={messages.songTitle}
+                aria-invalid={error === "title"}
+                aria-describedby={error ? `${fieldId}-error` : undefined}
+                className={fieldClass}
+              />
+              <input
+                type="text"
+                value={artist}
+                onChange={(e) => setArtist(e.target.value)}
+                maxLength={MAX_SONG_FIELD}
+                required
+                placeholder={messages.artist}
+                aria-label={messages.artist}
+                aria-invalid={error === "artist"}
+                aria-describedby={error ? `${fieldId}-error` : undefined}
+                className={fieldClass}
+              />
+            </div>
+            {!invite && (
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={120}
+                placeholder={messages.name}
+                aria-label={messages.name}
+                className={fieldClass}
+              />
+            )}
+            <button
+              type="submit"
+              disabled={pending}
+              className="bg-accent rounded-xl px-6 py-3 text-serif-light text-xs tracking-[0.3em] !text-primary hover:bg-accent/80 transition-colors cursor-pointer disabled:opacity-60 disabled:cursor-wait"
+            >
+              {pending ? messages.suggesting : messages.suggest}
+            </button>
+          </motion.form>
+        )}
+
+        {error && (
+          <p
+            id={`${fieldId}-error`}
+            role="alert"
+            className="text-serif-light text-xs tracking-[0.15em] font-normal !text-accent"
+          >
+            {messages.errors[error]}
+          </p>
+        )}
+
+        {listing && listing.songs.length === 0 && !closed && (
+          <p className="text-serif-light text-sm tracking-[0.1em] font-normal !text-white/60">
+            {messages.empty}
+          </p>
+        )}
+
+        {listing && listing.songs.length > 0 && (
+          <ol className="flex flex-col gap-3 w-full">
+            {listing.songs.map((song, i) => {
+              const voted = listing.voted.includes(song.id);
+              const label = `${song.artist} — ${song.title}`;
+              return (
+                <motion.li
+                  key={song.id}
+                  layout
+                  transition={{ duration: 0.5, ease: "easeOut" }}
+                  className="flex items-center gap-4 bg-white/10 backdrop-blur-sm rounded-xl border border-accent/20 px-5 py-3 text-left"
+                >
+                  <span className="w-6 shrink-0 text-serif-light text-sm font-bold !text-white/50 tabular-nums">
+                    {i + 1}
+                  </span>
+                  <div className="flex flex-col min-w-0 flex-1">
+                    <span className="text-serif-light text-sm sm:text-base font-semibold !text-white truncate">
+                      {song.title}
+                    </span>
+                    <span className="text-serif-light text-xs tracking-[0.15em] font-normal !text-white/60 truncate">
+                      {song.artist}
+                    </span>
+                  </div>
+                  <button
+                    type="button"
+                    disabled={closed || pending}
+                    aria-pressed={voted}
+                    aria-label={format(voted ? messages.unvote : messages.vote, { song: label })}
+                    onClick={() => vote(song.id)}
+                    className={`shrink-0 flex items-center gap-2 rounded-full px-3 py-1.5 border transition-colors cursor-pointer disabled:cursor-default ${
+                      voted ? "bg-accent border-accent" : "border-accent/40 hover:bg-accent/20"
+                    }`}
+                  >
+                    <SmallRoseIcon size={14} />
+                    <span
+                      className={`text-serif-light text-xs tracking-[0.1em] font-semibold tabular-nums ${
+                        voted ? "!text-primary" : "!text-white"
+                      }`}
+                    >
+                      {plural(locale, song.votes, messages.votes)}
+                    </span>
+                  </button>
+                </motion.li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { motion } from "framer-motion";
+import { format, localize, type Locale, type Messages } from "@/i18n";
+import type { GalleryPhoto } from "@/lib/gallery";
+import type { StoryItem } from "@/lib/wedding";
+import { useSeen } from "./Analytics";
+import { Lightbox } from "./Lightbox";
+import { RoseDivider, SmallRoseIcon } from "./Roses";
+
+/* ================================================================
+   Our story — a timeline of the couple's moments followed by a
+   photo grid. Thumbnails open the lightbox; each one fades in as
+   it scrolls into view, like the rest of the page.
+   ================================================================ */
+
+export function Story({
+  story,
+  gallery,
+  locale,
+  messages,
+}: {
+  story: StoryItem[];
+  gallery: GalleryPhoto[];
+  locale: Locale;
+  messages: Messages["story"];
+}) {
+  const seen = useSeen();
+  const [open, setOpen] = useState<number | null>(null);
+
+  return (
+    <section className="flex min-h-screen items-center justify-center overflow-hidden bg-background snap-start">
+      <div className="flex flex-col items-center gap-16 px-6 py-24 text-center w-full max-w-5xl mx-auto">
+        <motion.h2
+          className="text-script text-4xl sm:text-5xl"
+          initial={{ opacity: 0, y: 20 }}
+          whileInView={{ opacity: 1, y: 0 }}
+          viewport={{ once: true, margin: "-100px" }}
+          transition={{ duration: 0.8, ease: "easeOut" }}
+          {...seen("story")}
+        >
+          {messages.title}
+        </motion.h2>
+
+        {story.length > 0 && (
+          <div className="relative w-full max-w-3xl">
+            {/* Spine of the timeline, centered from `sm` up */}
+            <div className="absolute top-2 bottom-2 left-[7px] sm:left-1/2 w-px bg-primary/20" />
+            <ol className="flex flex-col gap-12">
+              {story.map((item, i) => (
+                <motion.li
+                  key={i}
+                  className={`relative sm:w-1/2 ${
+                    i % 2 === 0 ? "sm:pr-10 sm:self-start" : "sm:pl-10 sm:self-end"
+                  }`}
+                  initial={{ opacity: 0, x: i % 2 === 0 ? -30 : 30 }}
+                  whileInView={{ opacity: 1, x: 0 }}
+                  viewport={{ once: true, margin: "-100px" }}
+                  transition={{ duration: 0.8, ease: "easeOut" }}
+                >
+                  <div
+                    className={`absolute top-0.5 left-0 sm:left-auto ${
+                      i % 2 === 0 ? "sm:-right-[7px]" : "sm:-left-[7px]"
+                    }`}
+                  >
+                    <SmallRoseIcon size={14} />
+                  </div>
+                  <div
+                    className={`flex flex-col gap-1 pl-8 sm:pl-0 text-left ${
+                      i % 2 === 0 ? "sm:text-right" : ""
+                    }`}
+                  >
+                    <span className="text-serif-light text-xs tracking-[0.3em] opacity-70">
+                      {localize(item.when, locale)}
+                    </span>
+                    <h3 className="text-script text-2xl sm:text-3xl">
+                      {localize(item.title, locale)}
+                    </h3>
+                    {item.text && (
+                      <p className="text-serif-light text-sm tracking-[0.1em] font-normal leading-relaxed opacity-80">
+                        {localize(item.text, locale)}
+                      </p>
+                    )}
+                  </div>
+                </motion.li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        {story.length > 0 && gallery.length > 0 && <RoseDivider />}
+
+        {gallery.length > 0 && (
+          <div className="flex flex-col items-center gap-8 w-full">
+            <h3 className="sr-only">{messages.gallery}</h3>
+            <ul className="grid grid-cols-2 sm:grid-cols-3 gap-3 sm:gap-4 w-full">
+              {gallery.map((photo, i) => (
+                <motion.li
+                  key={photo.image.src}
+                  initial={{ opacity: 0, y: 20 }}
+                  whileInView={{ opacity: 1, y: 0 }}
+                  viewport={{ once: true, margin: "-50px" }}
+                  transition={{ duration: 0.6, ease: "easeOut", delay: (i % 3) * 0.1 }}
+                >
+                  <button
+                    type="button"
+                    onClick={() => setOpen(i)}
+                    aria-label={format(messages.open, { alt: localize(photo.alt, locale) })}
+                    className="group block w-full aspect-square overflow-hidden rounded-2xl border border-primary/15 cursor-pointer"
+                  >
+                    <Image
+                      src={photo.image}
+                      alt=""
+                      placeholder="blur"
+                      sizes="(min-width: 1024px) 320px, (min-width: 640px) 33vw, 50vw"
+                      className="h-full w-full object-cover transition-transform duration-700 group-hover:scale-105"
+                    />
+                  </button>
+                </motion.li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      <Lightbox
+        photos={gallery}
+        index={open}
+        onIndexChange={setOpen}
+        onClose={() => setOpen(null)}
+        locale={locale}
+        messages={messages}
+      />
+    </section>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import { motion } from "framer-motion";
+import { SmallRoseIcon } from "./Roses";
+import { format, localize, type Locale, type Messages } from "@/i18n";
+import { liveSchedule, scheduleProgress, type ScheduleChange } from "@/lib/schedule";
+import { formatTime, weddingTimes, type PublicWeddingConfig } from "@/lib/wedding";
+
+/* ================================================================
+   Programme of the day
+
+   On the day it follows the clock: the item on now and the next
+   one are marked, and the line between the roses fills up towards
+   the next item. Changes the couple makes in admin are fetched
+   once before the day; from its start they arrive over the live
+   feed (api/schedule) and reorder the list in place. As with
+   the countdown, the clock has a `null` server snapshot, so the
+   static markup never claims anything is happening.
+   ================================================================ */
+
+const TICK_MS = 15000;
+/* Longest wait setTimeout takes; a page left open longer than
+   that before the day never opens the feed */
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+function subscribe(onTick: () => void) {
+  const id = setInterval(onTick, TICK_MS);
+  return () => clearInterval(id);
+}
+
+const clientNow = () => Math.floor(Date.now() / TICK_MS) * TICK_MS;
+const serverNow = () => null;
+
+type ItemState = "past" | "now" | "next" | "later";
+
+export function Timeline({
+  config,
+  locale,
+  messages,
+}: {
+  config: PublicWeddingConfig;
+  locale: Locale;
+  messages: Messages["schedule"];
+}) {
+  const [changes, setChanges] = useState<ScheduleChange[]>([]);
+  const [updated, setUpdated] = useState(false);
+  const received = useRef<string | null>(null);
+  const now = useSyncExternalStore(subscribe, clientNow, serverNow);
+  const { dayStart, end } = weddingTimes(config);
+
+  /* Nothing can change once the day is over */
+  useEffect(() => {
+    if (Date.now() >= end) return;
+    const url = `/api/schedule/${config.slug}`;
+    const receive = (data: string) => {
+      if (data === received.current) return;
+      /* The first state received is not news */
+      if (received.current !== null) setUpdated(true);
+      received.current = data;
+      setChanges((JSON.parse(data) as { changes: ScheduleChange[] }).changes);
+    };
+
+    let source: EventSource | undefined;
+    const listen = () => {
+      source = new EventSource(url);
+      source.onmessage = (event) => receive(event.data);
+    };
+    /* Before the day, the changes as they stand are enough */
+    const wait = dayStart - Date.now();
+    if (wait <= 0) {
+      listen();
+      return () => source?.close();
+    }
+
+    const controller = new AbortController();
+    fetch(url, { signal: controller.signal })
+      .then((res) => (res.ok ? res.text() : null))
+      .then((data) => {
+        if (data) receive(data);
+      })
+      .catch(() => {});
+    const id = wait <= MAX_TIMEOUT_MS ? setTimeout(listen, wait) : undefined;
+    return () => {
+      controller.abort();
+      clearTimeout(id);
+      source?.close();
+    };
+  }, [config.slug, dayStart, end]);
+
+  const items = useMemo(() => liveSchedule(config, changes), [config, changes]);
+  const progress = now === null ? null : scheduleProgress(config, items, now);
+
+  const stateOf = (i: number): ItemState =>
+    !progress
+      ? "later"
+      : i < progress.current
+        ? "past"
+        : i === progress.current
+          ? "now"
+          : i === progress.next
+            ? "next"
+            : "later";
+
+  return (
+    <motion.div
+      className="flex flex-col gap-0 w-full"
+      initial={{ opacity: 0, y: 30 }}
+      whileInView={{ opacity: 1, y: 0 }}
+      viewport={{ once: true, margin: "-100px" }}
+      transition={{ duration: 1, ease: "easeOut", delay: 0.2 }}
+    >
+      <p role="status" className="text-serif-light text-xs tracking-[0.2em] font-normal !text-highlight min-h-4 pb-6">
+        {updated && messages.updated}
+      </p>
+
+      {items.map((item, i, arr) => {
+        const state = stateOf(i);
+        const fill =
+          state === "past" ? 1 : state === "now" && progress ? progress.fraction : 0;
+        return (
+          <motion.div
+            key={item.index}
+            layout="position"
+            aria-current={state === "now" ? "step" : undefined}
+            className={`flex items-stretch gap-6 sm:gap-10 transition-opacity duration-700 ${
+              state === "past" ? "opacity-50" : ""
+            }`}
+          >
+            {/* Time */}
+            <div className="w-16 sm:w-20 flex-shrink-0 flex flex-col items-end pt-1">
+              <span className="text-serif-light text-sm sm:text-base tracking-[0.15em] font-bold">
+                {formatTime(item.time, locale)}
+              </span>
+              {item.movedFrom && (
+                <s className="text-serif-light text-xs tracking-[0.1em] font-normal opacity-50">
+                  {formatTime(item.movedFrom, locale)}
+                </s>
+              )}
+            </div>
+
+            {/* Timeline line & rose dot */}
+            <div className="flex flex-col items-center">
+              <motion.div
+                className="flex-shrink-0 mt-0.5"
+                animate={state === "now" ? { scale: [1, 1.35, 1] } : { scale: 1 }}
+                transition={
+                  state === "now"
+                    ? { duration: 2.4, ease: "easeInOut", repeat: Infinity }
+                    : { duration: 0.4 }
+                }
+              >
+                <SmallRoseIcon size={14} />
+              </motion.div>
+              {i < arr.length - 1 && (
+                <div className="relative w-px flex-1 bg-primary/20">
+                  <motion.div
+                    className="absolute inset-x-0 top-0 bg-primary"
+                    initial={false}
+                    animate={{ height: `${fill * 100}%` }}
+                    transition={{ duration: 1.2, ease: "easeOut" }}
+                  />
+                </div>
+              )}
+            </div>
+
+            {/* Content */}
+            <div className="flex flex-col items-start gap-1 pb-10 pt-0">
+              {(state === "now" || state === "next") && (
+                <span className="border border-primary/25 rounded-full px-3 py-0.5 text-serif-light text-[0.65rem] tracking-[0.3em]">
+                  {state === "now" ? messages.now : messages.next}
+                </span>
+              )}
+              <p className="text-script text-xl sm:text-2xl text-left">
+                {localize(item.title, locale)}
+              </p>
+              {item.desc && (
+                <p className="text-serif-light text-sm tracking-[0.15em] font-normal opacity-60 text-left">
+                  {localize(item.desc, locale)}
+                </p>
+              )}
+              {(item.movedFrom || item.note) && (
+                <p className="text-serif-light text-xs tracking-[0.15em] font-normal !text-highlight text-left">
+                  {item.note ||
+                    format(messages.moved, { time: formatTime(item.movedFrom!, locale) })}
+                </p>
+              )}
+            </div>
+          </motion.div>
+        );
+      })}
+    </motion.div>
+  );
+}
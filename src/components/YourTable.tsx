@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { format } from "@/i18n";
+
+/* ================================================================
+   "Your table: 7" — shown to a personal invitation on the wedding
+   day once the couple has seated it. The number is only fetched
+   from the start of that day, which the server enforces too.
+   ================================================================ */
+
+export function YourTable({
+  slug,
+  token,
+  dayStart,
+  end,
+  label,
+}: {
+  slug: string;
+  token: string;
+  /* Epoch ms, see weddingTimes() */
+  dayStart: number;
+  end: number;
+  label: string;
+}) {
+  const [table, setTable] = useState<number | null>(null);
+
+  useEffect(() => {
+    const now = Date.now();
+    if (now < dayStart || now >= end) return;
+    let cancelled = false;
+    fetch(`/api/table/${slug}/${token}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { table: number | null } | null) => {
+        if (!cancelled && data?.table) setTable(data.table);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [slug, token, dayStart, end]);
+
+  if (table === null) return null;
+  return (
+    <motion.p
+      role="status"
+      className="bg-background/70 backdrop-blur-sm border border-primary/20 rounded-2xl px-6 py-3 text-serif-light text-base sm:text-lg"
+      initial={{ opacity: 0, scale: 0.9 }}
+      animate={{ opacity: 1, scale: 1 }}
+      transition={{ duration: 0.6, ease: "easeOut" }}
+    >
+      {format(label, { table })}
+    </motion.p>
+  );
+}
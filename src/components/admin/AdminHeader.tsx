@@ -0,0 +1,47 @@
+import Link from "next/link";
+import { logout } from "@/app/admin/actions";
+import { SmallRoseIcon } from "@/components/Roses";
+
+const NAV = [
+  { href: "/admin", label: "Răspunsuri" },
+  { href: "/admin/analytics", label: "Statistici" },
+  { href: "/admin/photos", label: "Fotografii" },
+  { href: "/admin/wishes", label: "Urări" },
+  { href: "/admin/seating", label: "Mese" },
+  { href: "/admin/gifts", label: "Cadouri" },
+  { href: "/admin/schedule", label: "Program" },
+  { href: "/admin/print", label: "Tipărire" },
+  { href: "/admin/notifications", label: "Notificări" },
+];
+
+export function AdminHeader({ title }: { title: string }) {
+  return (
+    <header className="flex flex-col gap-6 border-b border-primary/10 pb-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <SmallRoseIcon size={24} />
+          <h1 className="text-script text-3xl sm:text-4xl">{title}</h1>
+        </div>
+        <form action={logout}>
+          <button
+            type="submit"
+            className="text-serif-light text-xs tracking-[0.3em] opacity-70 hover:opacity-100 transition-opacity cursor-pointer"
+          >
+            Ieșire
+          </button>
+        </form>
+      </div>
+      <nav className="flex flex-wrap gap-6">
+        {NAV.map((item) => (
+          <Link
+            key={item.href}
+            href={item.href}
+            className="text-serif-light text-xs tracking-[0.3em] opacity-70 hover:opacity-100 transition-opacity"
+          >
+            {item.label}
+          </Link>
+        ))}
+      </nav>
+    </header>
+  );
+}
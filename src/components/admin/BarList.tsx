@@ -0,0 +1,32 @@
+/* Horizontal bars, each labelled with its value and its share of `total` */
+export function BarList({
+  rows,
+  total,
+}: {
+  rows: { label: string; value: number }[];
+  total: number;
+}) {
+  return (
+    <ul className="flex flex-col gap-3">
+      {rows.map((row) => {
+        const share = total > 0 ? Math.round((row.value / total) * 100) : 0;
+        return (
+          <li key={row.label} className="flex flex-col gap-1">
+            <div className="flex justify-between gap-4 text-serif-light text-xs tracking-[0.15em]">
+              <span>{row.label}</span>
+              <span className="tabular-nums opacity-70">
+                {row.value} · {share}%
+              </span>
+            </div>
+            <div className="h-2.5 rounded-full bg-primary/10 overflow-hidden">
+              <div
+                className="h-full rounded-full bg-accent"
+                style={{ width: `${Math.min(share, 100)}%` }}
+              />
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
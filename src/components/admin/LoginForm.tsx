@@ -0,0 +1,40 @@
+"use client";
+
+import { useActionState } from "react";
+import { login, type LoginState } from "@/app/admin/actions";
+
+const INITIAL: LoginState = {};
+
+export function LoginForm() {
+  const [state, action, pending] = useActionState(login, INITIAL);
+
+  return (
+    <form action={action} className="flex flex-col gap-4 w-full">
+      <label className="flex flex-col gap-2 text-left">
+        <span className="text-serif-light text-xs tracking-[0.3em] opacity-70">
+          Parolă
+        </span>
+        <input
+          type="password"
+          name="passphrase"
+          required
+          autoFocus
+          autoComplete="current-password"
+          className="w-full bg-white/60 border border-primary/20 rounded-xl px-4 py-3 text-sm text-primary outline-none focus:border-primary/50 transition-colors"
+        />
+      </label>
+      {state.error && (
+        <p className="text-serif-light text-xs tracking-[0.15em] font-normal !text-highlight">
+          {state.error}
+        </p>
+      )}
+      <button
+        type="submit"
+        disabled={pending}
+        className="w-full bg-primary rounded-xl px-6 py-3 text-serif-light text-xs tracking-[0.3em] !text-background hover:bg-primary-hover transition-colors cursor-pointer disabled:opacity-60 disabled:cursor-wait"
+      >
+        {pending ? "Se verifică…" : "Intră"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useActionState } from "react";
+import { sendReminders, type ReminderState } from "@/app/admin/actions";
+
+const INITIAL: ReminderState = {};
+
+export function ReminderForm({ slug, pending }: { slug: string; pending: number }) {
+  const [state, action, sending] = useActionState(
+    sendReminders.bind(null, slug),
+    INITIAL
+  );
+
+  return (
+    <form action={action} className="flex flex-col gap-2 items-start">
+      <button
+        type="submit"
+        disabled={sending || pending === 0}
+        className="bg-primary rounded-xl px-5 py-2 text-serif-light text-xs tracking-[0.3em] !text-background hover:bg-primary-hover transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {sending ? "Se trimit…" : "Trimite remindere"}
+      </button>
+      {state.error && (
+        <p className="text-serif-light text-xs tracking-[0.15em] font-normal !text-highlight">
+          {state.error}
+        </p>
+      )}
+      {state.batch && (
+        <p className="text-serif-light text-xs tracking-[0.15em] font-normal opacity-70">
+          Trimise: {state.batch.sent}
+          {state.batch.failed > 0 && ` · Eșuate: ${state.batch.failed}`}
+        </p>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import { useActionState, useState } from "react";
+import { removeRsvp, saveRsvp } from "@/app/admin/actions";
+import { format, getMessages } from "@/i18n";
+import {
+  DIETS,
+  MAX_GUESTS,
+  MENUS,
+  MIN_GUESTS,
+  type Attendance,
+  type Rsvp,
+  type RsvpErrorCode,
+  type RsvpField,
+  type RsvpResult,
+} from "@/lib/rsvp";
+
+const IDLE: RsvpResult = { status: "idle" };
+
+/* The admin area is Romanian-only */
+const m = getMessages("ro");
+
+const inputClass =
+  "w-full bg-white/60 border border-primary/20 rounded-xl px-4 py-3 text-sm text-primary outline-none focus:border-primary/50 transition-colors";
+
+function Field({
+  label,
+  error,
+  children,
+}: {
+  label: string;
+  error?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <label className="flex flex-col gap-2 text-left">
+      <span className="text-serif-light text-xs tracking-[0.3em] opacity-70">
+        {label}
+      </span>
+      {children}
+      {error && (
+        <span className="text-serif-light text-xs tracking-[0.15em] font-normal !text-highlight">
+          {error}
+        </span>
+      )}
+    </label>
+  );
+}
+
+export function RsvpEditForm({ rsvp }: { rsvp: Rsvp }) {
+  const [state, action, pending] = useActionState(
+    saveRsvp.bind(null, rsvp.id),
+    IDLE
+  );
+  const [guests, setGuests] = useState(rsvp.guests);
+  const [attendance, setAttendance] = useState<Attendance>(rsvp.attendance);
+  const codes = state.status === "error" ? state.errors : {};
+  const message = (code?: RsvpErrorCode) =>
+    code && format(m.rsvp.errors[code], { min: MIN_GUESTS, max: MAX_GUESTS });
+  const error = (field: RsvpField) => message(codes[field]);
+
+  return (
+    <form action={action} className="flex flex-col gap-6">
+      <Field label="Nume și prenume" error={error("name")}>
+        <input name="name" defaultValue={rsvp.name} required className={inputClass} />
+      </Field>
+      <Field label="Email" error={error("email")}>
+        <input
+          type="email"
+          name="email"
+          defaultValue={rsvp.email}
+          className={inputClass}
+        />
+      </Field>
+      <Field label="Număr persoane" error={error("guests")}>
+        <input
+          type="number"
+          name="guests"
+          min={MIN_GUESTS}
+          max={MAX_GUESTS}
+          value={guests}
+          onChange={(e) => setGuests(Number(e.target.value))}
+          required
+          className={inputClass}
+        />
+      </Field>
+      <Field label="Participare" error={error("attendance")}>
+        <select
+          name="attendance"
+          value={attendance}
+          onChange={(e) => setAttendance(e.target.value as Attendance)}
+          className={inputClass}
+        >
+          <option value="yes">Confirmă</option>
+          <option value="no">Nu participă</option>
+        </select>
+      </Field>
+      {attendance === "yes" && (
+        <>
+          {Array.from({ length: Math.min(Math.max(guests, 0), MAX_GUESTS) }, (_, i) => {
+            const person = rsvp.people[i];
+            const errors = codes.people?.[i] ?? {};
+            return (
+              <fieldset
+                key={i}
+                className="flex flex-col gap-4 border border-primary/10 rounded-2xl px-5 py-5"
+              >
+                <legend className="text-serif-light text-xs tracking-[0.3em] px-2">
+                  {format(m.rsvp.person, { n: i + 1 })}
+                </legend>
+                <div className="grid sm:grid-cols-2 gap-4">
+                  <Field label={m.rsvp.personName} error={message(errors.name)}>
+                    <input
+                      name={`people.${i}.name`}
+                      defaultValue={person?.name ?? (i === 0 ? rsvp.name : "")}
+                      required
+                      className={inputClass}
+                    />
+                  </Field>
+                  <Field label={m.rsvp.menu} error={message(errors.menu)}>
+                    <select
+                      name={`people.${i}.menu`}
+                      defaultValue={person?.menu ?? "standard"}
+                      className={inputClass}
+                    >
+                      {MENUS.map((menu) => (
+                        <option key={menu} value={menu}>
+                          {m.rsvp.menus[menu]}
+                        </option>
+                      ))}
+                    </select>
+                  </Field>
+                </div>
+                <div className="flex flex-wrap gap-x-5 gap-y-2">
+                  {DIETS.map((diet) => (
+                    <label
+                      key={diet}
+                      className="flex items-center gap-2 text-serif-light text-xs tracking-[0.15em] font-normal"
+                    >
+                      <input
+                        type="checkbox"
+                        name={`people.${i}.diet`}
+                        value={diet}
+                        defaultChecked={person?.diet.includes(diet)}
+                        className="accent-primary"
+                      />
+                      {m.rsvp.diets[diet]}
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+            );
+          })}
+          <div className="flex gap-6">
+            {(["accommodation", "transport"] as const).map((need) => (
+              <label
+                key={need}
+                className="flex items-center gap-2 text-serif-light text-xs tracking-[0.15em] font-normal"
+              >
+                <input
+                  type="checkbox"
+                  name={need}
+                  defaultChecked={rsvp[need]}
+                  className="accent-primary"
+                />
+                {m.rsvp[need]}
+              </label>
+            ))}
+          </div>
+        </>
+      )}
+
+      <Field label="Mențiuni" error={error("notes")}>
+        <textarea
+          name="notes"
+          rows={3}
+          defaultValue={rsvp.notes}
+          className={`${inputClass} resize-none`}
+        />
+      </Field>
+
+      <div className="flex gap-4">
+        <button
+          type="submit"
+          disabled={pending}
+          className="flex-1 bg-primary rounded-xl px-6 py-3 text-serif-light text-xs tracking-[0.3em] !text-background hover:bg-primary-hover transition-colors cursor-pointer disabled:opacity-60 disabled:cursor-wait"
+        >
+          {pending ? "Se salvează…" : "Salvează"}
+        </button>
+        <button
+          type="submit"
+          formAction={removeRsvp.bind(null, rsvp.id)}
+          formNoValidate
+          onClick={(e) => {
+            if (!confirm(`Ștergeți răspunsul lui ${rsvp.name}?`)) e.preventDefault();
+          }}
+          className="border border-highlight/40 rounded-xl px-6 py-3 text-serif-light text-xs tracking-[0.3em] !text-highlight hover:bg-accent/20 transition-colors cursor-pointer"
+        >
+          Șterge
+        </button>
+      </div>
+    </form>
+  );
+}
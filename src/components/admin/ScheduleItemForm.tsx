@@ -0,0 +1,62 @@
+"use client";
+
+import { useActionState } from "react";
+import { moveScheduleItem, type ScheduleState } from "@/app/admin/actions";
+import { MAX_CHANGE_NOTE, type ScheduleChange } from "@/lib/schedule";
+
+const INITIAL: ScheduleState = {};
+
+const inputClass =
+  "bg-white/70 border border-primary/20 rounded-xl px-3 py-1.5 text-serif-light text-sm tracking-[0.1em] font-normal outline-none focus:border-primary/50 transition-colors";
+
+export function ScheduleItemForm({
+  slug,
+  item,
+  time,
+  change,
+}: {
+  slug: string;
+  item: number;
+  /* Time in the config */
+  time: string;
+  change?: ScheduleChange;
+}) {
+  const [state, action, saving] = useActionState(
+    moveScheduleItem.bind(null, slug, item),
+    INITIAL
+  );
+
+  return (
+    <form action={action} className="flex flex-wrap items-center gap-2">
+      <input
+        type="time"
+        name="time"
+        required
+        defaultValue={change?.time ?? time}
+        aria-label="Ora"
+        className={inputClass}
+      />
+      <input
+        type="text"
+        name="note"
+        maxLength={MAX_CHANGE_NOTE}
+        defaultValue={change?.note}
+        placeholder="Notă pentru invitați (opțional)"
+        aria-label="Notă pentru invitați"
+        className={`${inputClass} flex-1 min-w-48`}
+      />
+      <button
+        type="submit"
+        disabled={saving}
+        className="bg-primary rounded-xl px-4 py-1.5 text-serif-light text-[0.65rem] tracking-[0.2em] !text-background hover:bg-primary-hover transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-wait"
+      >
+        {saving ? "Se trimite…" : "Anunță"}
+      </button>
+      {state.error && (
+        <p className="w-full text-serif-light text-xs tracking-[0.15em] font-normal !text-highlight">
+          {state.error}
+        </p>
+      )}
+    </form>
+  );
+}
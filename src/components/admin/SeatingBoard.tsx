@@ -0,0 +1,362 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { saveSeating } from "@/app/admin/actions";
+import {
+  DEFAULT_CAPACITY,
+  MAX_CAPACITY,
+  MAX_TABLES,
+  seatingIssues,
+  tableLoads,
+  type Party,
+  type SeatingPlan,
+  type SeatingTable,
+} from "@/lib/seating";
+
+/* ================================================================
+   Seating board — confirmed responses are dragged from the list
+   of unseated guests onto tables, or moved with the table picker
+   on each card, which also works from the keyboard. Nothing is
+   stored until the plan is saved.
+   ================================================================ */
+
+type Draft = Pick<SeatingPlan, "tables" | "seats">;
+
+/* Drop zone key and picker value for "no table" */
+const UNSEATED = "";
+
+const inputClass =
+  "bg-white/60 border border-primary/20 rounded-xl px-3 py-2 text-sm text-primary outline-none focus:border-primary/50 transition-colors";
+
+const smallText = "text-serif-light text-xs tracking-[0.15em] font-normal";
+
+function formatTimestamp(iso: string) {
+  return new Intl.DateTimeFormat("ro-RO", {
+    dateStyle: "short",
+    timeStyle: "short",
+    timeZone: "Europe/Bucharest",
+  }).format(new Date(iso));
+}
+
+function PartyCard({
+  party,
+  tables,
+  tableId,
+  duplicate,
+  onSeat,
+  onDrag,
+}: {
+  party: Party;
+  tables: SeatingTable[];
+  tableId: string;
+  duplicate: boolean;
+  onSeat: (tableId: string) => void;
+  onDrag: (id: string | null) => void;
+}) {
+  return (
+    <li
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData("text/plain", party.id);
+        e.dataTransfer.effectAllowed = "move";
+        onDrag(party.id);
+      }}
+      onDragEnd={() => onDrag(null)}
+      className={`flex flex-col gap-2 bg-white/70 rounded-xl border px-3 py-2 cursor-grab active:cursor-grabbing ${
+        duplicate ? "border-highlight" : "border-primary/15"
+      }`}
+    >
+      <div className="flex items-baseline justify-between gap-2">
+        <span className="text-sm font-semibold text-primary">{party.name}</span>
+        <span className="text-xs text-primary/60 shrink-0">
+          {party.guests} pers.
+        </span>
+      </div>
+      {party.people.length > 0 && (
+        <p className="text-xs text-primary/60">{party.people.join(", ")}</p>
+      )}
+      <select
+        aria-label={`Masa pentru ${party.name}`}
+        value={tableId}
+        onChange={(e) => onSeat(e.target.value)}
+        className={`${inputClass} !py-1 !text-xs`}
+      >
+        <option value={UNSEATED}>Neașezat</option>
+        {tables.map((t) => (
+          <option key={t.id} value={t.id}>
+            Masa {t.number}
+          </option>
+        ))}
+      </select>
+    </li>
+  );
+}
+
+export function SeatingBoard({
+  slug,
+  parties,
+  plan,
+  stale,
+}: {
+  slug: string;
+  parties: Party[];
+  plan: SeatingPlan;
+  /* Saved seats of responses no longer confirmed, dropped on save */
+  stale: number;
+}) {
+  const [draft, setDraft] = useState<Draft>({ tables: plan.tables, seats: plan.seats });
+  const [dirty, setDirty] = useState(stale > 0);
+  const [savedAt, setSavedAt] = useState(plan.updatedAt);
+  const [error, setError] = useState<string>();
+  const [saving, startSaving] = useTransition();
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [over, setOver] = useState<string | null>(null);
+
+  /* Leaving with unsaved changes asks first */
+  useEffect(() => {
+    if (!dirty) return;
+    const warn = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener("beforeunload", warn);
+    return () => window.removeEventListener("beforeunload", warn);
+  }, [dirty]);
+
+  const change = (update: (d: Draft) => Draft) => {
+    setDraft(update);
+    setDirty(true);
+  };
+
+  const seat = (partyId: string, tableId: string) =>
+    change((d) => {
+      const seats = { ...d.seats };
+      if (tableId === UNSEATED) delete seats[partyId];
+      else seats[partyId] = tableId;
+      return { ...d, seats };
+    });
+
+  const addTable = () =>
+    change((d) => ({
+      ...d,
+      tables: [
+        ...d.tables,
+        {
+          id: crypto.randomUUID(),
+          number: Math.max(0, ...d.tables.map((t) => t.number)) + 1,
+          capacity: DEFAULT_CAPACITY,
+        },
+      ],
+    }));
+
+  const updateTable = (id: string, patch: Partial<SeatingTable>) =>
+    change((d) => ({
+      ...d,
+      tables: d.tables.map((t) => (t.id === id ? { ...t, ...patch } : t)),
+    }));
+
+  const removeTable = (id: string) =>
+    change((d) => ({
+      tables: d.tables.filter((t) => t.id !== id),
+      seats: Object.fromEntries(Object.entries(d.seats).filter(([, t]) => t !== id)),
+    }));
+
+  const save = () =>
+    startSaving(async () => {
+      const result = await saveSeating(slug, draft);
+      setError(result.error);
+      if (result.savedAt) {
+        setSavedAt(result.savedAt);
+        setDirty(false);
+      }
+    });
+
+  const dropZone = (key: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!dragging) return;
+      e.preventDefault();
+      setOver(key);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setOver(null);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      const id = e.dataTransfer.getData("text/plain");
+      if (id) seat(id, key);
+      setOver(null);
+      setDragging(null);
+    },
+  });
+
+  const loads = tableLoads(draft, parties);
+  const issues = seatingIssues(draft, parties);
+  const duplicated = new Set(issues.duplicates.flat().map((p) => p.id));
+  const people = (list: Party[]) => list.reduce((sum, p) => sum + p.guests, 0);
+  const headcount = people(parties);
+  const seats = draft.tables.reduce((sum, t) => sum + t.capacity, 0);
+  const card = (party: Party) => (
+    <PartyCard
+      key={party.id}
+      party={party}
+      tables={draft.tables}
+      tableId={draft.seats[party.id] ?? UNSEATED}
+      duplicate={duplicated.has(party.id)}
+      onSeat={(tableId) => seat(party.id, tableId)}
+      onDrag={setDragging}
+    />
+  );
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={addTable}
+          disabled={draft.tables.length >= MAX_TABLES}
+          className="border border-primary/30 rounded-xl px-5 py-2 text-serif-light text-xs tracking-[0.3em] hover:bg-accent/20 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Adaugă masă
+        </button>
+        <button
+          type="button"
+          onClick={save}
+          disabled={saving || !dirty}
+          className="bg-primary rounded-xl px-5 py-2 text-serif-light text-xs tracking-[0.3em] !text-background hover:bg-primary-hover transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? "Se salvează…" : "Salvează"}
+        </button>
+        <span role="status" className={`${smallText} opacity-70`}>
+          {dirty
+            ? "Modificări nesalvate"
+            : savedAt
+              ? `Salvat ${formatTimestamp(savedAt)}`
+              : "Niciun plan salvat"}
+        </span>
+        <span className="flex-1" />
+        <a
+          href={`/admin/seating/${slug}/seating.csv`}
+          className="border border-primary/30 rounded-xl px-5 py-2 text-serif-light text-xs tracking-[0.3em] hover:bg-accent/20 transition-colors"
+        >
+          Export CSV
+        </a>
+        <a
+          href={`/admin/seating/${slug}/seating.pdf`}
+          className="border border-primary/30 rounded-xl px-5 py-2 text-serif-light text-xs tracking-[0.3em] hover:bg-accent/20 transition-colors"
+        >
+          Export PDF
+        </a>
+      </div>
+
+      <div aria-live="polite" className="flex flex-col gap-1">
+        <p className={`${smallText} opacity-70`}>
+          {headcount} persoane confirmate · {headcount - people(issues.unseated)} așezate ·{" "}
+          {seats} locuri la {draft.tables.length} mese
+        </p>
+        {error && <p className={`${smallText} !text-highlight`}>{error}</p>}
+        {issues.overflow.map(({ table, load }) => (
+          <p key={table.id} className={`${smallText} !text-highlight`}>
+            Masa {table.number} are {load} persoane la {table.capacity} locuri
+          </p>
+        ))}
+        {issues.duplicates.map((group) => (
+          <p key={group[0].id} className={`${smallText} !text-highlight`}>
+            Aceeași invitație a răspuns de {group.length} ori și e așezată de{" "}
+            {group.length} ori: {group.map((p) => p.name).join(", ")}
+          </p>
+        ))}
+        {stale > 0 && dirty && (
+          <p className={`${smallText} opacity-70`}>
+            {stale === 1
+              ? "Un răspuns așezat nu mai este confirmat și iese din plan la salvare"
+              : `${stale} răspunsuri așezate nu mai sunt confirmate și ies din plan la salvare`}
+          </p>
+        )}
+      </div>
+
+      <div className="grid lg:grid-cols-[18rem_1fr] gap-6 items-start">
+        <section
+          {...dropZone(UNSEATED)}
+          aria-label="Neașezați"
+          className={`flex flex-col gap-3 rounded-2xl border bg-accent/15 p-4 lg:sticky lg:top-4 ${
+            over === UNSEATED ? "border-primary/50" : "border-accent/40"
+          }`}
+        >
+          <h2 className="text-serif-light text-xs tracking-[0.3em]">
+            Neașezați ({issues.unseated.length})
+          </h2>
+          <ul className="flex flex-col gap-2 min-h-16">{issues.unseated.map(card)}</ul>
+        </section>
+
+        {draft.tables.length === 0 ? (
+          <p className="text-serif-light text-sm tracking-[0.15em] font-normal opacity-60 text-center py-10">
+            Nicio masă — adăugați una ca să începeți
+          </p>
+        ) : (
+          <div className="grid sm:grid-cols-2 xl:grid-cols-3 gap-4">
+            {draft.tables.map((table) => {
+              const load = loads.get(table.id) ?? 0;
+              const full = load > table.capacity;
+              return (
+                <section
+                  key={table.id}
+                  {...dropZone(table.id)}
+                  aria-label={`Masa ${table.number}`}
+                  className={`flex flex-col gap-3 rounded-2xl border bg-white/40 p-4 ${
+                    over === table.id
+                      ? "border-primary/50"
+                      : full
+                        ? "border-highlight"
+                        : "border-primary/10"
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <label className="flex items-center gap-2 text-serif-light text-xs tracking-[0.15em]">
+                      Masa
+                      <input
+                        type="number"
+                        min={1}
+                        max={999}
+                        value={table.number || ""}
+                        onChange={(e) =>
+                          updateTable(table.id, { number: Number(e.target.value) })
+                        }
+                        className={`${inputClass} w-16 !py-1`}
+                      />
+                    </label>
+                    <label className="flex items-center gap-2 text-serif-light text-xs tracking-[0.15em] font-normal">
+                      Locuri
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_CAPACITY}
+                        value={table.capacity || ""}
+                        onChange={(e) =>
+                          updateTable(table.id, { capacity: Number(e.target.value) })
+                        }
+                        className={`${inputClass} w-16 !py-1`}
+                      />
+                    </label>
+                    <span
+                      className={`ml-auto text-sm ${full ? "text-highlight font-bold" : "text-primary/70"}`}
+                    >
+                      {load}/{table.capacity}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => removeTable(table.id)}
+                      aria-label={`Șterge masa ${table.number}`}
+                      className="text-primary/50 hover:text-highlight text-lg leading-none cursor-pointer"
+                    >
+                      <span aria-hidden>&times;</span>
+                    </button>
+                  </div>
+                  <ul className="flex flex-col gap-2 min-h-16">
+                    {parties.filter((p) => draft.seats[p.id] === table.id).map(card)}
+                  </ul>
+                </section>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
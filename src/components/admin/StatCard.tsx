@@ -0,0 +1,10 @@
+export function StatCard({ label, value }: { label: string; value: number }) {
+  return (
+    <div className="flex flex-col items-center gap-1 bg-accent/15 rounded-2xl px-4 py-5 border border-accent/40">
+      <span className="text-script text-3xl sm:text-4xl">{value}</span>
+      <span className="text-serif-light text-[0.65rem] tracking-[0.3em] opacity-70">
+        {label}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { useInView } from "framer-motion";
+import { useEffect, useRef } from "react";
+import type { MapViewProps } from "./types";
+
+/* ================================================================
+   Google Maps provider — the keyless embed can only pin one place,
+   so it shows the focused venue (or the first one). Clicking a
+   card still moves it; the venue list carries the rest.
+   ================================================================ */
+
+/* A blocked frame never fires `load`, so give up after a while.
+   The frame loads lazily, so the wait starts once it is in view */
+const LOAD_TIMEOUT = 10000;
+
+export function GoogleMap({
+  venues,
+  focused,
+  focusZoom,
+  onUnavailable,
+  title,
+  locale,
+}: MapViewProps) {
+  const venue = venues.find((v) => v.key === focused) ?? venues[0];
+  const { lat, lng } = venue.coordinates;
+  const src = `https://maps.google.com/maps?q=${lat},${lng}&hl=${locale}&z=${focusZoom}&output=embed`;
+
+  const frame = useRef<HTMLIFrameElement>(null);
+  const inView = useInView(frame, { once: true });
+  const loaded = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!inView) return;
+    const id = setTimeout(() => {
+      if (loaded.current !== src) onUnavailable();
+    }, LOAD_TIMEOUT);
+    return () => clearTimeout(id);
+  }, [inView, src, onUnavailable]);
+
+  return (
+    <iframe
+      key={src}
+      ref={frame}
+      title={title}
+      src={src}
+      width="100%"
+      height="450"
+      style={{ border: 0 }}
+      allowFullScreen
+      onLoad={() => (loaded.current = src)}
+      loading="lazy"
+      referrerPolicy="no-referrer-when-downgrade"
+    />
+  );
+}
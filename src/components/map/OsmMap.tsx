@@ -0,0 +1,188 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { fitView, project, TILE_SIZE } from "@/lib/maps";
+import type { MapViewProps } from "./types";
+
+/* ================================================================
+   OpenStreetMap provider — raster tiles and rose markers drawn
+   into one SVG, so every venue is visible at once without a map
+   library. The view is fitted to the container's measured size.
+   ================================================================ */
+
+const HEIGHT = 450;
+const PADDING = 70;
+
+function RosePin({
+  index,
+  active,
+  label,
+  onSelect,
+}: {
+  index: number;
+  active: boolean;
+  label: string;
+  onSelect: () => void;
+}) {
+  return (
+    <g
+      role="button"
+      tabIndex={0}
+      aria-label={label}
+      aria-pressed={active}
+      className="cursor-pointer outline-none"
+      onClick={onSelect}
+      onKeyDown={(e) => {
+        if (e.key === "Enter" || e.key === " ") {
+          e.preventDefault();
+          onSelect();
+        }
+      }}
+    >
+      <motion.g
+        animate={{ scale: active ? 1.25 : 1 }}
+        transition={{ duration: 0.3, ease: [0.22, 1.15, 0.36, 1] }}
+        style={{ originY: "100%" }}
+      >
+        <path
+          d="M0,0 C-5,-9 -15,-17 -15,-29 A15,15 0 1 1 15,-29 C15,-17 5,-9 0,0Z"
+          className={`stroke-background ${active ? "fill-primary" : "fill-highlight"}`}
+          strokeWidth="2"
+        />
+        <circle cy="-29" r="9" className="fill-accent" />
+        <text
+          y="-25"
+          textAnchor="middle"
+          fontSize="12"
+          fontWeight="700"
+          className="fill-primary"
+        >
+          {index + 1}
+        </text>
+      </motion.g>
+    </g>
+  );
+}
+
+export function OsmMap({
+  venues,
+  focused,
+  onFocus,
+  focusZoom,
+  onUnavailable,
+  title,
+  allVenuesLabel,
+}: MapViewProps) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState<number | null>(null);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) =>
+      setWidth(Math.round(entry.contentRect.width))
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const target = venues.find((v) => v.key === focused);
+  const view =
+    target || width === null
+      ? { center: (target ?? venues[0]).coordinates, zoom: focusZoom }
+      : fitView(
+          venues.map((v) => v.coordinates),
+          width - PADDING * 2,
+          HEIGHT - PADDING * 2,
+          focusZoom
+        );
+
+  const w = width ?? 0;
+  const c = project(view.center, view.zoom);
+  const origin = { x: c.x - w / 2, y: c.y - HEIGHT / 2 };
+  const count = 2 ** view.zoom;
+
+  const tiles: { key: string; x: number; y: number; href: string }[] = [];
+  for (let tx = Math.floor(origin.x / TILE_SIZE); tx * TILE_SIZE < origin.x + w; tx++) {
+    for (let ty = Math.floor(origin.y / TILE_SIZE); ty * TILE_SIZE < origin.y + HEIGHT; ty++) {
+      if (ty < 0 || ty >= count) continue;
+      const wrapped = ((tx % count) + count) % count;
+      tiles.push({
+        key: `${view.zoom}/${tx}/${ty}`,
+        x: tx * TILE_SIZE - origin.x,
+        y: ty * TILE_SIZE - origin.y,
+        href: `https://tile.openstreetmap.org/${view.zoom}/${wrapped}/${ty}.png`,
+      });
+    }
+  }
+
+  return (
+    <div ref={ref} className="relative w-full bg-background" style={{ height: HEIGHT }}>
+      {width !== null && (
+        <svg
+          width={w}
+          height={HEIGHT}
+          viewBox={`0 0 ${w} ${HEIGHT}`}
+          role="group"
+          aria-label={title}
+          className="block"
+        >
+          <AnimatePresence initial={false}>
+            <motion.g
+              key={`${view.zoom}:${view.center.lat}:${view.center.lng}`}
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              transition={{ duration: 0.5 }}
+            >
+              {tiles.map((t) => (
+                <image
+                  key={t.key}
+                  href={t.href}
+                  x={t.x}
+                  y={t.y}
+                  width={TILE_SIZE}
+                  height={TILE_SIZE}
+                  onError={onUnavailable}
+                />
+              ))}
+              <rect width={w} height={HEIGHT} className="fill-primary" opacity="0.08" />
+              {venues.map((v, i) => {
+                const p = project(v.coordinates, view.zoom);
+                return (
+                  <g key={v.key} transform={`translate(${p.x - origin.x},${p.y - origin.y})`}>
+                    <RosePin
+                      index={i}
+                      active={v.key === focused}
+                      label={`${v.label}: ${v.name}`}
+                      onSelect={() => onFocus(v.key === focused ? null : v.key)}
+                    />
+                  </g>
+                );
+              })}
+            </motion.g>
+          </AnimatePresence>
+        </svg>
+      )}
+
+      {focused && (
+        <button
+          type="button"
+          onClick={() => onFocus(null)}
+          className="absolute top-3 left-3 bg-background/90 border border-primary/20 rounded-xl px-4 py-2 text-serif-light text-xs tracking-[0.2em] hover:bg-white transition-colors cursor-pointer"
+        >
+          {allVenuesLabel}
+        </button>
+      )}
+
+      <p className="absolute bottom-0 right-0 bg-white/80 px-2 py-0.5 text-[10px] text-primary">
+        ©{" "}
+        <a href="https://www.openstreetmap.org/copyright" target="_blank" rel="noreferrer">
+          OpenStreetMap
+        </a>{" "}
+        contributors
+      </p>
+    </div>
+  );
+}
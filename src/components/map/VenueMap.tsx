@@ -0,0 +1,170 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { format, type Locale, type Messages } from "@/i18n";
+import { useConsent } from "@/lib/consent";
+import { deepLinks } from "@/lib/maps";
+import { useOnline } from "@/lib/offline";
+import type { MapProviderId } from "@/lib/wedding";
+import { GoogleMap } from "./GoogleMap";
+import { OsmMap } from "./OsmMap";
+import type { MapProvider, Venue } from "./types";
+
+/* ================================================================
+   Venue map — picks the configured provider, asks before loading
+   it, and falls back to a plain list of navigation links when the
+   visitor declines, is offline or the map can't be shown.
+   ================================================================ */
+
+const PROVIDERS: Record<MapProviderId, MapProvider> = {
+  osm: { name: "OpenStreetMap", Component: OsmMap },
+  google: { name: "Google Maps", Component: GoogleMap },
+};
+
+const HEIGHT = "h-[450px]";
+
+export function DeepLinks({
+  venue,
+  label,
+  className = "opacity-80",
+}: {
+  venue: Venue;
+  label: string;
+  className?: string;
+}) {
+  return (
+    <p className={`text-serif-light text-xs ${className}`}>
+      {label}{" "}
+      {deepLinks(venue.coordinates, `${venue.name}, ${venue.address}`).map((link, i) => (
+        <span key={link.app}>
+          {i > 0 && " · "}
+          <a
+            href={link.href}
+            target="_blank"
+            rel="noreferrer"
+            className="underline underline-offset-2 hover:text-highlight"
+          >
+            {link.label}
+          </a>
+        </span>
+      ))}
+    </p>
+  );
+}
+
+function VenueList({ venues, openIn }: { venues: Venue[]; openIn: string }) {
+  return (
+    <ol className="flex flex-col gap-4 text-left">
+      {venues.map((v, i) => (
+        <li key={v.key} className="flex gap-3">
+          <span className="text-script text-2xl text-highlight leading-none">{i + 1}</span>
+          <div className="flex flex-col gap-1">
+            <p className="text-serif-light text-sm font-semibold">
+              {v.label} — {v.name}
+            </p>
+            <p className="text-serif-light text-xs opacity-70">{v.address}</p>
+            <DeepLinks venue={v} label={openIn} />
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+const buttonClass =
+  "rounded-xl px-5 py-2.5 text-serif-light text-xs tracking-[0.2em] transition-colors cursor-pointer";
+
+export function VenueMap({
+  provider,
+  venues,
+  focused,
+  onFocus,
+  focusZoom,
+  locale,
+  title,
+  openIn,
+  messages,
+}: {
+  provider: MapProviderId;
+  venues: Venue[];
+  focused: string | null;
+  onFocus: (key: string | null) => void;
+  focusZoom: number;
+  locale: Locale;
+  title: string;
+  openIn: string;
+  messages: Messages["map"];
+}) {
+  const [consent, setConsent] = useConsent("maps");
+  const online = useOnline();
+  const [failed, setFailed] = useState(false);
+  const onUnavailable = useCallback(() => setFailed(true), []);
+  const { name, Component } = PROVIDERS[provider];
+
+  if (consent === undefined) {
+    return <div className={`${HEIGHT} bg-background`} aria-hidden />;
+  }
+
+  if (consent === null) {
+    return (
+      <div
+        className={`${HEIGHT} bg-background flex flex-col items-center justify-center gap-6 px-8 text-center`}
+      >
+        <p className="text-serif-light text-sm max-w-md">
+          {format(messages.consent, { provider: name })}
+        </p>
+        <div className="flex flex-wrap justify-center gap-3">
+          <button
+            type="button"
+            onClick={() => setConsent("granted")}
+            className={`${buttonClass} bg-primary text-background hover:bg-primary-hover`}
+          >
+            {messages.show}
+          </button>
+          <button
+            type="button"
+            onClick={() => setConsent("denied")}
+            className={`${buttonClass} border border-primary/30 hover:bg-white`}
+          >
+            {messages.decline}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (consent === "denied" || failed || !online) {
+    return (
+      <div className="bg-background p-8 sm:p-10 flex flex-col gap-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-serif-light text-sm opacity-80">
+            {!online ? messages.offline : failed ? messages.unavailable : messages.hidden}
+          </p>
+          {consent === "denied" && online && (
+            <button
+              type="button"
+              onClick={() => setConsent("granted")}
+              className={`${buttonClass} border border-primary/30 hover:bg-white`}
+            >
+              {messages.show}
+            </button>
+          )}
+        </div>
+        <VenueList venues={venues} openIn={openIn} />
+      </div>
+    );
+  }
+
+  return (
+    <Component
+      venues={venues}
+      focused={focused}
+      onFocus={onFocus}
+      focusZoom={focusZoom}
+      onUnavailable={onUnavailable}
+      title={title}
+      allVenuesLabel={messages.allVenues}
+      locale={locale}
+    />
+  );
+}
@@ -0,0 +1,32 @@
+import type { ComponentType } from "react";
+import type { Locale } from "@/i18n";
+import type { Coordinates } from "@/lib/wedding";
+
+export interface Venue {
+  key: string;
+  label: string;
+  name: string;
+  address: string;
+  coordinates: Coordinates;
+}
+
+export interface MapViewProps {
+  venues: Venue[];
+  /* Key of the venue in focus, or null to show them all */
+  focused: string | null;
+  onFocus: (key: string | null) => void;
+  /* Zoom used for a single venue */
+  focusZoom: number;
+  /* Called when the map cannot be shown (blocked, offline) */
+  onUnavailable: () => void;
+  title: string;
+  allVenuesLabel: string;
+  locale: Locale;
+}
+
+/* A map backend. Every provider loads third-party content, so the
+   visitor is asked before it is rendered. */
+export interface MapProvider {
+  name: string;
+  Component: ComponentType<MapViewProps>;
+}
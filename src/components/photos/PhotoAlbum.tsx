@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { motion } from "framer-motion";
+import { format, type Locale, type Messages } from "@/i18n";
+import type { GalleryPhoto } from "@/lib/gallery";
+import { photoImage, photoUrl, type Photo } from "@/lib/photos";
+import { Lightbox } from "../Lightbox";
+
+/* ================================================================
+   Shared album — the approved guest photos, opening in the same
+   lightbox as the couple's own gallery
+   ================================================================ */
+
+export function PhotoAlbum({
+  photos,
+  locale,
+  messages,
+  lightbox,
+}: {
+  photos: Photo[];
+  locale: Locale;
+  messages: Messages["photos"];
+  lightbox: Messages["story"];
+}) {
+  const [open, setOpen] = useState<number | null>(null);
+  const caption = (photo: Photo) =>
+    photo.uploader ? format(messages.by, { name: photo.uploader }) : messages.anonymous;
+  const gallery: GalleryPhoto[] = photos.map((p) => ({
+    image: photoImage(p),
+    alt: caption(p),
+  }));
+
+  if (photos.length === 0) {
+    return (
+      <p className="text-serif-light text-sm tracking-[0.15em] font-normal !text-white/60">
+        {messages.empty}
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <ul className="grid grid-cols-2 sm:grid-cols-3 gap-3 sm:gap-4 w-full">
+        {photos.map((photo, i) => (
+          <motion.li
+            key={photo.id}
+            initial={{ opacity: 0, y: 20 }}
+            whileInView={{ opacity: 1, y: 0 }}
+            viewport={{ once: true, margin: "-50px" }}
+            transition={{ duration: 0.6, ease: "easeOut", delay: (i % 3) * 0.1 }}
+          >
+            <button
+              type="button"
+              onClick={() => setOpen(i)}
+              aria-label={format(lightbox.open, { alt: caption(photo) })}
+              className="group block w-full aspect-square overflow-hidden rounded-2xl border border-accent/20 cursor-pointer"
+            >
+              {/* Thumbnails are already sized on upload */}
+              <Image
+                src={photoUrl(photo.id, "thumb")}
+                alt=""
+                width={photo.width}
+                height={photo.height}
+                placeholder="blur"
+                blurDataURL={photo.blurDataURL}
+                unoptimized
+                className="h-full w-full object-cover transition-transform duration-700 group-hover:scale-105"
+              />
+            </button>
+          </motion.li>
+        ))}
+      </ul>
+
+      <Lightbox
+        photos={gallery}
+        index={open}
+        onIndexChange={setOpen}
+        onClose={() => setOpen(null)}
+        locale={locale}
+        messages={lightbox}
+      />
+    </>
+  );
+}
@@ -0,0 +1,211 @@
+"use client";
+
+import { useId, useState } from "react";
+import { uploadPhoto } from "@/app/actions";
+import { format, plural, type Locale, type Messages } from "@/i18n";
+import { isNetworkError, useOutbox } from "@/lib/offline";
+import {
+  checkPhotoFile,
+  MAX_PHOTO_BYTES,
+  PHOTO_TYPES,
+  type PhotoErrorCode,
+} from "@/lib/photos";
+
+/* ================================================================
+   Photo upload — guests pick any number of images, which are
+   checked here first and then sent one at a time, so a large
+   selection never hits the request size limit and every file
+   reports its own outcome. Without signal, files wait in the
+   outbox and go out once the connection is back.
+   ================================================================ */
+
+type UploadStatus =
+  | "queued"
+  | "uploading"
+  | "offline"
+  | "done"
+  | PhotoErrorCode
+  | "failed";
+
+interface Upload {
+  key: string;
+  file: File;
+  status: UploadStatus;
+}
+
+const inputClass =
+  "w-full bg-accent/10 backdrop-blur-sm border border-accent/20 rounded-xl px-4 py-3 text-serif-light text-sm tracking-[0.1em] font-normal text-white placeholder:text-white/30 outline-none focus:border-accent/50 transition-colors";
+
+const labelClass = "text-serif-light text-xs tracking-[0.3em] !text-white/70";
+
+export function PhotoUpload({
+  wedding,
+  invite,
+  code,
+  uploader: initialUploader = "",
+  locale,
+  messages,
+}: {
+  wedding: string;
+  /* Whichever credential opened the album, sent along with each file */
+  invite?: string;
+  code?: string;
+  uploader?: string;
+  locale: Locale;
+  messages: Messages["photos"];
+}) {
+  const id = useId();
+  const [uploader, setUploader] = useState(initialUploader);
+  const [uploads, setUploads] = useState<Upload[]>([]);
+  const [busy, setBusy] = useState(false);
+  const queued = uploads.filter((u) => u.status === "queued");
+
+  const setStatus = (key: string, status: UploadStatus) =>
+    setUploads((all) => all.map((u) => (u.key === key ? { ...u, status } : u)));
+
+  const add = (files: FileList | null) => {
+    const picked = [...(files ?? [])].map((file, i) => ({
+      key: `${Date.now()}-${i}-${file.name}`,
+      file,
+      status: checkPhotoFile(file) ?? ("queued" as UploadStatus),
+    }));
+    setUploads((all) => [...all.filter((u) => u.status !== "done"), ...picked]);
+  };
+
+  /* Files queued on an earlier visit report back only if still listed */
+  const outbox = useOutbox("photo", async (formData, key) => {
+    const result = await uploadPhoto(formData);
+    setStatus(key, result.ok ? "done" : result.error);
+  });
+
+  const send = async () => {
+    setBusy(true);
+    for (const upload of queued) {
+      setStatus(upload.key, "uploading");
+      const formData = new FormData();
+      formData.set("wedding", wedding);
+      if (invite) formData.set("invite", invite);
+      if (code) formData.set("code", code);
+      formData.set("uploader", uploader);
+      formData.set("photo", upload.file);
+      try {
+        if (!navigator.onLine) throw new TypeError("Offline");
+        const result = await uploadPhoto(formData);
+        setStatus(upload.key, result.ok ? "done" : result.error);
+      } catch (err) {
+        if (!isNetworkError(err)) {
+          setStatus(upload.key, "failed");
+          continue;
+        }
+        try {
+          await outbox.enqueue(upload.key, formData);
+          setStatus(upload.key, "offline");
+        } catch {
+          setStatus(upload.key, "failed");
+        }
+      }
+    }
+    setBusy(false);
+  };
+
+  const statusText = (status: UploadStatus) =>
+    status === "queued" || status === "uploading" || status === "offline" || status === "done"
+      ? messages.status[status]
+      : messages.errors[status];
+
+  return (
+    <form
+      className="flex flex-col gap-6 w-full text-left"
+      onSubmit={(e) => {
+        e.preventDefault();
+        send();
+      }}
+    >
+      <div className="flex flex-col gap-2">
+        <label htmlFor={`${id}-uploader`} className={labelClass}>
+          {messages.uploader}
+        </label>
+        <input
+          id={`${id}-uploader`}
+          type="text"
+          autoComplete="name"
+          maxLength={120}
+          value={uploader}
+          onChange={(e) => setUploader(e.target.value)}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <label
+          htmlFor={`${id}-files`}
+          className="flex flex-col items-center gap-2 bg-accent/10 backdrop-blur-sm border border-dashed border-accent/40 rounded-2xl px-6 py-8 cursor-pointer hover:bg-accent/20 focus-within:border-accent/70 transition-colors text-center"
+        >
+          <span className="text-script text-2xl !text-white">{messages.choose}</span>
+          <span className="text-serif-light text-xs tracking-[0.15em] font-normal !text-white/60">
+            {format(messages.hint, { size: MAX_PHOTO_BYTES / 1024 / 1024 })}
+          </span>
+          <input
+            id={`${id}-files`}
+            type="file"
+            multiple
+            accept={PHOTO_TYPES.join(",")}
+            disabled={busy}
+            onChange={(e) => {
+              add(e.target.files);
+              e.target.value = "";
+            }}
+            className="sr-only"
+          />
+        </label>
+      </div>
+
+      {uploads.length > 0 && (
+        <ul className="flex flex-col gap-2" aria-live="polite">
+          {uploads.map((u) => (
+            <li
+              key={u.key}
+              className="flex items-center justify-between gap-4 bg-accent/10 border border-accent/20 rounded-xl px-4 py-3"
+            >
+              <span className="text-serif-light text-sm tracking-[0.05em] font-normal !text-white truncate">
+                {u.file.name}
+              </span>
+              <span className="flex items-center gap-3 shrink-0">
+                <span
+                  className={`text-serif-light text-xs tracking-[0.1em] font-normal ${
+                    u.status in messages.errors ? "!text-accent" : "!text-white/60"
+                  }`}
+                >
+                  {statusText(u.status)}
+                </span>
+                {u.status !== "uploading" && u.status !== "offline" && u.status !== "done" && (
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => setUploads((all) => all.filter((x) => x.key !== u.key))}
+                    aria-label={format(messages.remove, { name: u.file.name })}
+                    className="text-white/60 hover:text-white text-lg leading-none cursor-pointer disabled:opacity-40"
+                  >
+                    <span aria-hidden>&times;</span>
+                  </button>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        type="submit"
+        disabled={busy || queued.length === 0}
+        className="w-full bg-accent text-primary rounded-xl px-6 py-4 text-serif-light text-sm tracking-[0.3em] uppercase hover:bg-accent-hover transition-colors cursor-pointer font-bold disabled:opacity-60 disabled:cursor-default"
+      >
+        {busy
+          ? messages.uploading
+          : queued.length > 0
+            ? plural(locale, queued.length, messages.upload)
+            : messages.choose}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,85 @@
+import { RoseCluster, SmallRoseIcon } from "@/components/Roses";
+import type { WeddingConfig } from "@/lib/wedding";
+import { PrintSheet } from "./PrintSheet";
+
+/* ================================================================
+   Place cards and table numbers, laid out on A4 sheets with
+   dashed cutting lines: ten place cards or four table cards to
+   a sheet.
+   ================================================================ */
+
+const PLACE_CARDS_PER_SHEET = 10;
+const TABLE_CARDS_PER_SHEET = 4;
+
+function sheets<T>(items: T[], size: number) {
+  return Array.from({ length: Math.ceil(items.length / size) }, (_, i) =>
+    items.slice(i * size, (i + 1) * size)
+  );
+}
+
+export function PlaceCards({
+  config,
+  cards,
+}: {
+  config: WeddingConfig;
+  cards: { name: string; table?: number }[];
+}) {
+  return sheets(cards, PLACE_CARDS_PER_SHEET).map((page, i) => (
+    <PrintSheet
+      key={i}
+      config={config}
+      paper="a4"
+      className="grid grid-cols-2 content-start w-[190mm] h-[277mm]"
+    >
+      {page.map(({ name, table }, j) => (
+        <div
+          key={j}
+          className="flex flex-col items-center justify-center gap-[2mm] h-[55mm] px-[6mm] border border-dashed border-primary/25 text-center"
+        >
+          <SmallRoseIcon size={22} />
+          <p
+            className={`text-script leading-tight ${
+              name.length > 22 ? "text-[7mm]" : "text-[9mm]"
+            }`}
+          >
+            {name}
+          </p>
+          <div className="w-[30mm] h-px bg-primary/25" />
+          {table !== undefined && (
+            <p className="text-serif-light text-[3mm] tracking-[0.3em]">Masa {table}</p>
+          )}
+        </div>
+      ))}
+    </PrintSheet>
+  ));
+}
+
+export function TableCards({
+  config,
+  tables,
+  label,
+}: {
+  config: WeddingConfig;
+  tables: number[];
+  label: string;
+}) {
+  return sheets(tables, TABLE_CARDS_PER_SHEET).map((page, i) => (
+    <PrintSheet
+      key={i}
+      config={config}
+      paper="a4"
+      className="grid grid-cols-2 content-start w-[190mm] h-[277mm]"
+    >
+      {page.map((table) => (
+        <div
+          key={table}
+          className="flex flex-col items-center justify-center gap-[4mm] h-[138mm] border border-dashed border-primary/25 text-center"
+        >
+          <RoseCluster />
+          <p className="text-serif-light text-[4mm] tracking-[0.3em]">{label}</p>
+          <p className="text-script text-[30mm] leading-none">{table}</p>
+        </div>
+      ))}
+    </PrintSheet>
+  ));
+}
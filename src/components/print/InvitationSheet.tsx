@@ -0,0 +1,83 @@
+import { RoseCluster, RoseDivider } from "@/components/Roses";
+import { format, getMessages, type Locale } from "@/i18n";
+import { minutesOf } from "@/lib/time";
+import {
+  coupleNames,
+  eventLabel,
+  formatDate,
+  formatTime,
+  type WeddingConfig,
+} from "@/lib/wedding";
+import { PrintSheet } from "./PrintSheet";
+
+/* ================================================================
+   The invitation on an A5 sheet — the hero's roses and names
+   above the invitation text, the date and every venue
+   ================================================================ */
+
+const lead = "text-serif-light text-[3.4mm] tracking-[0.15em] leading-relaxed";
+const name = "text-serif-light text-[4.4mm] tracking-[0.05em] normal-case leading-snug";
+
+export function InvitationSheet({
+  config,
+  locale,
+}: {
+  config: WeddingConfig;
+  locale: Locale;
+}) {
+  const m = getMessages(locale);
+  const events = [...config.events].sort((a, b) => minutesOf(a.time) - minutesOf(b.time));
+
+  return (
+    <PrintSheet
+      config={config}
+      paper="a5"
+      className="flex flex-col items-center justify-between gap-[4mm] w-[148mm] h-[210mm] px-[12mm] py-[12mm] text-center overflow-hidden"
+    >
+      <header className="flex flex-col items-center gap-[3mm]">
+        <div className="flex items-start gap-[8mm]">
+          <RoseCluster />
+          <RoseCluster mirror />
+        </div>
+        <h1 className="text-script text-[14mm] leading-tight">{coupleNames(config)}</h1>
+        <RoseDivider />
+      </header>
+
+      <div className="flex flex-col items-center gap-[3mm]">
+        <p className={lead}>{m.invitation.before}</p>
+        <div>
+          {config.family.parents.map((p) => (
+            <p key={p} className={name}>{p}</p>
+          ))}
+        </div>
+        <p className={lead}>{m.invitation.godparents}</p>
+        <div>
+          {config.family.godparents.map((p) => (
+            <p key={p} className={name}>{p}</p>
+          ))}
+        </div>
+        <p className={lead}>{m.invitation.after}</p>
+      </div>
+
+      <RoseDivider />
+
+      <footer className="flex flex-col items-center gap-[4mm]">
+        <p className="text-serif-light text-[5.4mm] tracking-[0.2em]">
+          {formatDate(config.date, config.timeZone, locale)}
+        </p>
+        {events.map((event) => (
+          <div key={event.kind} className="flex flex-col items-center gap-[0.5mm]">
+            <p className="text-serif-light text-[2.8mm] tracking-[0.3em] opacity-70">
+              {eventLabel(event, locale, m.events)}
+            </p>
+            <p className={name}>{event.venue}</p>
+            <p className="text-serif-light text-[3mm] tracking-[0.05em] normal-case font-normal opacity-80">
+              {event.address} ·{" "}
+              {format(m.locations.time, { time: formatTime(event.time, locale) })}
+            </p>
+          </div>
+        ))}
+      </footer>
+    </PrintSheet>
+  );
+}
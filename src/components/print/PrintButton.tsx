@@ -0,0 +1,13 @@
+"use client";
+
+export function PrintButton({ children }: { children: React.ReactNode }) {
+  return (
+    <button
+      type="button"
+      onClick={() => window.print()}
+      className="bg-primary rounded-xl px-5 py-2 text-serif-light text-xs tracking-[0.3em] !text-background hover:bg-primary-hover transition-colors cursor-pointer"
+    >
+      {children}
+    </button>
+  );
+}
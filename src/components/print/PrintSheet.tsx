@@ -0,0 +1,33 @@
+import { fontVariables } from "@/app/fonts";
+import { FlowerProvider } from "@/components/Flower";
+import { resolveTheme, themeStyle } from "@/lib/themes";
+import type { WeddingConfig } from "@/lib/wedding";
+
+/* ================================================================
+   Print sheet — one sheet of paper in the wedding's theme, with
+   every rose drawn fully open. `paper` names the @page rule in
+   globals.css that sets its size for the print dialog.
+   ================================================================ */
+
+export function PrintSheet({
+  config,
+  paper,
+  className = "",
+  children,
+}: {
+  config: WeddingConfig;
+  paper: "a5" | "a4";
+  className?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <FlowerProvider flower={config.flower} still>
+      <article
+        className={`print-sheet print-sheet-${paper} ${fontVariables} bg-background shadow-xl print:shadow-none ${className}`}
+        style={themeStyle(resolveTheme(config.theme))}
+      >
+        {children}
+      </article>
+    </FlowerProvider>
+  );
+}
@@ -0,0 +1,12 @@
+import { validateGallery, type GalleryPhoto } from "@/lib/gallery";
+import mariaAndrei from "./maria-andrei";
+
+/* Photo galleries, keyed by wedding slug. Weddings without one
+   only show their story timeline, or no story section at all. */
+const galleries: Record<string, GalleryPhoto[]> = {
+  "maria-andrei": validateGallery(mariaAndrei, "galleries/maria-andrei"),
+};
+
+export function galleryOf(slug: string): GalleryPhoto[] {
+  return galleries[slug] ?? [];
+}
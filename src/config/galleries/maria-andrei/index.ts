@@ -0,0 +1,20 @@
+import buchet from "./buchet.jpg";
+import gradina from "./gradina.jpg";
+import trandafiri from "./trandafiri.jpg";
+
+const gallery = [
+  {
+    image: trandafiri,
+    alt: { ro: "Trandafirii din grădina bunicii", en: "The roses in grandma's garden" },
+  },
+  {
+    image: buchet,
+    alt: { ro: "Buchetul de la logodnă", en: "The engagement bouquet" },
+  },
+  {
+    image: gradina,
+    alt: { ro: "Prima noastră vară împreună", en: "Our first summer together" },
+  },
+];
+
+export default gallery;
@@ -0,0 +1,58 @@
+import { validateGuestList, type Guest } from "@/lib/guests";
+import { validateWeddingConfig, WeddingConfigError } from "@/lib/wedding";
+import mariaAndrei from "./weddings/maria-andrei.json";
+import mariaAndreiGuests from "./guests/maria-andrei.json";
+import ioanaMihai from "./weddings/ioana-mihai.json";
+import ioanaMihaiGuests from "./guests/ioana-mihai.json";
+
+/* Every wedding served by this deployment. Add new couples here. */
+export const weddings = [mariaAndrei, ioanaMihai].map(validateWeddingConfig);
+
+const bySlug = new Map(weddings.map((w) => [w.slug, w]));
+if (bySlug.size !== weddings.length) {
+  throw new WeddingConfigError(["two weddings share the same slug"]);
+}
+
+/* Guest lists, keyed by wedding slug. Server-only: they hold every token. */
+const guestLists: Record<string, Guest[]> = {
+  "maria-andrei": validateGuestList(mariaAndreiGuests, "guests/maria-andrei"),
+  "ioana-mihai": validateGuestList(ioanaMihaiGuests, "guests/ioana-mihai"),
+};
+
+export function getWedding(slug: string) {
+  return bySlug.get(slug);
+}
+
+/* Wedding served at "/" */
+export function defaultWedding() {
+  return getWedding(process.env.DEFAULT_WEDDING ?? "") ?? weddings[0];
+}
+
+export function guestsOf(slug: string): Guest[] {
+  return guestLists[slug] ?? [];
+}
+
+export function findGuest(slug: string, token: string) {
+  return guestsOf(slug).find((g) => g.token === token);
+}
+
+/* Who may open a wedding's photo album: invited guests through
+   their token, anyone else with the couple's shared album code.
+   Undefined when neither checks out. */
+export function albumAccess(
+  slug: string,
+  { invite, code }: { invite?: string; code?: string }
+): { guest?: Guest } | undefined {
+  const guest = invite ? findGuest(slug, invite) : undefined;
+  if (guest) return { guest };
+  const albumCode = getWedding(slug)?.albumCode;
+  if (albumCode && code?.trim().toLowerCase() === albumCode.toLowerCase()) return {};
+  return undefined;
+}
+
+/* The DJ's read-only view of the song requests, opened with the
+   wedding's djCode */
+export function djAccess(slug: string, code?: string) {
+  const djCode = getWedding(slug)?.djCode;
+  return Boolean(djCode && code?.trim().toLowerCase() === djCode.toLowerCase());
+}
@@ -0,0 +1,29 @@
+/* ================================================================
+   Supported locales
+
+   To add a language: append it to LOCALES, give it an Intl tag
+   and a display name below, and add a catalog in ./messages
+   typed as `Messages` — a missing key is then a type error,
+   which fails `next build`.
+   ================================================================ */
+
+export const LOCALES = ["ro", "en"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "ro";
+
+/* Tags handed to Intl for dates, times and plurals */
+export const INTL_LOCALES: Record<Locale, string> = {
+  ro: "ro-RO",
+  en: "en-US",
+};
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+  ro: "Română",
+  en: "English",
+};
+
+export function isLocale(value: string): value is Locale {
+  return (LOCALES as readonly string[]).includes(value);
+}
@@ -0,0 +1,40 @@
+import { DEFAULT_LOCALE, INTL_LOCALES, type Locale } from "./config";
+import en from "./messages/en";
+import ro, { type Messages } from "./messages/ro";
+
+export * from "./config";
+export type { Messages };
+
+const catalogs: Record<Locale, Messages> = { ro, en };
+
+export function getMessages(locale: Locale): Messages {
+  return catalogs[locale] ?? catalogs[DEFAULT_LOCALE];
+}
+
+/* Fills "{name}" placeholders */
+export function format(
+  template: string,
+  values: Record<string, string | number>
+) {
+  return template.replace(/\{(\w+)\}/g, (m, key: string) =>
+    key in values ? String(values[key]) : m
+  );
+}
+
+export type PluralForms = { one: string; few?: string; other: string };
+
+/* Picks the plural form for `count` per the locale's rules */
+export function plural(locale: Locale, count: number, forms: PluralForms) {
+  const category = new Intl.PluralRules(INTL_LOCALES[locale]).select(count);
+  const template =
+    category === "one" ? forms.one : category === "few" ? forms.few ?? forms.other : forms.other;
+  return format(template, { count });
+}
+
+/* Config text that is either a plain string or translated per locale */
+export type Localized = string | { [L in Locale]?: string };
+
+export function localize(text: Localized, locale: Locale) {
+  if (typeof text === "string") return text;
+  return text[locale] ?? text[DEFAULT_LOCALE] ?? "";
+}
@@ -0,0 +1,292 @@
+import type { Messages } from "./ro";
+
+const en: Messages = {
+  meta: {
+    description: "We invite you to our wedding",
+  },
+  hero: {
+    languageSwitcher: "Language",
+  },
+  countdown: {
+    label: "Time left until the wedding",
+    days: { one: "day", few: "days", other: "days" },
+    hours: { one: "hour", few: "hours", other: "hours" },
+    minutes: { one: "minute", few: "minutes", other: "minutes" },
+    seconds: { one: "second", few: "seconds", other: "seconds" },
+    today: "Today is the day!",
+    after: "Thank you for celebrating with us!",
+  },
+  invitation: {
+    for: "Invitation for",
+    before: "Together with our parents,",
+    godparents: "and our godparents,",
+    after:
+      "we warmly invite you to join us on the most important day of our lives",
+    and: "and",
+    table: "Your table: {table}",
+  },
+  story: {
+    title: "Our story",
+    gallery: "Photos",
+    open: "Open photo: {alt}",
+    close: "Close",
+    previous: "Previous photo",
+    next: "Next photo",
+    counter: "{n} of {total}",
+  },
+  locations: {
+    title: "Locations",
+    time: "At {time}",
+    mapTitle: "Wedding locations",
+    viewOnMap: "View on map",
+    openIn: "Open in",
+  },
+  map: {
+    consent: "The map is loaded from {provider}, which may receive your IP address and use cookies.",
+    show: "Show map",
+    decline: "No, thanks",
+    allVenues: "All locations",
+    hidden: "The map is hidden.",
+    offline: "You're offline, so the map can't load. The addresses and navigation links are below.",
+    unavailable: "The map can't be loaded right now.",
+  },
+  analytics: {
+    title: "Statistics",
+    consent: "May we count how far guests get through the invitation? The numbers stay with us: no cookies and no third-party services.",
+    allow: "Sure",
+    decline: "No, thanks",
+  },
+  schedule: {
+    title: "Schedule",
+    now: "Now",
+    next: "Up next",
+    moved: "Moved from {time}",
+    updated: "The schedule has changed",
+  },
+  rsvp: {
+    title: "RSVP",
+    deadline: "Please let us know if you can attend by {date}",
+    name: "Full name",
+    namePlaceholder: "e.g. Maria Popescu",
+    email: "Email",
+    emailPlaceholder: "Optional — we'll send you a confirmation",
+    guests: "Number of guests",
+    attendance: "Attendance",
+    attendanceYes: "Joyfully accept",
+    attendanceNo: "Regretfully decline",
+    person: "Guest {n}",
+    personName: "Name",
+    menu: "Menu",
+    menus: {
+      standard: "Standard",
+      vegetarian: "Vegetarian",
+      kids: "Kids",
+    },
+    diet: "Dietary restrictions",
+    diets: {
+      gluten: "Gluten-free",
+      lactose: "Lactose-free",
+      nuts: "Nut allergy",
+      seafood: "Seafood allergy",
+    },
+    needs: "We'll need",
+    accommodation: "Accommodation",
+    transport: "Transport",
+    notes: "Other notes",
+    notesPlaceholder: "Optional",
+    song: "A song for the party (optional)",
+    fewerGuests: "Fewer guests",
+    moreGuests: "More guests",
+    errorSummary: "Please check the highlighted fields and submit again.",
+    failed: "Your answer could not be saved. Please try again in a moment.",
+    submit: "Send RSVP",
+    pending: "Sending…",
+    queued:
+      "You're offline. Your answer is saved on this device and will be sent by itself once you're back online.",
+    thanks: "Thank you, {name}!",
+    confirmed: {
+      one: "We have your RSVP for {count} guest. See you at the wedding!",
+      few: "We have your RSVP for {count} guests. See you at the wedding!",
+      other: "We have your RSVP for {count} guests. See you at the wedding!",
+    },
+    declined:
+      "We are sorry you can't be with us. Thank you for letting us know.",
+    errors: {
+      required: "Please fill in this field",
+      tooLong: "This text is too long",
+      range: "The number of guests must be between {min} and {max}",
+      choice: "Please choose an option",
+      email: "This email address doesn't look right",
+    },
+  },
+  photos: {
+    title: "Wedding album",
+    intro: "Caught a lovely moment? Share your photos with us and the other guests.",
+    link: "Photo album",
+    code: "Album code",
+    codeHint: "You'll find it on the invitation, or ask the couple.",
+    open: "Open the album",
+    wrongCode: "That code isn't right.",
+    closed: "Photo uploads open on the wedding day, {date}.",
+    uploader: "Your name",
+    choose: "Choose photos",
+    hint: "JPEG, PNG or WebP, up to {size} MB each",
+    upload: {
+      one: "Upload {count} photo",
+      few: "Upload {count} photos",
+      other: "Upload {count} photos",
+    },
+    uploading: "Uploading…",
+    remove: "Remove {name}",
+    status: {
+      queued: "Waiting",
+      uploading: "Uploading",
+      offline: "Saved — sends once you're back online",
+      done: "Sent — shows up once the couple approves it",
+    },
+    errors: {
+      type: "Unsupported format",
+      size: "The file is too large",
+      unreadable: "The image can't be read",
+      closed: "The album isn't open yet",
+      access: "Your album access is no longer valid",
+      rate: "You have sent many photos in the last hour. Please try again later",
+      failed: "The upload failed, please try again",
+    },
+    album: "Guests' photos",
+    empty: "No photos yet. Be the first to add one!",
+    by: "Photo from {name}",
+    anonymous: "Photo from a guest",
+    back: "Back to the invitation",
+  },
+  calendar: {
+    name: "{names}'s wedding",
+    add: "Add to calendar",
+    addDay: "Add the whole day to your calendar",
+  },
+  events: {
+    civil: "Civil Ceremony",
+    religious: "Religious Ceremony",
+    party: "Reception",
+  },
+  guestbook: {
+    title: "Wishes for the couple",
+    intro: "Leave us a kind word. We will read every one and keep them all.",
+    name: "Your name",
+    text: "Your wish",
+    submit: "Send your wish",
+    sending: "Sending…",
+    sent: "Thank you! Your wish will appear here once the couple has read it.",
+    another: "Write another",
+    empty: "No wishes yet. Be the first to write one!",
+    page: "Page {page} of {pages}",
+    previous: "Newer wishes",
+    next: "Older wishes",
+    errors: {
+      name: "Please write your name",
+      text: "Please write your wish, at most 600 characters",
+      links: "Wishes can't contain links",
+      language: "Please rephrase without coarse language",
+      rate: "You have sent several wishes in the last few minutes. Please try again a little later",
+      failed: "Sending failed, please try again",
+    },
+  },
+  songs: {
+    title: "Party music",
+    intro: "Which song gets you dancing at {venue}? Suggest it or vote for other guests' picks, and the DJ will play the favourites.",
+    songTitle: "Song title",
+    artist: "Artist",
+    name: "Your name (optional)",
+    suggest: "Suggest the song",
+    suggesting: "Sending…",
+    empty: "No suggestions yet. Open the dance floor!",
+    vote: "Vote for {song}",
+    unvote: "Take back your vote for {song}",
+    votes: { one: "{count} vote", few: "{count} votes", other: "{count} votes" },
+    closed: "The party is over. Thank you for the music!",
+    dj: {
+      title: "DJ's list",
+      code: "DJ code",
+      codeHint: "You get it from the couple.",
+      open: "Open the list",
+      wrongCode: "The code is not correct.",
+      rank: "Rank",
+      csv: "Export CSV",
+      m3u: "M3U playlist",
+      refresh: "Reload the page for new votes.",
+    },
+    errors: {
+      title: "Please write the song title",
+      artist: "Please write the artist",
+      closed: "The party is over",
+      voter: "Your vote could not be recorded from this browser",
+      unknown: "The song is no longer on the list",
+      rate: "Too many tries, please come back in a few minutes",
+      failed: "Sending failed, please try again",
+    },
+  },
+  gifts: {
+    title: "Gifts",
+    transfer: "Bank transfer",
+    holder: "Account holder",
+    iban: "IBAN",
+    bic: "BIC",
+    bank: "Bank",
+    copy: "Copy {what}",
+    copied: "Copied: {what}",
+    qr: "Scan the code with your banking app for a SEPA transfer in euro",
+    remittance: "Wedding gift {names}",
+    revolut: "Send with Revolut",
+    registry: "Gift registry",
+    registryHint: "Reserve a gift so nobody else buys it too. Only the couple sees who reserved it.",
+    view: "View item",
+    reserve: "Reserve",
+    reserving: "Reserving…",
+    reserved: "Reserved",
+    yours: "Reserved by you",
+    name: "Your name",
+    anonymous: "Reserve anonymously",
+    confirm: "Confirm reservation",
+    cancel: "Cancel",
+    errors: {
+      taken: "Someone has just reserved it",
+      name: "Enter your name or choose to reserve anonymously",
+      nameOnly: "Enter your name",
+      unknown: "This gift is no longer on the list",
+      rate: "You have already reserved several gifts, please try again later",
+      failed: "The reservation failed, please try again",
+    },
+  },
+  email: {
+    confirmationSubject: "Your RSVP — {names}'s wedding",
+    greeting: "Dear {name},",
+    thanksYes: "Thank you for letting us know you'll be there! Here is what we have:",
+    thanksNo: "Thank you for your reply. We are sorry you can't be with us.",
+    details: "Where and when",
+    calendar: "The day's schedule is attached as a calendar file.",
+    signature: "With love,",
+    reminderSubject: "Will you join us? — {names}'s wedding",
+    reminder:
+      "We would love to know by {date} whether you can join us for our wedding in {city}.",
+    reminderAction: "RSVP now",
+  },
+  print: {
+    seating: "Seating plan · {date}",
+    table: "Table {number}",
+    seats: "{load} / {capacity} seats",
+    unseated: "No table yet",
+    people: {
+      one: "{count} guest",
+      few: "{count} guests",
+      other: "{count} guests",
+    },
+    wishes: "Wishes from our guests · {date}",
+  },
+  notFound: {
+    title: "Page not found",
+    body: "We couldn't find the invitation you are looking for. Please check the link you received or contact the couple.",
+    back: "Back",
+  },
+};
+
+export default en;
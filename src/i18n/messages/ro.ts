@@ -0,0 +1,295 @@
+/* Source catalog — every other locale must provide the same keys */
+const ro = {
+  meta: {
+    description: "Vă invităm la nunta noastră",
+  },
+  hero: {
+    languageSwitcher: "Limba",
+  },
+  countdown: {
+    label: "Timp rămas până la nuntă",
+    days: { one: "zi", few: "zile", other: "de zile" },
+    hours: { one: "oră", few: "ore", other: "de ore" },
+    minutes: { one: "minut", few: "minute", other: "de minute" },
+    seconds: { one: "secundă", few: "secunde", other: "de secunde" },
+    today: "Astăzi este ziua cea mare!",
+    after: "Vă mulțumim că ați fost alături de noi!",
+  },
+  invitation: {
+    for: "Invitație pentru",
+    /* {parents} and {godparents} are rendered as bold name lists */
+    before: "Împreună cu părinții noștri,",
+    godparents: "și nașii noștri,",
+    after:
+      "vă invităm cu drag să ne fiți alături în cea mai importantă zi din viața noastră",
+    and: "și",
+    table: "Masa dumneavoastră: {table}",
+  },
+  story: {
+    title: "Povestea noastră",
+    gallery: "Fotografii",
+    open: "Deschide fotografia: {alt}",
+    close: "Închide",
+    previous: "Fotografia anterioară",
+    next: "Fotografia următoare",
+    counter: "{n} din {total}",
+  },
+  locations: {
+    title: "Locatii",
+    time: "Ora {time}",
+    mapTitle: "Locații nuntă",
+    viewOnMap: "Vezi pe hartă",
+    openIn: "Deschide în",
+  },
+  map: {
+    consent: "Harta este încărcată de la {provider}, care poate primi adresa dumneavoastră IP și poate folosi cookie-uri.",
+    show: "Afișează harta",
+    decline: "Nu, mulțumesc",
+    allVenues: "Toate locațiile",
+    hidden: "Harta este ascunsă.",
+    offline: "Sunteți offline, așa că harta nu se poate încărca. Adresele și linkurile de navigare sunt mai jos.",
+    unavailable: "Harta nu poate fi încărcată acum.",
+  },
+  analytics: {
+    title: "Statistici",
+    consent: "Ne lăsați să numărăm până unde ajung invitații în invitație? Cifrele rămân la noi: fără cookie-uri și fără servicii terțe.",
+    allow: "Da, sigur",
+    decline: "Nu, mulțumesc",
+  },
+  schedule: {
+    title: "Programul zilei",
+    now: "Acum",
+    next: "Urmează",
+    moved: "Mutat de la {time}",
+    updated: "Programul s-a schimbat",
+  },
+  rsvp: {
+    title: "Confirma prezenta",
+    deadline: "Vă rugăm să confirmați participarea până la data de {date}",
+    name: "Nume și prenume",
+    namePlaceholder: "ex: Maria Popescu",
+    email: "Email",
+    emailPlaceholder: "Opțional — vă trimitem confirmarea",
+    guests: "Număr persoane",
+    attendance: "Participare",
+    attendanceYes: "Confirm",
+    attendanceNo: "Nu pot participa",
+    person: "Persoana {n}",
+    personName: "Nume",
+    menu: "Meniu",
+    menus: {
+      standard: "Standard",
+      vegetarian: "Vegetarian",
+      kids: "Copii",
+    },
+    diet: "Restricții alimentare",
+    diets: {
+      gluten: "Fără gluten",
+      lactose: "Fără lactoză",
+      nuts: "Alergie la nuci",
+      seafood: "Alergie la fructe de mare",
+    },
+    needs: "Avem nevoie de",
+    accommodation: "Cazare",
+    transport: "Transport",
+    notes: "Alte mențiuni",
+    notesPlaceholder: "Opțional",
+    song: "O melodie pentru petrecere (opțional)",
+    fewerGuests: "Mai puține persoane",
+    moreGuests: "Mai multe persoane",
+    errorSummary: "Verificați câmpurile marcate și trimiteți din nou.",
+    failed: "Răspunsul nu a putut fi salvat. Încercați din nou peste câteva momente.",
+    submit: "Trimite confirmarea",
+    pending: "Se trimite…",
+    queued:
+      "Sunteți offline. Răspunsul a rămas salvat pe acest dispozitiv și se trimite singur când aveți din nou semnal.",
+    thanks: "Mulțumim, {name}!",
+    confirmed: {
+      one: "Am înregistrat confirmarea pentru {count} persoană. Ne vedem la nuntă!",
+      few: "Am înregistrat confirmarea pentru {count} persoane. Ne vedem la nuntă!",
+      other: "Am înregistrat confirmarea pentru {count} de persoane. Ne vedem la nuntă!",
+    },
+    declined:
+      "Ne pare rău că nu puteți fi alături de noi. Vă mulțumim pentru răspuns.",
+    errors: {
+      required: "Vă rugăm să completați acest câmp",
+      tooLong: "Textul este prea lung",
+      range: "Numărul de persoane trebuie să fie între {min} și {max}",
+      choice: "Vă rugăm să alegeți o opțiune",
+      email: "Adresa de email nu pare validă",
+    },
+  },
+  photos: {
+    title: "Albumul nunții",
+    intro: "Ați prins momente frumoase? Împărtășiți fotografiile cu noi și cu ceilalți invitați.",
+    link: "Albumul foto",
+    code: "Codul albumului",
+    codeHint: "Îl găsiți pe invitație sau îl primiți de la miri.",
+    open: "Deschide albumul",
+    wrongCode: "Codul nu este corect.",
+    closed: "Încărcarea fotografiilor începe în ziua nunții, {date}.",
+    uploader: "Numele dumneavoastră",
+    choose: "Alegeți fotografiile",
+    hint: "JPEG, PNG sau WebP, cel mult {size} MB fiecare",
+    upload: {
+      one: "Încarcă {count} fotografie",
+      few: "Încarcă {count} fotografii",
+      other: "Încarcă {count} de fotografii",
+    },
+    uploading: "Se încarcă…",
+    remove: "Scoate {name}",
+    status: {
+      queued: "În așteptare",
+      uploading: "Se încarcă",
+      offline: "Salvată — se trimite când reveniți online",
+      done: "Trimisă — apare după aprobarea mirilor",
+    },
+    errors: {
+      type: "Format neacceptat",
+      size: "Fișierul este prea mare",
+      unreadable: "Imaginea nu poate fi citită",
+      closed: "Albumul nu este încă deschis",
+      access: "Accesul la album nu mai este valabil",
+      rate: "Ați trimis multe fotografii în ultima oră. Încercați din nou mai târziu",
+      failed: "Încărcarea a eșuat, încercați din nou",
+    },
+    album: "Fotografiile invitaților",
+    empty: "Încă nu sunt fotografii. Fiți primul care adaugă una!",
+    by: "Fotografie de la {name}",
+    anonymous: "Fotografie de la un invitat",
+    back: "Înapoi la invitație",
+  },
+  calendar: {
+    name: "Nunta {names}",
+    add: "Adaugă în calendar",
+    addDay: "Adaugă toată ziua în calendar",
+  },
+  events: {
+    civil: "Cununie Civilă",
+    religious: "Cununie Religioasă",
+    party: "Petrecere",
+  },
+  guestbook: {
+    title: "Urări pentru miri",
+    intro: "Lăsați-ne un gând bun. Îl vom citi pe toate și le vom păstra.",
+    name: "Numele dumneavoastră",
+    text: "Urarea dumneavoastră",
+    submit: "Trimite urarea",
+    sending: "Se trimite…",
+    sent: "Vă mulțumim! Urarea va apărea aici după ce o citesc mirii.",
+    another: "Mai scrieți una",
+    empty: "Încă nu sunt urări. Fiți primul care scrie!",
+    page: "Pagina {page} din {pages}",
+    previous: "Urările mai noi",
+    next: "Urările mai vechi",
+    errors: {
+      name: "Scrieți-vă numele",
+      text: "Scrieți urarea, de cel mult 600 de caractere",
+      links: "Urările nu pot conține linkuri",
+      language: "Vă rugăm să reformulați fără cuvinte nepotrivite",
+      rate: "Ați trimis mai multe urări în ultimele minute. Încercați puțin mai târziu",
+      failed: "Trimiterea a eșuat, încercați din nou",
+    },
+  },
+  songs: {
+    title: "Muzica petrecerii",
+    intro: "Ce melodie vă ridică de pe scaun la {venue}? Propuneți-o sau votați-le pe ale celorlalți, iar DJ-ul le va cânta pe cele mai dorite.",
+    songTitle: "Titlul melodiei",
+    artist: "Artistul",
+    name: "Numele dumneavoastră (opțional)",
+    suggest: "Propune melodia",
+    suggesting: "Se trimite…",
+    empty: "Încă nu e nicio propunere. Deschideți dansul!",
+    vote: "Votează {song}",
+    unvote: "Retrage votul pentru {song}",
+    votes: { one: "{count} vot", few: "{count} voturi", other: "{count} de voturi" },
+    closed: "Petrecerea s-a încheiat. Mulțumim pentru muzică!",
+    dj: {
+      title: "Lista DJ-ului",
+      code: "Codul DJ-ului",
+      codeHint: "Îl primiți de la miri.",
+      open: "Deschide lista",
+      wrongCode: "Codul nu este corect.",
+      rank: "Loc",
+      csv: "Export CSV",
+      m3u: "Playlist M3U",
+      refresh: "Reîncarcă pagina pentru voturile noi.",
+    },
+    errors: {
+      title: "Scrieți titlul melodiei",
+      artist: "Scrieți artistul",
+      closed: "Petrecerea s-a încheiat",
+      voter: "Votul nu a putut fi înregistrat din acest browser",
+      unknown: "Melodia nu mai este pe listă",
+      rate: "Prea multe încercări, reveniți în câteva minute",
+      failed: "Trimiterea a eșuat, încercați din nou",
+    },
+  },
+  gifts: {
+    title: "Darul",
+    transfer: "Transfer bancar",
+    holder: "Titular",
+    iban: "IBAN",
+    bic: "BIC",
+    bank: "Banca",
+    copy: "Copiază {what}",
+    copied: "Copiat: {what}",
+    qr: "Scanați codul cu aplicația băncii pentru un transfer SEPA în euro",
+    remittance: "Dar de nuntă {names}",
+    revolut: "Trimite prin Revolut",
+    registry: "Listă de cadouri",
+    registryHint: "Rezervați un cadou ca să nu îl cumpere și altcineva. Doar mirii văd cine l-a rezervat.",
+    view: "Vezi produsul",
+    reserve: "Rezervă",
+    reserving: "Se rezervă…",
+    reserved: "Rezervat",
+    yours: "Rezervat de dumneavoastră",
+    name: "Numele dumneavoastră",
+    anonymous: "Rezerv anonim",
+    confirm: "Confirmă rezervarea",
+    cancel: "Renunță",
+    errors: {
+      taken: "Cineva tocmai l-a rezervat",
+      name: "Scrieți-vă numele sau alegeți rezervarea anonimă",
+      nameOnly: "Scrieți-vă numele",
+      unknown: "Cadoul nu mai este pe listă",
+      rate: "Ați rezervat deja mai multe cadouri, încercați din nou mai târziu",
+      failed: "Rezervarea a eșuat, încercați din nou",
+    },
+  },
+  email: {
+    confirmationSubject: "Răspunsul dumneavoastră — nunta {names}",
+    greeting: "Dragă {name},",
+    thanksYes: "Vă mulțumim că ne-ați confirmat prezența! Iată ce am înregistrat:",
+    thanksNo:
+      "Vă mulțumim pentru răspuns. Ne pare rău că nu puteți fi alături de noi.",
+    details: "Unde și când",
+    calendar: "Programul zilei este atașat ca fișier de calendar.",
+    signature: "Cu drag,",
+    reminderSubject: "Ne confirmați prezența? — nunta {names}",
+    reminder:
+      "Ne-ar bucura să aflăm până pe {date} dacă veți fi alături de noi la nunta din {city}.",
+    reminderAction: "Confirmă prezența",
+  },
+  print: {
+    seating: "Plan de așezare · {date}",
+    table: "Masa {number}",
+    seats: "{load} / {capacity} locuri",
+    unseated: "Fără masă",
+    people: {
+      one: "{count} persoană",
+      few: "{count} persoane",
+      other: "{count} de persoane",
+    },
+    wishes: "Urările invitaților · {date}",
+  },
+  notFound: {
+    title: "Pagina nu există",
+    body: "Invitația pe care o căutați nu a fost găsită. Verificați linkul primit sau contactați mirii.",
+    back: "Înapoi",
+  },
+};
+
+export default ro;
+
+export type Messages = typeof ro;
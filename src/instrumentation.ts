@@ -0,0 +1,25 @@
+import type { IncomingMessage } from "http";
+
+/* ================================================================
+   Server start-up
+
+   With no proxy trusted in front of the app (see TRUST_PROXY in
+   lib/rate-limit), an X-Forwarded-For header can only come from
+   the client. It is dropped as each request arrives, before Next
+   sees it, so Next fills the header from the socket instead and
+   rate limits key on the address the request really came from.
+   ================================================================ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  const { trustedHops } = await import("@/lib/rate-limit");
+  if (trustedHops() > 0) return;
+
+  for (const { Server } of [await import("http"), await import("https")]) {
+    const emit = Server.prototype.emit;
+    Server.prototype.emit = function (event: string | symbol, ...args: unknown[]) {
+      if (event === "request") delete (args[0] as IncomingMessage).headers["x-forwarded-for"];
+      return Reflect.apply(emit, this, [event, ...args]);
+    };
+  }
+}
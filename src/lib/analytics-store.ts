@@ -0,0 +1,19 @@
+import type { AnalyticsEvent } from "./analytics";
+import { appendLog, newId, readLog } from "./store";
+
+/* ================================================================
+   Analytics persistence — server-only wrapper around the
+   "analytics" log; each event is appended as it comes in
+   ================================================================ */
+
+const LOG = "analytics";
+
+export async function listEvents(wedding: string): Promise<AnalyticsEvent[]> {
+  const items = await readLog<AnalyticsEvent>(LOG);
+  return items.filter((e) => e.wedding === wedding);
+}
+
+export async function recordEvent(input: Omit<AnalyticsEvent, "id" | "at">) {
+  const event: AnalyticsEvent = { ...input, id: newId(), at: new Date().toISOString() };
+  await appendLog(LOG, event);
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { getWedding } from "@/config";
+import { CHART_DAYS, parseHit, summarizeAnalytics, type AnalyticsEvent } from "./analytics";
+
+const config = getWedding("maria-andrei")!;
+const VISIT = "0b6c5a8e-4f1d-4c3a-9e2b-7d8f6a5c4b3e";
+
+let n = 0;
+const event = (
+  visit: string,
+  kind: AnalyticsEvent["kind"],
+  at: string,
+  extra: Partial<AnalyticsEvent> = {}
+): AnalyticsEvent => ({ id: String(n++), wedding: config.slug, kind, visit, at, ...extra });
+
+describe("parseHit", () => {
+  it("reads what the browser sends", () => {
+    expect(parseHit({ kind: "section", section: "rsvp", visit: VISIT.toUpperCase() })).toEqual({
+      kind: "section",
+      section: "rsvp",
+      visit: VISIT,
+      invite: undefined,
+    });
+  });
+
+  it("turns away unknown kinds, sections and visit ids", () => {
+    expect(parseHit({ kind: "click", visit: VISIT })).toBeUndefined();
+    expect(parseHit({ kind: "section", section: "footer", visit: VISIT })).toBeUndefined();
+    expect(parseHit({ kind: "view", visit: "me" })).toBeUndefined();
+    expect(parseHit("view")).toBeUndefined();
+  });
+});
+
+describe("summarizeAnalytics", () => {
+  const events = [
+    /* Late evening in UTC is already the next day in Bucharest */
+    event("a", "view", "2026-08-10T22:30:00.000Z"),
+    event("a", "view", "2026-08-11T08:00:00.000Z"),
+    event("a", "section", "2026-08-11T08:01:00.000Z", { section: "rsvp" }),
+    event("a", "section", "2026-08-11T08:02:00.000Z", { section: "rsvp" }),
+    event("a", "rsvp-start", "2026-08-11T08:03:00.000Z"),
+    event("b", "view", "2026-08-11T10:00:00.000Z", { guestToken: "tok" }),
+    event("b", "rsvp-start", "2026-08-11T10:01:00.000Z"),
+    event("b", "rsvp-submit", "2026-08-11T10:02:00.000Z"),
+    event("c", "view", "2026-08-12T09:00:00.000Z", { guestToken: "tok" }),
+  ];
+  const summary = summarizeAnalytics(config, events, new Date("2026-08-12T12:00:00.000Z"));
+
+  it("counts each visit once per step of the funnel", () => {
+    expect(summary).toMatchObject({ visits: 3, starts: 2, submits: 1 });
+    expect(summary.sections.rsvp).toBe(1);
+    expect(summary.sections.gifts).toBe(0);
+  });
+
+  it("charts visits by day in the wedding's time zone, ending today", () => {
+    expect(summary.daily).toHaveLength(CHART_DAYS);
+    expect(summary.daily.slice(-3)).toEqual([
+      { date: "2026-08-10", visits: 0 },
+      { date: "2026-08-11", visits: 2 },
+      { date: "2026-08-12", visits: 1 },
+    ]);
+  });
+
+  it("tells how often each invitation was opened, and when last", () => {
+    expect(summary.opens.get("tok")).toEqual({
+      opens: 2,
+      lastOpened: "2026-08-12T09:00:00.000Z",
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { addDays, localDate } from "./time";
+import type { WeddingConfig } from "./wedding";
+
+/* ================================================================
+   Analytics — how far guests get through the invitation
+
+   Self-hosted and cookie-less: the browser sends small events to
+   our own API, and only once the visitor has agreed to it. A
+   visit is a random id made when the page loads and forgotten
+   when it closes; no address, user agent or cookie is kept. An
+   open through a personal link carries its token, which already
+   says who the guest is.
+
+   Safe to import from client components; persistence lives in
+   analytics-store.
+   ================================================================ */
+
+/* The invitation's sections, top to bottom */
+export const SECTIONS = [
+  "hero",
+  "invitation",
+  "story",
+  "locations",
+  "schedule",
+  "rsvp",
+  "guestbook",
+  "songs",
+  "gifts",
+] as const;
+
+export type Section = (typeof SECTIONS)[number];
+
+export type AnalyticsKind = "view" | "section" | "rsvp-start" | "rsvp-submit";
+
+export interface AnalyticsEvent {
+  id: string;
+  wedding: string;
+  kind: AnalyticsKind;
+  /* For "section" events */
+  section?: Section;
+  /* Personal invitation the page was opened through, if any */
+  guestToken?: string;
+  visit: string;
+  at: string;
+}
+
+/* What the browser sends, see parseHit() */
+export interface AnalyticsHit {
+  kind: AnalyticsKind;
+  section?: Section;
+  visit: string;
+  invite?: string;
+}
+
+const KINDS: AnalyticsKind[] = ["view", "section", "rsvp-start", "rsvp-submit"];
+const VISIT_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function parseHit(input: unknown): AnalyticsHit | undefined {
+  if (!input || typeof input !== "object") return undefined;
+  const { kind, section, visit, invite } = input as Record<string, unknown>;
+  if (!KINDS.includes(kind as AnalyticsKind)) return undefined;
+  if (typeof visit !== "string" || !VISIT_RE.test(visit)) return undefined;
+  if (kind === "section" && !SECTIONS.includes(section as Section)) return undefined;
+  return {
+    kind: kind as AnalyticsKind,
+    section: kind === "section" ? (section as Section) : undefined,
+    visit: visit.toLowerCase(),
+    invite: typeof invite === "string" && invite ? invite : undefined,
+  };
+}
+
+/* ── Summary for admin ── */
+
+export const CHART_DAYS = 14;
+
+export interface GuestOpens {
+  opens: number;
+  lastOpened: string;
+}
+
+export interface AnalyticsSummary {
+  /* Each count is of distinct visits */
+  visits: number;
+  starts: number;
+  submits: number;
+  sections: Record<Section, number>;
+  /* The last CHART_DAYS days in the wedding's time zone, oldest first */
+  daily: { date: string; visits: number }[];
+  /* By invitation token */
+  opens: Map<string, GuestOpens>;
+}
+
+export function summarizeAnalytics(
+  config: WeddingConfig,
+  events: AnalyticsEvent[],
+  now = new Date()
+): AnalyticsSummary {
+  const visitsOf = (match: (e: AnalyticsEvent) => boolean) =>
+    new Set(events.filter(match).map((e) => e.visit));
+
+  const views = events.filter((e) => e.kind === "view");
+  const sections = Object.fromEntries(
+    SECTIONS.map((s) => [s, visitsOf((e) => e.kind === "section" && e.section === s).size])
+  ) as Record<Section, number>;
+
+  const today = localDate(now, config.timeZone);
+  const perDay = new Map<string, Set<string>>();
+  for (const e of views) {
+    const date = localDate(new Date(e.at), config.timeZone);
+    perDay.set(date, (perDay.get(date) ?? new Set()).add(e.visit));
+  }
+  const daily = Array.from({ length: CHART_DAYS }, (_, i) => {
+    const date = addDays(today, i - CHART_DAYS + 1);
+    return { date, visits: perDay.get(date)?.size ?? 0 };
+  });
+
+  const opens = new Map<string, GuestOpens>();
+  for (const e of views) {
+    if (!e.guestToken) continue;
+    const seen = opens.get(e.guestToken);
+    opens.set(e.guestToken, {
+      opens: (seen?.opens ?? 0) + 1,
+      lastOpened: seen && seen.lastOpened > e.at ? seen.lastOpened : e.at,
+    });
+  }
+
+  return {
+    visits: visitsOf((e) => e.kind === "view").size,
+    starts: visitsOf((e) => e.kind === "rsvp-start").size,
+    submits: visitsOf((e) => e.kind === "rsvp-submit").size,
+    sections,
+    daily,
+    opens,
+  };
+}
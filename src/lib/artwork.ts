@@ -0,0 +1,110 @@
+import {
+  clusterItemSize,
+  CLUSTER_ROW_GAP,
+  flowerRadius,
+  LEAF_PATH,
+  LEAF_VEIN,
+  petalLayout,
+  ROSE_CLUSTER,
+  type FlowerSpecies,
+} from "./flowers";
+
+/* ================================================================
+   Artwork as SVG markup — the same blooms, leaves and clusters
+   the page draws with React, fully open, for files that leave
+   the browser (the print exports in lib/print).
+
+   Every function returns a <g> fragment in the caller's units.
+   ================================================================ */
+
+const n = (v: number) => Number(v.toFixed(2));
+
+/* Bloom centered on (x, y), `size` units across like <Flower> */
+export function bloomSvg(species: FlowerSpecies, x: number, y: number, size: number) {
+  const petals = petalLayout(species)
+    .map(
+      (p) =>
+        `<path d="${species.petalPath}" fill="${p.color}" opacity="${species.opacity}" ` +
+        `transform="translate(${n(p.x)},${n(p.y)}) rotate(${n(p.rotate)}) scale(${n(p.scale)})"/>`
+    )
+    .join("");
+  const center = species.center
+    ? `<circle r="${species.center.radius}" fill="${species.center.color}"/>`
+    : "";
+  return `<g transform="translate(${n(x)},${n(y)}) scale(${n(size / 50)})">${petals}${center}</g>`;
+}
+
+/* Bloom scaled to fit a square of `size`, like <FlowerIcon> */
+export function iconSvg(species: FlowerSpecies, x: number, y: number, size: number) {
+  return bloomSvg(species, x, y, (size * 24) / flowerRadius(species));
+}
+
+/* Leaf in a 14×22 box scaled by `scale`, top left at (x, y) */
+export function leafSvg(
+  species: FlowerSpecies,
+  x: number,
+  y: number,
+  rotate: number,
+  scale: number
+) {
+  return (
+    `<g transform="translate(${n(x)},${n(y)}) scale(${n(scale)}) translate(7,20) rotate(${rotate})">` +
+    `<path d="${LEAF_PATH}" fill="${species.leaf}" opacity="0.55"/>` +
+    `<line x1="0" y1="${LEAF_VEIN.from}" x2="0" y2="${LEAF_VEIN.to}" ` +
+    `stroke="#3a6a2a" stroke-width="0.7" opacity="0.4"/></g>`
+  );
+}
+
+/* Natural size of the cluster, in the units of <RoseCluster> */
+export function clusterSize() {
+  const rows = ROSE_CLUSTER.map((row) => {
+    const sizes = row.items.map(clusterItemSize);
+    return {
+      width:
+        sizes.reduce((sum, s) => sum + s.width, 0) + row.gap * (sizes.length - 1),
+      height: Math.max(...sizes.map((s) => s.height)),
+    };
+  });
+  return {
+    width: Math.max(...rows.map((r) => r.width)),
+    height:
+      rows.reduce((sum, r) => sum + r.height, 0) + CLUSTER_ROW_GAP * (rows.length - 1),
+  };
+}
+
+/* The cluster laid out as the flexbox on the page lays it out,
+   top left at (x, y), `scale` units per pixel */
+export function clusterSvg(
+  species: FlowerSpecies,
+  x: number,
+  y: number,
+  scale: number,
+  mirror = false
+) {
+  const { width } = clusterSize();
+  const parts: string[] = [];
+  let top = 0;
+
+  for (const row of ROSE_CLUSTER) {
+    const sizes = row.items.map(clusterItemSize);
+    const rowWidth =
+      sizes.reduce((sum, s) => sum + s.width, 0) + row.gap * (sizes.length - 1);
+    const rowHeight = Math.max(...sizes.map((s) => s.height));
+    let left = (width - rowWidth) / 2;
+
+    row.items.forEach((item, i) => {
+      const { width: w, height: h } = sizes[i];
+      const itemTop = row.align === "end" ? top + rowHeight - h : top + (rowHeight - h) / 2;
+      parts.push(
+        item.kind === "rose"
+          ? bloomSvg(species, left + w / 2, itemTop + h / 2, w)
+          : leafSvg(species, left, itemTop, item.rotate, item.scale)
+      );
+      left += w + row.gap;
+    });
+    top += rowHeight + CLUSTER_ROW_GAP;
+  }
+
+  const flip = mirror ? ` translate(${width},0) scale(-1,1)` : "";
+  return `<g transform="translate(${n(x)},${n(y)}) scale(${n(scale)})${flip}">${parts.join("")}</g>`;
+}
@@ -0,0 +1,66 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+
+/* ================================================================
+   Admin session — a single shared passphrase from ADMIN_PASSPHRASE
+
+   After logging in the browser holds a cookie "<expiry>.<hmac>"
+   signed with the passphrase, so changing the passphrase also
+   logs everyone out. Without the variable set, nobody can log in.
+   ================================================================ */
+
+const COOKIE = "admin_session";
+const MAX_AGE = 60 * 60 * 12;
+
+function passphrase() {
+  return process.env.ADMIN_PASSPHRASE ?? "";
+}
+
+function sign(value: string) {
+  return createHmac("sha256", passphrase()).update(value).digest("base64url");
+}
+
+export function safeEqual(a: string, b: string) {
+  const hash = (s: string) => createHash("sha256").update(s).digest();
+  return timingSafeEqual(hash(a), hash(b));
+}
+
+export function isAdminConfigured() {
+  return passphrase() !== "";
+}
+
+export function checkPassphrase(input: string) {
+  return isAdminConfigured() && safeEqual(input, passphrase());
+}
+
+export async function startAdminSession() {
+  const expires = String(Date.now() + MAX_AGE * 1000);
+  (await cookies()).set(COOKIE, `${expires}.${sign(expires)}`, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: MAX_AGE,
+  });
+}
+
+export async function endAdminSession() {
+  (await cookies()).delete(COOKIE);
+}
+
+export async function isAdmin() {
+  if (!isAdminConfigured()) return false;
+  const value = (await cookies()).get(COOKIE)?.value;
+  if (!value) return false;
+  const [expires, signature] = value.split(".");
+  if (!expires || !signature || !safeEqual(signature, sign(expires))) {
+    return false;
+  }
+  return Number(expires) > Date.now();
+}
+
+/* Guard for admin pages and actions */
+export async function requireAdmin() {
+  if (!(await isAdmin())) redirect("/admin/login");
+}
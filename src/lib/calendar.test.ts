@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { getWedding } from "@/config";
+import { dayCalendar, eventCalendar } from "./calendar";
+
+const config = getWedding("maria-andrei")!;
+const unfold = (ics: string) => ics.replace(/\r\n /g, "").split("\r\n");
+
+describe("eventCalendar", () => {
+  it("holds the one event with its venue", () => {
+    const event = config.events[0];
+    const lines = unfold(eventCalendar(config, event, "ro", "example.com"));
+    expect(lines.filter((l) => l === "BEGIN:VEVENT")).toHaveLength(1);
+    expect(lines).toContain(`UID:maria-andrei-${config.date}-${event.kind}@example.com`);
+    expect(lines.some((l) => l.startsWith("LOCATION:") && l.includes(event.venue))).toBe(true);
+  });
+});
+
+describe("dayCalendar", () => {
+  it("has an event per schedule item, each running until the next", () => {
+    const lines = unfold(dayCalendar(config, [], "en", "example.com"));
+    expect(lines.filter((l) => l === "BEGIN:VEVENT")).toHaveLength(config.schedule.length);
+
+    const starts = lines.filter((l) => l.startsWith("DTSTART;"));
+    const ends = lines.filter((l) => l.startsWith("DTEND;"));
+    for (let i = 0; i < starts.length - 1; i++) {
+      expect(ends[i].split(":")[1]).toBe(starts[i + 1].split(":")[1]);
+    }
+  });
+
+  it("follows the changes made on the day", () => {
+    const changes = [{ item: 5, time: "00:30", note: "After the first dance" }];
+    const lines = unfold(dayCalendar(config, changes, "en", "example.com"));
+    const event = (summary: string) => {
+      const at = lines.indexOf(`SUMMARY:${summary}`);
+      return lines.slice(lines.lastIndexOf("BEGIN:VEVENT", at), lines.indexOf("END:VEVENT", at));
+    };
+
+    /* Same uid as planned, so calendars update the event in place */
+    const cake = event("Wedding cake");
+    expect(cake).toContain("UID:maria-andrei-2026-08-16-0000@example.com");
+    expect(cake).toContain("DTSTART;TZID=Europe/Bucharest:20260816T003000");
+    expect(cake).toContain("DESCRIPTION:After the first dance");
+    expect(event("Party & dinner")).toContain("DTEND;TZID=Europe/Bucharest:20260816T003000");
+  });
+});
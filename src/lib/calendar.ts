@@ -0,0 +1,110 @@
+import { format, getMessages, localize, type Locale } from "@/i18n";
+import { buildCalendar, type CalendarEvent } from "./ics";
+import { liveSchedule, type ScheduleChange } from "./schedule";
+import { localDate } from "./time";
+import {
+  coupleNames,
+  datedSchedule,
+  eventLabel,
+  type EventKind,
+  type WeddingConfig,
+  type WeddingEvent,
+} from "./wedding";
+
+/* ================================================================
+   Wedding → iCalendar
+
+   One file per location card, and one for the whole day built
+   from the schedule as it stands, with the couple's changes on
+   the day. Events have no end time in the config, so each kind
+   gets a typical length; schedule items run until the next item
+   starts.
+   ================================================================ */
+
+const EVENT_MINUTES: Record<EventKind, number> = {
+  civil: 60,
+  religious: 90,
+  party: 420,
+};
+
+const LAST_ITEM_MINUTES = 60;
+
+function normalize(text: string) {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim();
+}
+
+function where(event: WeddingEvent) {
+  return `${event.venue}, ${event.address}`;
+}
+
+function calendarName(config: WeddingConfig, locale: Locale) {
+  return format(getMessages(locale).calendar.name, { names: coupleNames(config) });
+}
+
+export function eventCalendar(
+  config: WeddingConfig,
+  event: WeddingEvent,
+  locale: Locale,
+  host: string
+) {
+  const m = getMessages(locale);
+  const label = eventLabel(event, locale, m.events);
+  const item: CalendarEvent = {
+    uid: `${config.slug}-${config.date}-${event.kind}@${host}`,
+    start: { date: config.date, time: event.time },
+    duration: EVENT_MINUTES[event.kind],
+    summary: `${label} — ${coupleNames(config)}`,
+    location: where(event),
+    reminders: ["P1D", "PT1H"],
+  };
+  return buildCalendar({
+    name: calendarName(config, locale),
+    timeZone: config.timeZone,
+    events: [item],
+  });
+}
+
+export function dayCalendar(
+  config: WeddingConfig,
+  changes: ScheduleChange[],
+  locale: Locale,
+  host: string
+) {
+  const planned = datedSchedule(config);
+  const schedule = liveSchedule(config, changes);
+
+  const events = schedule.map((item, i): CalendarEvent => {
+    const next = schedule[i + 1];
+    /* Uid and venue follow the item as planned, so a moved item
+       replaces itself in calendars that already have it */
+    const { date, time } = planned[item.index];
+    const desc = item.desc ? localize(item.desc, locale) : "";
+    /* Items at a known venue get its full address */
+    const venue = config.events.find(
+      (e) =>
+        (e.time === time && date === config.date) ||
+        (desc !== "" && normalize(e.venue) === normalize(desc))
+    );
+    const duration = next ? Math.round((next.at - item.at) / 60000) : LAST_ITEM_MINUTES;
+
+    return {
+      uid: `${config.slug}-${date}-${time.replace(":", "")}@${host}`,
+      start: { date: localDate(new Date(item.at), config.timeZone), time: item.time },
+      duration,
+      summary: localize(item.title, locale),
+      location: venue ? where(venue) : desc || undefined,
+      description: item.note,
+      reminders: i === 0 ? ["P1D", "PT1H"] : ["PT30M"],
+    };
+  });
+
+  return buildCalendar({
+    name: calendarName(config, locale),
+    timeZone: config.timeZone,
+    events,
+  });
+}
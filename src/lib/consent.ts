@@ -0,0 +1,60 @@
+import { useCallback, useSyncExternalStore } from "react";
+
+/* ================================================================
+   Visitor consent for third-party content and for analytics,
+   kept in localStorage
+
+   `undefined` means "not known yet" (server render and hydration),
+   `null` means the visitor has not decided.
+   ================================================================ */
+
+export type ConsentCategory = "maps" | "analytics";
+export type ConsentChoice = "granted" | "denied";
+
+const KEY = "flower.hero.consent";
+const listeners = new Set<() => void>();
+
+type Choices = Partial<Record<ConsentCategory, ConsentChoice>>;
+
+/* Choices made this visit, for when storage is unavailable */
+let session: Choices = {};
+
+function read(): Choices {
+  try {
+    return { ...session, ...JSON.parse(localStorage.getItem(KEY) ?? "{}") };
+  } catch {
+    return session;
+  }
+}
+
+function subscribe(onChange: () => void) {
+  listeners.add(onChange);
+  window.addEventListener("storage", onChange);
+  return () => {
+    listeners.delete(onChange);
+    window.removeEventListener("storage", onChange);
+  };
+}
+
+export function setConsent(category: ConsentCategory, choice: ConsentChoice) {
+  session = { ...read(), [category]: choice };
+  try {
+    localStorage.setItem(KEY, JSON.stringify(session));
+  } catch {
+    /* Private mode: the choice holds until the page is closed */
+  }
+  listeners.forEach((l) => l());
+}
+
+export function useConsent(category: ConsentCategory) {
+  const choice = useSyncExternalStore(
+    subscribe,
+    () => read()[category] ?? null,
+    () => undefined
+  );
+  const set = useCallback(
+    (next: ConsentChoice) => setConsent(category, next),
+    [category]
+  );
+  return [choice, set] as const;
+}
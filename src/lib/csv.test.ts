@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { toCsv } from "./csv";
+
+const body = (csv: string) => csv.replace(/^\uFEFF/, "");
+
+describe("toCsv", () => {
+  it("starts with a BOM and separates rows with CRLF", () => {
+    const csv = toCsv([["a", 1], ["b", 2]]);
+    expect(csv.startsWith("\uFEFF")).toBe(true);
+    expect(body(csv)).toBe("a,1\r\nb,2");
+  });
+
+  it("quotes cells with commas, quotes or line breaks", () => {
+    expect(body(toCsv([['Ana, "Ani"', "două\nrânduri"]]))).toBe(
+      '"Ana, ""Ani""","două\nrânduri"'
+    );
+  });
+
+  it("keeps text that looks like a formula from running", () => {
+    expect(body(toCsv([["=HYPERLINK(\"x\")", "+40", "-1", "@SUM(A1)"]]))).toBe(
+      `"'=HYPERLINK(""x"")",'+40,'-1,'@SUM(A1)`
+    );
+  });
+
+  it("leaves numbers alone", () => {
+    expect(body(toCsv([[-1, 0]]))).toBe("-1,0");
+  });
+});
@@ -0,0 +1,28 @@
+/* ================================================================
+   CSV export helpers (RFC 4180)
+
+   The leading BOM makes Excel pick UTF-8, otherwise Romanian
+   diacritics come out garbled when the caterer opens the file.
+   ================================================================ */
+
+/* Text a spreadsheet would run as a formula: guests type names and
+   notes, so those cells get a leading apostrophe and stay text */
+const FORMULA_RE = /^[=+\-@\t\r]/;
+
+function escapeCell(value: string | number) {
+  const text = typeof value === "string" && FORMULA_RE.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: (string | number)[][]) {
+  return "\uFEFF" + rows.map((row) => row.map(escapeCell).join(",")).join("\r\n");
+}
+
+export function csvResponse(csv: string, filename: string) {
+  return new Response(csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+}
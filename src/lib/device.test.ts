@@ -0,0 +1,22 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { issueDevice, verifyDevice } from "./device";
+
+describe("device tokens", () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  it("verifies the tokens it issued and no others", () => {
+    vi.stubEnv("DEVICE_SECRET", "a long random string");
+    const token = issueDevice()!;
+    const [id] = token.split(".");
+    expect(verifyDevice(token)).toBe(id);
+    expect(verifyDevice(`${crypto.randomUUID()}.${token.split(".")[1]}`)).toBeUndefined();
+    expect(verifyDevice(id)).toBeUndefined();
+  });
+
+  it("never signs with the admin passphrase", () => {
+    vi.stubEnv("DEVICE_SECRET", undefined);
+    vi.stubEnv("ADMIN_PASSPHRASE", "passphrase");
+    expect(issueDevice()).toBeUndefined();
+    expect(verifyDevice("1b9d6bcd-bbfd-4b2d-9b5d-ab8dfbbd4bed.signature")).toBeUndefined();
+  });
+});
@@ -0,0 +1,33 @@
+import { createHmac, randomUUID } from "crypto";
+import { safeEqual } from "./auth";
+
+/* ================================================================
+   Devices — server-only. A browser voting without a personal
+   invitation holds a token "<uuid>.<hmac>" this server issued, so
+   an id a script makes up is not a voter. Tokens are signed with
+   DEVICE_SECRET alone: they are handed to anyone, so a key shared
+   with the admin passphrase could be guessed from them offline.
+   Without it, only invitations vote.
+   ================================================================ */
+
+function secret() {
+  return process.env.DEVICE_SECRET ?? "";
+}
+
+function sign(id: string) {
+  return createHmac("sha256", secret()).update(`device:${id}`).digest("base64url");
+}
+
+export function issueDevice() {
+  if (!secret()) return undefined;
+  const id = randomUUID();
+  return `${id}.${sign(id)}`;
+}
+
+/* The device id inside a token this server issued */
+export function verifyDevice(token?: string) {
+  if (!token || !secret()) return undefined;
+  const [id, signature] = token.split(".");
+  if (!id || !signature || !safeEqual(signature, sign(id))) return undefined;
+  return id;
+}
@@ -0,0 +1,226 @@
+import { format, getMessages, type Locale, type Messages } from "@/i18n";
+import type { Guest } from "./guests";
+import type { Mail } from "./mail";
+import { dayCalendar } from "./calendar";
+import { describePerson, type Rsvp } from "./rsvp";
+import type { ScheduleChange } from "./schedule";
+import { resolveTheme, type Theme } from "./themes";
+import {
+  coupleNames,
+  eventLabel,
+  formatDate,
+  formatTime,
+  type WeddingConfig,
+} from "./wedding";
+
+/* ================================================================
+   Email templates
+
+   Table layout and inline styles only, so the wedding's theme
+   colors survive mail clients. Every message also gets a plain-text
+   body built from the same rows.
+   ================================================================ */
+
+type Row = [label: string, value: string];
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const SERIF = "Georgia, 'Times New Roman', serif";
+
+function layout(t: Theme, lang: string, heading: string, blocks: string[]) {
+  return `<!doctype html>
+<html lang="${lang}">
+<body style="margin:0;padding:0;background:${t.background};">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:${t.background};padding:32px 12px;">
+<tr><td align="center">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;background:#ffffff;border:1px solid ${t.accent};border-radius:16px;">
+<tr><td style="background:${t.primary};border-radius:15px 15px 0 0;padding:28px 32px;text-align:center;">
+<p style="margin:0;font-family:${SERIF};font-size:13px;letter-spacing:4px;color:${t.accent};">&#10048; &#10048; &#10048;</p>
+<h1 style="margin:12px 0 0;font-family:${SERIF};font-style:italic;font-weight:normal;font-size:28px;color:${t.background};">${escapeHtml(heading)}</h1>
+</td></tr>
+<tr><td style="padding:28px 32px;font-family:${SERIF};font-size:15px;line-height:1.6;color:${t.primary};">
+${blocks.join("\n")}
+</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+}
+
+function paragraph(text: string) {
+  return `<p style="margin:0 0 16px;">${escapeHtml(text).replace(/\n/g, "<br>")}</p>`;
+}
+
+function table(t: Theme, rows: Row[]) {
+  const cells = rows
+    .map(
+      ([label, value]) =>
+        `<tr><td style="padding:6px 12px 6px 0;vertical-align:top;color:${t.highlight};white-space:nowrap;">${escapeHtml(label)}</td>` +
+        `<td style="padding:6px 0;">${escapeHtml(value).replace(/\n/g, "<br>")}</td></tr>`
+    )
+    .join("\n");
+  return `<table role="presentation" cellpadding="0" cellspacing="0" style="margin:0 0 20px;font-size:14px;">${cells}</table>`;
+}
+
+function subheading(t: Theme, text: string) {
+  return `<h2 style="margin:24px 0 8px;font-size:13px;letter-spacing:3px;text-transform:uppercase;color:${t.highlight};">${escapeHtml(text)}</h2>`;
+}
+
+function button(t: Theme, href: string, label: string) {
+  return `<p style="margin:24px 0;text-align:center;"><a href="${escapeHtml(href)}" style="display:inline-block;background:${t.primary};color:${t.background};text-decoration:none;border-radius:12px;padding:14px 28px;font-size:13px;letter-spacing:3px;text-transform:uppercase;">${escapeHtml(label)}</a></p>`;
+}
+
+function textRows(rows: Row[]) {
+  return rows.map(([label, value]) => `${label}: ${value}`).join("\n");
+}
+
+/* The answers of one response, labelled in the given catalog */
+function answerRows(rsvp: Rsvp, m: Messages): Row[] {
+  const rows: Row[] = [
+    [m.rsvp.name, rsvp.name],
+    [
+      m.rsvp.attendance,
+      rsvp.attendance === "yes" ? m.rsvp.attendanceYes : m.rsvp.attendanceNo,
+    ],
+  ];
+  if (rsvp.attendance === "yes") {
+    rows.push([m.rsvp.guests, String(rsvp.guests)]);
+    rsvp.people.forEach((p, i) =>
+      rows.push([format(m.rsvp.person, { n: i + 1 }), describePerson(p, m.rsvp)])
+    );
+    const needs = [
+      rsvp.accommodation && m.rsvp.accommodation,
+      rsvp.transport && m.rsvp.transport,
+    ].filter(Boolean);
+    if (needs.length > 0) rows.push([m.rsvp.needs, needs.join(", ")]);
+  }
+  if (rsvp.notes) rows.push([m.rsvp.notes, rsvp.notes]);
+  return rows;
+}
+
+function eventRows(config: WeddingConfig, locale: Locale, m: Messages): Row[] {
+  return config.events.map((e) => [
+    `${eventLabel(e, locale, m.events)} · ${formatTime(e.time, locale)}`,
+    `${e.venue}\n${e.address}`,
+  ]);
+}
+
+/* To the couple, for every new response. Romanian, like the admin. */
+export function coupleEmail(
+  config: WeddingConfig,
+  rsvp: Rsvp,
+  origin: string
+): Mail {
+  const m = getMessages("ro");
+  const t = resolveTheme(config.theme);
+  const answer =
+    rsvp.attendance === "yes" ? `confirmă, ${rsvp.guests} pers.` : "nu participă";
+  const rows = answerRows(rsvp, m);
+  if (rsvp.email) rows.splice(1, 0, ["Email", rsvp.email]);
+  const link = `${origin}/admin/rsvp/${rsvp.id}`;
+
+  return {
+    to: config.rsvp.notify ?? [],
+    subject: `Răspuns nou: ${rsvp.name} — ${answer}`,
+    html: layout(t, "ro", coupleNames(config), [
+      paragraph("A sosit un răspuns nou la invitație:"),
+      table(t, rows),
+      button(t, link, "Vezi în administrare"),
+    ]),
+    text: `A sosit un răspuns nou la invitație:\n\n${textRows(rows)}\n\n${link}\n`,
+  };
+}
+
+/* To the guest, echoing their answers with the event details and,
+   when they are coming, the day's schedule as an .ics file */
+export function confirmationEmail(
+  config: WeddingConfig,
+  rsvp: Rsvp,
+  changes: ScheduleChange[],
+  locale: Locale,
+  host: string
+): Mail {
+  const m = getMessages(locale);
+  const t = resolveTheme(config.theme);
+  const names = coupleNames(config);
+  const attending = rsvp.attendance === "yes";
+  const answers = answerRows(rsvp, m);
+  const events = eventRows(config, locale, m);
+  const date = formatDate(config.date, config.timeZone, locale);
+  const intro = attending ? m.email.thanksYes : m.email.thanksNo;
+
+  return {
+    to: [rsvp.email],
+    subject: format(m.email.confirmationSubject, { names }),
+    html: layout(t, locale, names, [
+      paragraph(format(m.email.greeting, { name: rsvp.name })),
+      paragraph(intro),
+      table(t, answers),
+      ...(attending
+        ? [
+            subheading(t, `${m.email.details} — ${date}`),
+            table(t, events),
+            paragraph(m.email.calendar),
+          ]
+        : []),
+      paragraph(`${m.email.signature}\n${names}`),
+    ]),
+    text: [
+      format(m.email.greeting, { name: rsvp.name }),
+      intro,
+      textRows(answers),
+      ...(attending ? [`${m.email.details} — ${date}`, textRows(events)] : []),
+      `${m.email.signature}\n${names}`,
+    ].join("\n\n"),
+    attachments: attending
+      ? [
+          {
+            filename: `${config.slug}.ics`,
+            contentType: "text/calendar; charset=utf-8; method=PUBLISH",
+            content: dayCalendar(config, changes, locale, host),
+          },
+        ]
+      : [],
+  };
+}
+
+/* To an invited guest who hasn't answered yet */
+export function reminderEmail(
+  config: WeddingConfig,
+  guest: Guest,
+  origin: string
+): Mail {
+  const locale = guest.language;
+  const m = getMessages(locale);
+  const t = resolveTheme(config.theme);
+  const names = coupleNames(config);
+  const link = `${origin}/${locale}/${config.slug}/inv/${guest.token}`;
+  const body = format(m.email.reminder, {
+    date: formatDate(config.rsvp.deadline, config.timeZone, locale),
+    city: config.city,
+  });
+
+  return {
+    to: [guest.email!],
+    subject: format(m.email.reminderSubject, { names }),
+    html: layout(t, locale, names, [
+      paragraph(format(m.email.greeting, { name: guest.displayName })),
+      paragraph(body),
+      button(t, link, m.email.reminderAction),
+      paragraph(`${m.email.signature}\n${names}`),
+    ]),
+    text: [
+      format(m.email.greeting, { name: guest.displayName }),
+      body,
+      `${m.email.reminderAction}: ${link}`,
+      `${m.email.signature}\n${names}`,
+    ].join("\n\n"),
+  };
+}
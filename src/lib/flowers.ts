@@ -0,0 +1,194 @@
+/* ================================================================
+   Flower species — parameters for the phyllotaxis generator
+
+   Petal i sits at angle i × divergence and distance √i × spacing
+   from the center (Vogel's model), so with the golden angle the
+   petals fill the bloom evenly in a natural spiral. Inner petals
+   are smaller and take the first palette colors; outer ones grow
+   to the last.
+   ================================================================ */
+
+export const GOLDEN_ANGLE = 137.508;
+
+export interface FlowerSpecies {
+  petals: number;
+  /* Petal outline, base at the origin, tip pointing up (−y) */
+  petalPath: string;
+  /* Degrees between consecutive petals */
+  divergence: number;
+  spacing: number;
+  /* Scale of the innermost and the outermost petal */
+  scale: [inner: number, outer: number];
+  /* Inner → outer petal colors */
+  palette: string[];
+  opacity: number;
+  /* Disc drawn over the petals, e.g. a daisy's yellow heart */
+  center?: { radius: number; color: string };
+  leaf: string;
+  /* Seconds each petal takes to unfurl, and between petals */
+  bloom: { duration: number; stagger: number };
+}
+
+const ROSE_PETAL = "M0,0 C-5,-6 -4,-15 0,-19 C4,-15 5,-6 0,0Z";
+
+const rose: FlowerSpecies = {
+  petals: 24,
+  petalPath: ROSE_PETAL,
+  divergence: GOLDEN_ANGLE,
+  spacing: 5.5,
+  scale: [0.35, 1.1],
+  palette: [
+    "#6a1530", // deep wine (center)
+    "#7a1e3a",
+    "#8e2845",
+    "#a83458",
+    "#c04668",
+    "#d46080",
+    "#e07898",
+    "#ec98b0",
+    "#f4b0c4", // light pink (outer)
+  ],
+  opacity: 0.92,
+  center: { radius: 3, color: "#4a0e20" },
+  leaf: "#4a7a3a",
+  bloom: { duration: 0.55, stagger: 0.04 },
+};
+
+export const FLOWERS = {
+  rose,
+  whiteRose: {
+    ...rose,
+    palette: ["#c9b79c", "#d8c9b0", "#e6dac6", "#efe6d8", "#f7f1e8", "#fffaf2"],
+    center: { radius: 3, color: "#a8957a" },
+  },
+  /* Many broad, ruffled petals packed tightly */
+  peony: {
+    petals: 40,
+    petalPath: "M0,0 C-8,-3 -10,-14 -3,-17 Q0,-15 3,-17 C10,-14 8,-3 0,0Z",
+    divergence: GOLDEN_ANGLE,
+    spacing: 3.7,
+    scale: [0.3, 1],
+    palette: ["#b03a62", "#c85479", "#d9708f", "#e68ca6", "#f0a8bc", "#f8c6d3"],
+    opacity: 0.9,
+    leaf: "#4a7a3a",
+    bloom: { duration: 0.6, stagger: 0.025 },
+  },
+  /* Six tall petals in two whorls of three, seen from above */
+  tulip: {
+    petals: 6,
+    petalPath: "M0,0 C-8,-5 -7,-19 0,-23 C7,-19 8,-5 0,0Z",
+    divergence: 60,
+    spacing: 1.5,
+    scale: [0.85, 1],
+    palette: ["#8e1d3a", "#b02a4a", "#cc3d5c"],
+    opacity: 0.88,
+    center: { radius: 2.5, color: "#3a1420" },
+    leaf: "#5a8a3a",
+    bloom: { duration: 0.7, stagger: 0.08 },
+  },
+  /* A ring of narrow white rays around a golden disc */
+  daisy: {
+    petals: 21,
+    petalPath: "M0,0 C-2.5,-4 -2.5,-19 0,-21 C2.5,-19 2.5,-4 0,0Z",
+    divergence: GOLDEN_ANGLE,
+    spacing: 1,
+    scale: [0.9, 1],
+    palette: ["#f3ede4", "#faf6f0", "#ffffff"],
+    opacity: 0.95,
+    center: { radius: 6, color: "#e2b23a" },
+    leaf: "#4a7a3a",
+    bloom: { duration: 0.45, stagger: 0.03 },
+  },
+} satisfies Record<string, FlowerSpecies>;
+
+export type FlowerId = keyof typeof FLOWERS;
+
+export const FLOWER_IDS = Object.keys(FLOWERS) as FlowerId[];
+
+export interface PetalPlacement {
+  x: number;
+  y: number;
+  /* Degrees, for rotate() */
+  rotate: number;
+  scale: number;
+  color: string;
+}
+
+export function petalLayout(species: FlowerSpecies): PetalPlacement[] {
+  const { petals, divergence, spacing, scale, palette } = species;
+  return Array.from({ length: petals }, (_, i) => {
+    const angle = i * divergence;
+    const rad = (angle * Math.PI) / 180;
+    const dist = Math.sqrt(i) * spacing;
+    const t = i / petals;
+    return {
+      x: Math.cos(rad) * dist,
+      y: Math.sin(rad) * dist,
+      rotate: angle + 90,
+      scale: scale[0] + t * (scale[1] - scale[0]),
+      color: palette[Math.min(Math.floor(t * palette.length), palette.length - 1)],
+    };
+  });
+}
+
+/* Distance from the center to the farthest petal tip, for fitting
+   a bloom into a box (petal paths are ~20 units long) */
+export function flowerRadius(species: FlowerSpecies) {
+  return Math.sqrt(species.petals - 1) * species.spacing + 22 * species.scale[1];
+}
+
+/* Leaf outline in a 14×22 box, stem at (7,20), and its vein */
+export const LEAF_PATH = "M0,0 Q5,-9 0,-18 Q-5,-9 0,0Z";
+export const LEAF_VEIN = { from: -1, to: -16 };
+
+/* ── Rose cluster ──
+   The arrangement beside the hero title, row by row from the top.
+   Bloom sizes are multiples of the 50-unit flower, leaf scales of
+   the 14×22 leaf; delays are added to the cluster's own. Shared by
+   RoseCluster on the page and the print exports (lib/artwork). */
+
+export type ClusterItem =
+  | { kind: "rose"; size: number; delay: number }
+  | { kind: "leaf"; rotate: number; scale: number; delay: number };
+
+export interface ClusterRow {
+  align: "end" | "center";
+  /* Space between items, in the same units */
+  gap: number;
+  items: ClusterItem[];
+}
+
+export const CLUSTER_ROW_GAP = 4;
+
+export const ROSE_CLUSTER: ClusterRow[] = [
+  /* Large rose on top */
+  {
+    align: "end",
+    gap: 2,
+    items: [
+      { kind: "leaf", rotate: -40, scale: 1.1, delay: 0.3 },
+      { kind: "rose", size: 1.2, delay: 0.1 },
+      { kind: "leaf", rotate: 30, scale: 0.9, delay: 0.2 },
+    ],
+  },
+  /* Two medium roses side by side */
+  {
+    align: "center",
+    gap: 4,
+    items: [
+      { kind: "leaf", rotate: -55, scale: 0.8, delay: 0.5 },
+      { kind: "rose", size: 0.9, delay: 0.3 },
+      { kind: "rose", size: 0.65, delay: 0.4 },
+      { kind: "leaf", rotate: 45, scale: 0.7, delay: 0.4 },
+    ],
+  },
+  /* Small rose at bottom */
+  { align: "center", gap: 0, items: [{ kind: "rose", size: 0.4, delay: 0 }] },
+];
+
+/* Box each item takes up in the cluster's flex layout */
+export function clusterItemSize(item: ClusterItem) {
+  return item.kind === "rose"
+    ? { width: Math.round(50 * item.size), height: Math.round(50 * item.size) }
+    : { width: Math.round(14 * item.scale), height: Math.round(22 * item.scale) };
+}
@@ -0,0 +1,31 @@
+import type { StaticImageData } from "next/image";
+import type { Localized } from "@/i18n";
+import { list, localized, obj, type Issues } from "./schema";
+import { WeddingConfigError } from "./wedding";
+
+/* ================================================================
+   Photo gallery — the couple's pictures for the story section
+
+   Photos sit in a folder next to the wedding configs and are
+   imported statically, so next/image knows their size and gets
+   a blur placeholder for each one at build time.
+   ================================================================ */
+
+export interface GalleryPhoto {
+  image: StaticImageData;
+  /* Describes the photo for screen readers and the lightbox caption */
+  alt: Localized;
+}
+
+export function validateGallery(input: unknown, source: string): GalleryPhoto[] {
+  const issues: Issues = [];
+  list(issues, input, source).forEach((p, i) => {
+    const photo = obj(issues, p, `${source}[${i}]`);
+    if (typeof (photo.image as StaticImageData | undefined)?.src !== "string") {
+      issues.push(`${source}[${i}].image must be an imported image`);
+    }
+    localized(issues, photo.alt, `${source}[${i}].alt`);
+  });
+  if (issues.length > 0) throw new WeddingConfigError(issues);
+  return input as GalleryPhoto[];
+}
@@ -0,0 +1,48 @@
+import type { GiftReservation } from "./gifts";
+import { newId, readCollection, updateCollection } from "./store";
+
+/* ================================================================
+   Registry reservations — server-only wrapper around the
+   "gift-reservations" collection, at most one per item
+   ================================================================ */
+
+const COLLECTION = "gift-reservations";
+
+export class GiftTakenError extends Error {
+  constructor(item: string) {
+    super(`Gift ${item} is already reserved`);
+    this.name = "GiftTakenError";
+  }
+}
+
+export async function listReservations(wedding?: string): Promise<GiftReservation[]> {
+  const items = await readCollection<GiftReservation>(COLLECTION);
+  return items
+    .filter((r) => !wedding || r.wedding === wedding)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/* The check and the write share one turn of the store's queue, so
+   two guests reserving the same item at once can't both succeed */
+export async function addReservation(
+  input: Pick<GiftReservation, "wedding" | "item" | "name" | "guestToken">
+): Promise<GiftReservation> {
+  const reservation: GiftReservation = {
+    ...input,
+    id: newId(),
+    createdAt: new Date().toISOString(),
+  };
+  await updateCollection<GiftReservation>(COLLECTION, (items) => {
+    if (items.some((r) => r.wedding === input.wedding && r.item === input.item)) {
+      throw new GiftTakenError(input.item);
+    }
+    return [...items, reservation];
+  });
+  return reservation;
+}
+
+export async function deleteReservation(id: string) {
+  await updateCollection<GiftReservation>(COLLECTION, (items) =>
+    items.filter((r) => r.id !== id)
+  );
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { epcPayload, formatIban, isValidIban } from "./gifts";
+
+describe("isValidIban", () => {
+  it("accepts IBANs whose checksum holds", () => {
+    expect(isValidIban("RO49AAAA1B31007593840000")).toBe(true);
+    expect(isValidIban("DE89370400440532013000")).toBe(true);
+  });
+
+  it("ignores spacing and case", () => {
+    expect(isValidIban("ro49 aaaa 1b31 0075 9384 0000")).toBe(true);
+  });
+
+  it("rejects a wrong check digit or a mistyped character", () => {
+    expect(isValidIban("RO48AAAA1B31007593840000")).toBe(false);
+    expect(isValidIban("RO49AAAA1B31007593840001")).toBe(false);
+  });
+
+  it("rejects what is not shaped like an IBAN", () => {
+    expect(isValidIban("")).toBe(false);
+    expect(isValidIban("1234AAAA1B31007593840000")).toBe(false);
+    expect(isValidIban("RO49AAAA")).toBe(false);
+  });
+});
+
+describe("formatIban", () => {
+  it("groups by four", () => {
+    expect(formatIban("ro49aaaa1b31007593840000")).toBe("RO49 AAAA 1B31 0075 9384 0000");
+  });
+});
+
+describe("epcPayload", () => {
+  it("writes the EPC lines with the IBAN compacted", () => {
+    const lines = epcPayload(
+      { holder: "Maria Popescu", iban: "RO49 AAAA 1B31 0075 9384 0000", bic: "AAAAROBU" },
+      "Nunta Maria & Andrei"
+    ).split("\n");
+    expect(lines).toEqual([
+      "BCD",
+      "002",
+      "1",
+      "SCT",
+      "AAAAROBU",
+      "Maria Popescu",
+      "RO49AAAA1B31007593840000",
+      "",
+      "",
+      "",
+      "Nunta Maria & Andrei",
+    ]);
+  });
+
+  it("cuts the remittance to 140 characters", () => {
+    const payload = epcPayload({ holder: "A", iban: "DE89370400440532013000" }, "x".repeat(200));
+    expect(payload.split("\n").at(-1)).toHaveLength(140);
+  });
+});
@@ -0,0 +1,98 @@
+import type { Localized } from "@/i18n";
+
+/* ================================================================
+   Gifts — bank details for a "dar" by transfer, and an optional
+   registry of items guests can reserve so nothing is bought twice
+
+   Safe to import from client components; reservations are stored
+   by gift-store.
+   ================================================================ */
+
+export interface BankAccount {
+  /* Account holder as the bank knows them */
+  holder: string;
+  iban: string;
+  bic?: string;
+  /* Bank name shown next to the IBAN */
+  bank?: string;
+}
+
+export interface RegistryItem {
+  /* Stable key reservations are stored under; never reuse one */
+  id: string;
+  title: Localized;
+  desc?: Localized;
+  /* Shop page the couple picked it from */
+  url?: string;
+}
+
+export interface GiftsConfig {
+  /* A line above the details, e.g. why the couple prefers a transfer */
+  note?: Localized;
+  bank?: BankAccount;
+  /* Revolut username, without the "@" */
+  revolut?: string;
+  registry?: RegistryItem[];
+}
+
+export interface GiftReservation {
+  id: string;
+  wedding: string;
+  item: string;
+  /* Empty when the guest chose to stay anonymous */
+  name: string;
+  /* Invitation it was made through */
+  guestToken?: string;
+  createdAt: string;
+}
+
+export type ReserveError = "taken" | "name" | "unknown" | "rate";
+
+export type ReserveResult = { ok: true } | { ok: false; error: ReserveError };
+
+export const MAX_RESERVER_NAME = 120;
+
+export const IBAN_RE = /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/;
+export const BIC_RE = /^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/;
+export const REVOLUT_RE = /^[a-z0-9._-]{3,32}$/i;
+
+const compact = (iban: string) => iban.replace(/\s+/g, "").toUpperCase();
+
+/* Checksum of ISO 13616: the rearranged number mod 97 is 1 */
+export function isValidIban(iban: string) {
+  const value = compact(iban);
+  if (!IBAN_RE.test(value)) return false;
+  const digits = (value.slice(4) + value.slice(0, 4)).replace(/[A-Z]/g, (c) =>
+    String(c.charCodeAt(0) - 55)
+  );
+  let rest = 0;
+  for (const d of digits) rest = (rest * 10 + Number(d)) % 97;
+  return rest === 1;
+}
+
+/* "RO49AAAA1B31007593840000" → "RO49 AAAA 1B31 0075 9384 0000" */
+export function formatIban(iban: string) {
+  return compact(iban).replace(/(.{4})(?=.)/g, "$1 ");
+}
+
+export function revolutUrl(username: string) {
+  return `https://revolut.me/${encodeURIComponent(username)}`;
+}
+
+/* Payload of an EPC (SEPA credit transfer) QR code, which banking
+   apps in the euro area read. The amount is left to the guest. */
+export function epcPayload(account: BankAccount, remittance: string) {
+  return [
+    "BCD",
+    "002",
+    "1",
+    "SCT",
+    account.bic ?? "",
+    account.holder.slice(0, 70),
+    compact(account.iban),
+    "",
+    "",
+    "",
+    remittance.slice(0, 140),
+  ].join("\n");
+}
@@ -0,0 +1,51 @@
+import { LOCALES, type Locale } from "@/i18n/config";
+import { MAX_GUESTS } from "./rsvp";
+import { EMAIL_RE, int, list, obj, oneOf, str, type Issues } from "./schema";
+import { WeddingConfigError } from "./wedding";
+
+/* ================================================================
+   Guest list — one record per invitation sent out
+
+   Each family gets a link with its own token. Guest lists live
+   next to the wedding configs but are only ever read on the
+   server, so one guest can never see another guest's token.
+   ================================================================ */
+
+export interface Guest {
+  token: string;
+  /* How the invitation addresses them, e.g. "Familia Popescu" */
+  displayName: string;
+  /* Seats reserved for this invitation, caps the RSVP stepper */
+  maxSeats: number;
+  /* Locale their link opens in */
+  language: Locale;
+  /* Where RSVP reminders go; guests without one aren't reminded */
+  email?: string;
+}
+
+const TOKEN_RE = /^[a-z0-9]{6,32}$/;
+
+export function validateGuestList(input: unknown, source: string): Guest[] {
+  const issues: Issues = [];
+  const seen = new Set<string>();
+
+  list(issues, input, source).forEach((g, i) => {
+    const path = `${source}[${i}]`;
+    const guest = obj(issues, g, path);
+    str(issues, guest.token, `${path}.token`, TOKEN_RE);
+    str(issues, guest.displayName, `${path}.displayName`);
+    int(issues, guest.maxSeats, `${path}.maxSeats`, 1, MAX_GUESTS);
+    oneOf(issues, guest.language, `${path}.language`, LOCALES);
+    if (guest.email !== undefined) {
+      str(issues, guest.email, `${path}.email`, EMAIL_RE);
+    }
+
+    if (seen.has(guest.token as string)) {
+      issues.push(`${path}.token "${guest.token}" is used twice`);
+    }
+    seen.add(guest.token as string);
+  });
+
+  if (issues.length > 0) throw new WeddingConfigError(issues);
+  return input as Guest[];
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { buildCalendar, type CalendarEvent } from "./ics";
+
+const event: CalendarEvent = {
+  uid: "test-1@example.com",
+  start: { date: "2026-08-15", time: "22:30" },
+  duration: 120,
+  summary: "Petrecere; dans, voie bună",
+  location: "Salon Trandafirilor\nStrada Florilor 1",
+  reminders: ["P1D", "PT1H"],
+};
+
+const build = (events = [event]) =>
+  buildCalendar({ name: "Maria & Andrei", timeZone: "Europe/Bucharest", events });
+
+/* Continuation lines joined back, as a calendar app reads them */
+const unfold = (ics: string) => ics.replace(/\r\n /g, "").split("\r\n");
+
+describe("buildCalendar", () => {
+  it("ends every line with CRLF", () => {
+    const ics = build();
+    expect(ics.endsWith("\r\n")).toBe(true);
+    expect(ics.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+  });
+
+  it("escapes text values", () => {
+    const lines = unfold(build());
+    expect(lines).toContain("SUMMARY:Petrecere\\; dans\\, voie bună");
+    expect(lines).toContain("LOCATION:Salon Trandafirilor\\nStrada Florilor 1");
+  });
+
+  it("writes local times with the zone and ends past midnight on the next day", () => {
+    const lines = unfold(build());
+    expect(lines).toContain("DTSTART;TZID=Europe/Bucharest:20260815T223000");
+    expect(lines).toContain("DTEND;TZID=Europe/Bucharest:20260816T003000");
+  });
+
+  it("adds one alarm per reminder", () => {
+    const lines = unfold(build());
+    expect(lines.filter((l) => l === "BEGIN:VALARM")).toHaveLength(2);
+    expect(lines).toContain("TRIGGER:-P1D");
+    expect(lines).toContain("TRIGGER:-PT1H");
+  });
+
+  it("describes the zone's summer and winter time for the year", () => {
+    const lines = unfold(build());
+    expect(lines).toContain("BEGIN:VTIMEZONE");
+    expect(lines).toContain("BEGIN:DAYLIGHT");
+    expect(lines).toContain("TZOFFSETTO:+0300");
+    expect(lines).toContain("BEGIN:STANDARD");
+    expect(lines).toContain("TZOFFSETTO:+0200");
+  });
+
+  it("folds lines at 75 octets without splitting characters", () => {
+    const long = { ...event, summary: "Nuntă ".repeat(40) };
+    const ics = build([long]);
+    for (const line of ics.split("\r\n")) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(unfold(ics)).toContain(`SUMMARY:${"Nuntă ".repeat(40)}`);
+  });
+});
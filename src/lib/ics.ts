@@ -0,0 +1,179 @@
+import { addDays, minutesOf, zoneOffset } from "./time";
+
+/* ================================================================
+   iCalendar (RFC 5545) writer
+
+   Times are written as local wall-clock times with a TZID, and
+   the matching VTIMEZONE is derived from Intl for the year in
+   question, so calendars show the right hour wherever the guest
+   opens the file.
+   ================================================================ */
+
+export interface LocalTime {
+  date: string;
+  time: string;
+}
+
+export interface CalendarEvent {
+  uid: string;
+  start: LocalTime;
+  /* Minutes after start */
+  duration: number;
+  summary: string;
+  location?: string;
+  description?: string;
+  /* Reminder offsets before start, e.g. "P1D", "PT1H" */
+  reminders: string[];
+}
+
+export interface Calendar {
+  name: string;
+  timeZone: string;
+  events: CalendarEvent[];
+}
+
+function escapeText(text: string) {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/* Lines longer than 75 octets are folded onto continuation lines */
+function fold(line: string) {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (size + bytes > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function stamp({ date, time }: LocalTime) {
+  return `${date.replace(/-/g, "")}T${time.replace(":", "")}00`;
+}
+
+function utcStamp(instant: Date) {
+  return instant.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function plusMinutes(start: LocalTime, minutes: number): LocalTime {
+  const total = minutesOf(start.time) + minutes;
+  const days = Math.floor(total / 1440);
+  const rest = total % 1440;
+  const hh = String(Math.floor(rest / 60)).padStart(2, "0");
+  const mm = String(rest % 60).padStart(2, "0");
+  return { date: addDays(start.date, days), time: `${hh}:${mm}` };
+}
+
+function formatOffset(minutes: number) {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}${String(abs % 60).padStart(2, "0")}`;
+}
+
+/* VTIMEZONE with one STANDARD/DAYLIGHT block per offset change in `year` */
+function vtimezone(timeZone: string, year: number) {
+  const hour = 3600000;
+  const transitions: { at: Date; from: number; to: number }[] = [];
+  let t = Date.UTC(year, 0, 1);
+  let offset = zoneOffset(new Date(t), timeZone);
+  const end = Date.UTC(year + 1, 0, 1);
+  const initial = offset;
+  for (t += hour; t < end; t += hour) {
+    const next = zoneOffset(new Date(t), timeZone);
+    if (next !== offset) {
+      transitions.push({ at: new Date(t), from: offset, to: next });
+      offset = next;
+    }
+  }
+
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+  if (transitions.length === 0) {
+    lines.push(
+      "BEGIN:STANDARD",
+      "DTSTART:19700101T000000",
+      `TZOFFSETFROM:${formatOffset(initial)}`,
+      `TZOFFSETTO:${formatOffset(initial)}`,
+      "END:STANDARD"
+    );
+  }
+  for (const { at, from, to } of transitions) {
+    /* Onset is expressed in the wall-clock time before the change */
+    const local = new Date(at.getTime() + from * 60000);
+    const kind = to > from ? "DAYLIGHT" : "STANDARD";
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${utcStamp(local).replace("Z", "")}`,
+      `TZOFFSETFROM:${formatOffset(from)}`,
+      `TZOFFSETTO:${formatOffset(to)}`,
+      `END:${kind}`
+    );
+  }
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+export function buildCalendar({ name, timeZone, events }: Calendar) {
+  const now = utcStamp(new Date());
+  const years = new Set(events.map((e) => Number(e.start.date.slice(0, 4))));
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//flower.hero//Wedding invitation//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    ...[...years].flatMap((year) => vtimezone(timeZone, year)),
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${now}`,
+      `DTSTART;TZID=${timeZone}:${stamp(event.start)}`,
+      `DTEND;TZID=${timeZone}:${stamp(plusMinutes(event.start, event.duration))}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    for (const before of event.reminders) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeText(event.summary)}`,
+        `TRIGGER:-${before}`,
+        "END:VALARM"
+      );
+    }
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+export function calendarResponse(ics: string, filename: string) {
+  return new Response(ics, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+}
@@ -0,0 +1,132 @@
+import { sendSmtp, type MimeAttachment, type MimeMessage } from "./smtp";
+import { newId, readCollection, updateCollection } from "./store";
+
+/* ================================================================
+   Outgoing mail — pluggable transport, retries and a sent log
+
+   MAIL_TRANSPORT picks where messages go:
+     smtp     SMTP_HOST / SMTP_PORT (MailHog: localhost:1025),
+              SMTP_SECURE=true for implicit TLS, SMTP_USER/PASS
+     webhook  MAIL_WEBHOOK_URL receives each message as JSON
+     log      (default) nothing leaves the server, but every
+              message still lands in the log below
+   ================================================================ */
+
+export type Mail = Omit<MimeMessage, "from">;
+export type { MimeAttachment as MailAttachment };
+
+export interface MailTransport {
+  name: string;
+  send(message: MimeMessage): Promise<void>;
+}
+
+export type MailKind = "rsvp" | "confirmation" | "reminder";
+
+export interface MailLogEntry {
+  id: string;
+  kind: MailKind;
+  wedding: string;
+  /* Guest token a reminder was sent for, to avoid sending it twice */
+  guestToken?: string;
+  to: string[];
+  subject: string;
+  transport: string;
+  status: "sent" | "failed";
+  attempts: number;
+  error?: string;
+  createdAt: string;
+}
+
+const COLLECTION = "mail";
+const ATTEMPTS = 3;
+const RETRY_DELAY = 2000;
+
+const FROM = process.env.MAIL_FROM ?? "Invitație de nuntă <nunta@localhost>";
+
+const smtp: MailTransport = {
+  name: "smtp",
+  send: (message) =>
+    sendSmtp(
+      {
+        host: process.env.SMTP_HOST ?? "localhost",
+        port: Number(process.env.SMTP_PORT ?? 1025),
+        secure: process.env.SMTP_SECURE === "true",
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      },
+      message
+    ),
+};
+
+const webhook: MailTransport = {
+  name: "webhook",
+  async send(message) {
+    const url = process.env.MAIL_WEBHOOK_URL;
+    if (!url) throw new Error("MAIL_WEBHOOK_URL is not set");
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(message),
+    });
+    if (!res.ok) throw new Error(`Webhook answered ${res.status}`);
+  },
+};
+
+const log: MailTransport = {
+  name: "log",
+  async send(message) {
+    console.info(`[mail] ${message.to.join(", ")}: ${message.subject}`);
+  },
+};
+
+const TRANSPORTS: Record<string, MailTransport> = { smtp, webhook, log };
+
+export function mailTransport(): MailTransport {
+  const name = process.env.MAIL_TRANSPORT ?? "log";
+  const transport = TRANSPORTS[name];
+  if (!transport) throw new Error(`Unknown MAIL_TRANSPORT "${name}"`);
+  return transport;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/* Sends with exponential backoff and records the outcome. Never
+   throws: a failed email must not fail the request behind it. */
+export async function sendMail(
+  mail: Mail,
+  meta: Pick<MailLogEntry, "kind" | "wedding" | "guestToken">,
+  transport: MailTransport = mailTransport()
+): Promise<MailLogEntry> {
+  let attempts = 0;
+  let error: string | undefined;
+  while (attempts < ATTEMPTS) {
+    attempts++;
+    try {
+      await transport.send({ ...mail, from: FROM });
+      error = undefined;
+      break;
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+      if (attempts < ATTEMPTS) await sleep(RETRY_DELAY * 2 ** (attempts - 1));
+    }
+  }
+
+  const entry: MailLogEntry = {
+    id: newId(),
+    ...meta,
+    to: mail.to,
+    subject: mail.subject,
+    transport: transport.name,
+    status: error ? "failed" : "sent",
+    attempts,
+    error,
+    createdAt: new Date().toISOString(),
+  };
+  await updateCollection<MailLogEntry>(COLLECTION, (items) => [...items, entry]);
+  return entry;
+}
+
+export async function listMailLog(): Promise<MailLogEntry[]> {
+  const items = await readCollection<MailLogEntry>(COLLECTION);
+  return items.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
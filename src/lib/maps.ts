@@ -0,0 +1,69 @@
+import type { Coordinates } from "./wedding";
+
+/* ================================================================
+   Map helpers — navigation deep links and Web Mercator math
+   ================================================================ */
+
+export const TILE_SIZE = 256;
+
+export interface DeepLink {
+  app: "google" | "waze" | "apple";
+  label: string;
+  href: string;
+}
+
+export function deepLinks({ lat, lng }: Coordinates, name: string): DeepLink[] {
+  const q = encodeURIComponent(name);
+  return [
+    {
+      app: "google",
+      label: "Google Maps",
+      href: `https://www.google.com/maps/search/?api=1&query=${lat},${lng}`,
+    },
+    {
+      app: "waze",
+      label: "Waze",
+      href: `https://waze.com/ul?ll=${lat},${lng}&navigate=yes`,
+    },
+    {
+      app: "apple",
+      label: "Apple Maps",
+      href: `https://maps.apple.com/?ll=${lat},${lng}&q=${q}`,
+    },
+  ];
+}
+
+/* Position in world pixels at `zoom` */
+export function project({ lat, lng }: Coordinates, zoom: number) {
+  const size = TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin((lat * Math.PI) / 180);
+  return {
+    x: ((lng + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  };
+}
+
+export interface MapView {
+  center: Coordinates;
+  zoom: number;
+}
+
+/* Highest zoom (up to `maxZoom`) at which every point fits the viewport */
+export function fitView(
+  points: Coordinates[],
+  width: number,
+  height: number,
+  maxZoom: number
+): MapView {
+  const center = {
+    lat: (Math.min(...points.map((p) => p.lat)) + Math.max(...points.map((p) => p.lat))) / 2,
+    lng: (Math.min(...points.map((p) => p.lng)) + Math.max(...points.map((p) => p.lng))) / 2,
+  };
+  for (let zoom = maxZoom; zoom > 1; zoom--) {
+    const px = points.map((p) => project(p, zoom));
+    const w = Math.max(...px.map((p) => p.x)) - Math.min(...px.map((p) => p.x));
+    const h = Math.max(...px.map((p) => p.y)) - Math.min(...px.map((p) => p.y));
+    if (w <= width && h <= height) return { center, zoom };
+  }
+  return { center, zoom: 1 };
+}
@@ -0,0 +1,41 @@
+import type { Metadata } from "next";
+import { getMessages, INTL_LOCALES, LOCALES, type Locale } from "@/i18n";
+import { coupleNames, weddingTitle, type WeddingConfig } from "./wedding";
+
+/* ================================================================
+   Page metadata of an invitation — title, canonical link, the
+   Open Graph and Twitter cards a shared link is previewed with,
+   and the web app manifest for adding it to a home screen.
+   The preview image itself comes from the opengraph-image and
+   twitter-image routes next to the page.
+   ================================================================ */
+
+/* `path` is the URL being shared. Guest links share their own
+   preview, but the canonical page is always the wedding's. */
+export function weddingMetadata(
+  config: WeddingConfig,
+  locale: Locale,
+  path: string
+): Metadata {
+  const title = weddingTitle(config, locale);
+  const description = getMessages(locale).meta.description;
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: `/${locale}/${config.slug}`,
+      languages: Object.fromEntries(LOCALES.map((l) => [l, `/${l}/${config.slug}`])),
+    },
+    openGraph: {
+      type: "website",
+      url: path,
+      siteName: coupleNames(config),
+      locale: INTL_LOCALES[locale].replace("-", "_"),
+      title,
+      description,
+    },
+    twitter: { card: "summary_large_image", title, description },
+    manifest: `/${locale}/${config.slug}/manifest.webmanifest`,
+    appleWebApp: { capable: true, title: coupleNames(config) },
+  };
+}
@@ -0,0 +1,99 @@
+import { guestsOf } from "@/config";
+import { DEFAULT_LOCALE } from "@/i18n";
+import { confirmationEmail, coupleEmail, reminderEmail } from "./emails";
+import type { Guest } from "./guests";
+import { listMailLog, sendMail, type MailLogEntry } from "./mail";
+import type { Rsvp } from "./rsvp";
+import { listRsvps } from "./rsvp-store";
+import { getScheduleChanges } from "./schedule-store";
+import { localDate } from "./time";
+import type { WeddingConfig } from "./wedding";
+
+/* ================================================================
+   Notifications — who gets which email, and when
+   ================================================================ */
+
+/* Base URL for links in emails, from SITE_URL only: the request's
+   Host and X-Forwarded-* headers are the client's to choose, and
+   emails must not link wherever a visitor says. Undefined when it
+   is not set, and then no email goes out. */
+export function siteOrigin() {
+  return process.env.SITE_URL?.replace(/\/$/, "") || undefined;
+}
+
+/* Run after a response is saved: the couple hears about it and,
+   with `confirm`, the guest gets a confirmation if they left an
+   address */
+export async function notifyRsvp(
+  config: WeddingConfig,
+  rsvp: Rsvp,
+  origin: string,
+  { confirm }: { confirm: boolean }
+) {
+  const wedding = config.slug;
+  const jobs: Promise<MailLogEntry>[] = [];
+  if (config.rsvp.notify?.length) {
+    jobs.push(sendMail(coupleEmail(config, rsvp, origin), { kind: "rsvp", wedding }));
+  }
+  if (confirm && rsvp.email) {
+    const mail = confirmationEmail(
+      config,
+      rsvp,
+      await getScheduleChanges(wedding),
+      rsvp.locale ?? DEFAULT_LOCALE,
+      new URL(origin).hostname
+    );
+    jobs.push(sendMail(mail, { kind: "confirmation", wedding }));
+  }
+  await Promise.all(jobs);
+}
+
+/* Invited guests with an address who have neither answered nor
+   already been reminded */
+export function pendingGuests(
+  config: WeddingConfig,
+  rsvps: Rsvp[],
+  log: MailLogEntry[]
+): Guest[] {
+  const answered = new Set(
+    rsvps.filter((r) => r.wedding === config.slug).map((r) => r.guestToken)
+  );
+  const reminded = new Set(
+    log
+      .filter(
+        (e) =>
+          e.kind === "reminder" && e.wedding === config.slug && e.status === "sent"
+      )
+      .map((e) => e.guestToken)
+  );
+  return guestsOf(config.slug).filter(
+    (g) => g.email && !answered.has(g.token) && !reminded.has(g.token)
+  );
+}
+
+export function rsvpOpen(config: WeddingConfig, now = new Date()) {
+  return localDate(now, config.timeZone) <= config.rsvp.deadline;
+}
+
+export interface ReminderBatch {
+  sent: number;
+  failed: number;
+}
+
+export async function remindNonResponders(
+  config: WeddingConfig,
+  origin: string
+): Promise<ReminderBatch> {
+  const pending = pendingGuests(config, await listRsvps(), await listMailLog());
+  const batch = { sent: 0, failed: 0 };
+  /* One at a time, to stay under relay rate limits */
+  for (const guest of pending) {
+    const entry = await sendMail(reminderEmail(config, guest, origin), {
+      kind: "reminder",
+      wedding: config.slug,
+      guestToken: guest.token,
+    });
+    batch[entry.status === "sent" ? "sent" : "failed"]++;
+  }
+  return batch;
+}
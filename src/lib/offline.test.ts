@@ -0,0 +1,27 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { isNetworkError } from "./offline";
+
+describe("isNetworkError", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("recognizes a fetch that got no response", () => {
+    vi.stubGlobal("navigator", { onLine: true });
+    expect(isNetworkError(new TypeError("Failed to fetch"))).toBe(true);
+    expect(
+      isNetworkError(new TypeError("NetworkError when attempting to fetch resource."))
+    ).toBe(true);
+    expect(isNetworkError(new TypeError("Load failed"))).toBe(true);
+    expect(isNetworkError(new TypeError("Offline"))).toBe(true);
+  });
+
+  it("leaves other errors to the caller", () => {
+    vi.stubGlobal("navigator", { onLine: true });
+    expect(isNetworkError(new TypeError("Cannot read properties of undefined"))).toBe(false);
+    expect(isNetworkError(new Error("Failed to fetch"))).toBe(false);
+  });
+
+  it("treats anything failing offline as the network", () => {
+    vi.stubGlobal("navigator", { onLine: false });
+    expect(isNetworkError(new Error("Internal error"))).toBe(true);
+  });
+});
@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from "react";
+
+/* ================================================================
+   Offline support in the browser — whether there is a connection,
+   and an outbox in IndexedDB for submissions made without one
+
+   Queued forms are kept as their FormData entries (files
+   included) and sent again, oldest first, when the connection
+   comes back or the page is next opened online.
+   ================================================================ */
+
+function subscribe(onChange: () => void) {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+}
+
+/* Assumed online during server render and hydration */
+export function useOnline() {
+  return useSyncExternalStore(
+    subscribe,
+    () => navigator.onLine,
+    () => true
+  );
+}
+
+/* What browsers say when fetch gets no response at all: Chrome,
+   Firefox, Safari, and the "Offline" the forms throw themselves */
+const FETCH_FAILED = /failed to fetch|networkerror|load failed|offline/i;
+
+/* A server action that never reached the server. Any other
+   TypeError is a bug, and sending it again won't help */
+export function isNetworkError(err: unknown) {
+  return (
+    !navigator.onLine || (err instanceof TypeError && FETCH_FAILED.test(err.message))
+  );
+}
+
+/* ── Outbox ── */
+
+export type OutboxKind = "rsvp" | "photo";
+
+interface OutboxEntry {
+  id?: number;
+  kind: OutboxKind;
+  /* Lets the page that queued it match the entry to what it shows */
+  ref: string;
+  fields: [string, FormDataEntryValue][];
+  createdAt: string;
+}
+
+const DB = "flower.outbox";
+const STORE = "entries";
+
+function open() {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB, 1);
+    request.onupgradeneeded = () =>
+      request.result.createObjectStore(STORE, { keyPath: "id", autoIncrement: true });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function run<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+) {
+  const db = await open();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+async function entries(kind: OutboxKind) {
+  const all = await run<OutboxEntry[]>("readonly", (s) => s.getAll());
+  return all.filter((e) => e.kind === kind);
+}
+
+async function enqueue(kind: OutboxKind, ref: string, data: FormData) {
+  const entry: OutboxEntry = {
+    kind,
+    ref,
+    fields: [...data.entries()],
+    createdAt: new Date().toISOString(),
+  };
+  await run("readwrite", (s) => s.add(entry));
+}
+
+/* Sends whatever `kind` has queued through `send`. An entry stays
+   queued while the network fails; any other outcome, including
+   an error from the server, takes it out. */
+export function useOutbox(
+  kind: OutboxKind,
+  send: (data: FormData, ref: string) => Promise<void>
+) {
+  const [queued, setQueued] = useState<string[]>([]);
+  const sendRef = useRef(send);
+  const flushing = useRef(false);
+
+  useEffect(() => {
+    sendRef.current = send;
+  });
+
+  const refresh = useCallback(async () => {
+    setQueued((await entries(kind)).map((e) => e.ref));
+  }, [kind]);
+
+  const flush = useCallback(async () => {
+    if (flushing.current || !navigator.onLine) return;
+    flushing.current = true;
+    try {
+      for (const entry of await entries(kind)) {
+        const data = new FormData();
+        entry.fields.forEach(([key, value]) => data.append(key, value));
+        try {
+          await sendRef.current(data, entry.ref);
+        } catch (err) {
+          if (isNetworkError(err)) break;
+          console.error(`Dropping a queued ${kind} submission`, err);
+        }
+        await run("readwrite", (s) => s.delete(entry.id!));
+      }
+    } finally {
+      flushing.current = false;
+      await refresh();
+    }
+  }, [kind, refresh]);
+
+  useEffect(() => {
+    if (!("indexedDB" in window)) return;
+    refresh()
+      .then(flush)
+      .catch(() => {});
+    const onOnline = () => void flush().catch(() => {});
+    window.addEventListener("online", onOnline);
+    return () => window.removeEventListener("online", onOnline);
+  }, [refresh, flush]);
+
+  const add = useCallback(
+    async (ref: string, data: FormData) => {
+      await enqueue(kind, ref, data);
+      await refresh();
+    },
+    [kind, refresh]
+  );
+
+  return { queued, enqueue: add };
+}
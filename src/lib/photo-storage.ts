@@ -0,0 +1,156 @@
+import { createHash, createHmac } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { DATA_DIR } from "./store";
+
+/* ================================================================
+   Photo storage — where guest photo files end up
+
+   PHOTO_STORAGE picks the backend:
+     local  (default) files under PHOTOS_DIR, ./data/photos
+     s3     any S3-compatible bucket (MinIO: S3_ENDPOINT
+            http://localhost:9000), addressed path-style:
+            S3_BUCKET, S3_REGION, S3_ACCESS_KEY_ID,
+            S3_SECRET_ACCESS_KEY
+
+   Requests to S3 are signed with Signature Version 4 by hand;
+   three verbs on single objects don't justify an SDK.
+   ================================================================ */
+
+export interface PhotoStorage {
+  name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  /* null when there is no such object */
+  get(key: string): Promise<Buffer | null>;
+  remove(key: string): Promise<void>;
+}
+
+const PHOTOS_DIR = process.env.PHOTOS_DIR ?? path.join(DATA_DIR, "photos");
+
+function localPath(key: string) {
+  const file = path.resolve(PHOTOS_DIR, key);
+  if (!file.startsWith(path.resolve(PHOTOS_DIR) + path.sep)) {
+    throw new Error(`Photo key escapes the photo directory: ${key}`);
+  }
+  return file;
+}
+
+const local: PhotoStorage = {
+  name: "local",
+  async put(key, body) {
+    const file = localPath(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, body);
+  },
+  async get(key) {
+    try {
+      return await fs.readFile(localPath(key));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  },
+  async remove(key) {
+    await fs.rm(localPath(key), { force: true });
+  },
+};
+
+/* ── S3 ── */
+
+const sha256 = (data: string | Buffer) =>
+  createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string) =>
+  createHmac("sha256", key).update(data).digest();
+
+function s3Config() {
+  const endpoint = process.env.S3_ENDPOINT;
+  const bucket = process.env.S3_BUCKET;
+  const accessKey = process.env.S3_ACCESS_KEY_ID;
+  const secretKey = process.env.S3_SECRET_ACCESS_KEY;
+  if (!endpoint || !bucket || !accessKey || !secretKey) {
+    throw new Error("S3_ENDPOINT, S3_BUCKET and the S3 keys must be set");
+  }
+  const region = process.env.S3_REGION ?? "us-east-1";
+  return { endpoint: endpoint.replace(/\/$/, ""), bucket, region, accessKey, secretKey };
+}
+
+/* Signs and sends one request for `key`, see
+   https://docs.aws.amazon.com/AmazonS3/latest/API/sig-v4-header-based-auth.html */
+async function s3Request(
+  method: "GET" | "PUT" | "DELETE",
+  key: string,
+  body?: Buffer,
+  contentType?: string
+) {
+  const { endpoint, bucket, region, accessKey, secretKey } = s3Config();
+  const url = new URL(
+    `${endpoint}/${bucket}/${key.split("/").map(encodeURIComponent).join("/")}`
+  );
+
+  const stamp = new Date().toISOString().replace(/[-:]|\.\d{3}/g, "");
+  const day = stamp.slice(0, 8);
+  const payloadHash = sha256(body ?? "");
+  const headers: Record<string, string> = {
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": stamp,
+    ...(contentType ? { "content-type": contentType } : {}),
+  };
+  /* fetch sends Host itself, but it must still be signed */
+  const signed: Record<string, string> = { ...headers, host: url.host };
+  const names = Object.keys(signed).sort();
+  const canonical = [
+    method,
+    url.pathname,
+    "",
+    ...names.map((n) => `${n}:${signed[n]}`),
+    "",
+    names.join(";"),
+    payloadHash,
+  ].join("\n");
+
+  const scope = `${day}/${region}/s3/aws4_request`;
+  const toSign = ["AWS4-HMAC-SHA256", stamp, scope, sha256(canonical)].join("\n");
+  const signingKey = ["s3", "aws4_request"].reduce(
+    (k, part) => hmac(k, part),
+    hmac(hmac(`AWS4${secretKey}`, day), region)
+  );
+  const signature = createHmac("sha256", signingKey).update(toSign).digest("hex");
+
+  return fetch(url, {
+    method,
+    body: body ? new Uint8Array(body) : undefined,
+    headers: {
+      ...headers,
+      authorization: `AWS4-HMAC-SHA256 Credential=${accessKey}/${scope}, SignedHeaders=${names.join(";")}, Signature=${signature}`,
+    },
+  });
+}
+
+const s3: PhotoStorage = {
+  name: "s3",
+  async put(key, body, contentType) {
+    const res = await s3Request("PUT", key, body, contentType);
+    if (!res.ok) throw new Error(`S3 PUT ${key} answered ${res.status}`);
+  },
+  async get(key) {
+    const res = await s3Request("GET", key);
+    if (res.status === 404) return null;
+    if (!res.ok) throw new Error(`S3 GET ${key} answered ${res.status}`);
+    return Buffer.from(await res.arrayBuffer());
+  },
+  async remove(key) {
+    const res = await s3Request("DELETE", key);
+    if (!res.ok && res.status !== 404) {
+      throw new Error(`S3 DELETE ${key} answered ${res.status}`);
+    }
+  },
+};
+
+const BACKENDS: Record<string, PhotoStorage> = { local, s3 };
+
+export function photoStorage(): PhotoStorage {
+  const name = process.env.PHOTO_STORAGE ?? "local";
+  const backend = BACKENDS[name];
+  if (!backend) throw new Error(`Unknown PHOTO_STORAGE "${name}"`);
+  return backend;
+}
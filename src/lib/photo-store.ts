@@ -0,0 +1,125 @@
+import sharp from "sharp";
+import { photoStorage } from "./photo-storage";
+import type { Photo, PhotoStatus, PhotoVariant } from "./photos";
+import { newId, readCollection, updateCollection } from "./store";
+
+/* ================================================================
+   Photo persistence — server-only. Records live in the "photos"
+   collection, the image files in the configured photo storage.
+
+   Uploads are re-encoded rather than stored as sent: the image
+   is turned upright, capped in size and stripped of its metadata
+   (GPS position included) before anyone else can see it.
+   ================================================================ */
+
+const COLLECTION = "photos";
+
+const FULL_SIZE = 2560;
+const THUMB_SIZE = 640;
+const BLUR_SIZE = 10;
+
+function keyOf(photo: Pick<Photo, "id" | "wedding">, variant: PhotoVariant) {
+  return `${photo.wedding}/${photo.id}${variant === "thumb" ? ".thumb" : ""}.jpg`;
+}
+
+export class PhotoFormatError extends Error {
+  constructor(cause: unknown) {
+    super("The upload is not a readable image", { cause });
+    this.name = "PhotoFormatError";
+  }
+}
+
+async function render(data: Buffer) {
+  try {
+    return await encode(data);
+  } catch (err) {
+    throw new PhotoFormatError(err);
+  }
+}
+
+async function encode(data: Buffer) {
+  const image = sharp(data, { failOn: "error" }).rotate();
+  const full = await image
+    .clone()
+    .resize(FULL_SIZE, FULL_SIZE, { fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality: 85, mozjpeg: true })
+    .toBuffer({ resolveWithObject: true });
+  const thumb = await image
+    .clone()
+    .resize(THUMB_SIZE, THUMB_SIZE, { fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality: 78, mozjpeg: true })
+    .toBuffer();
+  const blur = await image
+    .clone()
+    .resize(BLUR_SIZE, BLUR_SIZE, { fit: "inside" })
+    .webp({ quality: 50 })
+    .toBuffer();
+  return {
+    full: full.data,
+    width: full.info.width,
+    height: full.info.height,
+    thumb,
+    blurDataURL: `data:image/webp;base64,${blur.toString("base64")}`,
+  };
+}
+
+export async function addPhoto(
+  data: Buffer,
+  meta: Pick<Photo, "wedding" | "guestToken" | "uploader">
+): Promise<Photo> {
+  const rendered = await render(data);
+  const photo: Photo = {
+    id: newId(),
+    ...meta,
+    width: rendered.width,
+    height: rendered.height,
+    blurDataURL: rendered.blurDataURL,
+    status: "pending",
+    createdAt: new Date().toISOString(),
+  };
+
+  const storage = photoStorage();
+  await storage.put(keyOf(photo, "full"), rendered.full, "image/jpeg");
+  await storage.put(keyOf(photo, "thumb"), rendered.thumb, "image/jpeg");
+  await updateCollection<Photo>(COLLECTION, (items) => [...items, photo]);
+  return photo;
+}
+
+export async function listPhotos(
+  filter: { wedding?: string; status?: PhotoStatus } = {}
+): Promise<Photo[]> {
+  const items = await readCollection<Photo>(COLLECTION);
+  return items
+    .filter(
+      (p) =>
+        (!filter.wedding || p.wedding === filter.wedding) &&
+        (!filter.status || p.status === filter.status)
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getPhoto(id: string) {
+  const items = await readCollection<Photo>(COLLECTION);
+  return items.find((p) => p.id === id);
+}
+
+export function readPhotoFile(photo: Photo, variant: PhotoVariant) {
+  return photoStorage().get(keyOf(photo, variant));
+}
+
+export async function setPhotoStatus(id: string, status: PhotoStatus) {
+  await updateCollection<Photo>(COLLECTION, (items) =>
+    items.map((p) => (p.id === id ? { ...p, status } : p))
+  );
+}
+
+export async function deletePhoto(id: string) {
+  const photo = await getPhoto(id);
+  if (!photo) return;
+  const storage = photoStorage();
+  await storage.remove(keyOf(photo, "full"));
+  await storage.remove(keyOf(photo, "thumb"));
+  await updateCollection<Photo>(COLLECTION, (items) =>
+    items.filter((p) => p.id !== id)
+  );
+}
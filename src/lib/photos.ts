@@ -0,0 +1,67 @@
+import type { StaticImageData } from "next/image";
+import { weddingTimes, type WeddingConfig } from "./wedding";
+
+/* ================================================================
+   Guest photos — shared by the upload page, the album and admin
+
+   Guests upload after the wedding has started; every photo waits
+   for the couple's approval before it appears in the album.
+   ================================================================ */
+
+export const PHOTO_TYPES = ["image/jpeg", "image/png", "image/webp"];
+export const MAX_PHOTO_BYTES = 15 * 1024 * 1024;
+
+export type PhotoStatus = "pending" | "approved" | "rejected";
+
+export interface Photo {
+  id: string;
+  wedding: string;
+  /* Invitation it was uploaded through; unset for the shared code */
+  guestToken?: string;
+  uploader: string;
+  /* Of the stored full-size image */
+  width: number;
+  height: number;
+  /* Tiny inline preview for next/image's blur placeholder */
+  blurDataURL: string;
+  status: PhotoStatus;
+  createdAt: string;
+}
+
+/* Keys into the `photos.errors` message catalog */
+export type PhotoErrorCode = "type" | "size" | "unreadable" | "closed" | "access" | "rate";
+
+export type PhotoUploadResult =
+  | { ok: true; photo: Photo }
+  | { ok: false; error: PhotoErrorCode };
+
+/* What can be told from the file before uploading it; the server
+   checks again and also decodes the image */
+export function checkPhotoFile(
+  file: { type: string; size: number }
+): PhotoErrorCode | undefined {
+  if (!PHOTO_TYPES.includes(file.type)) return "type";
+  if (file.size === 0 || file.size > MAX_PHOTO_BYTES) return "size";
+  return undefined;
+}
+
+/* Uploads are taken from the start of the wedding day on */
+export function albumOpen(config: WeddingConfig, now = Date.now()) {
+  return now >= weddingTimes(config).dayStart;
+}
+
+export type PhotoVariant = "full" | "thumb";
+
+export function photoUrl(id: string, variant: PhotoVariant) {
+  return `/api/photos/${id}/${variant}`;
+}
+
+/* The full-size image in the shape next/image takes for imports */
+export function photoImage(photo: Photo): StaticImageData {
+  return {
+    src: photoUrl(photo.id, "full"),
+    width: photo.width,
+    height: photo.height,
+    blurDataURL: photo.blurDataURL,
+  };
+}
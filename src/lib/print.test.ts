@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { getWedding } from "@/config";
+import { invitationPdf, seatingPdf, wishesPdf } from "./print";
+import type { Rsvp } from "./rsvp";
+import type { SeatingPlan } from "./seating";
+
+const config = getWedding("maria-andrei")!;
+
+const rsvp = (id: string, name: string): Rsvp => ({
+  id,
+  wedding: config.slug,
+  name,
+  email: "",
+  guests: 2,
+  attendance: "yes",
+  people: [
+    { name, menu: "standard", diet: [] },
+    { name: "Ștefan Țurcanu", menu: "vegetarian", diet: ["gluten"] },
+  ],
+  accommodation: false,
+  transport: false,
+  notes: "",
+  createdAt: "2026-06-01T10:00:00.000Z",
+});
+
+const plan: SeatingPlan = {
+  wedding: config.slug,
+  tables: [
+    { id: "t1", number: 1, capacity: 10 },
+    { id: "t2", number: 2, capacity: 8 },
+  ],
+  seats: { a: "t1" },
+  updatedAt: "2026-06-02T10:00:00.000Z",
+};
+
+/* The document title, which PDFKit writes as a UTF-16 string in
+   an object of its own */
+function title(pdf: Buffer) {
+  const body = pdf.toString("latin1");
+  const ref = body.match(/\/Title (\d+) 0 R/)![1];
+  const raw = body.match(new RegExp(`\\n${ref} 0 obj\\n\\(([\\s\\S]*?)\\)\\nendobj`))![1];
+  const bytes = Buffer.from(raw.replace(/\\([\\()])/g, "$1"), "latin1");
+  return bytes.subarray(2).swap16().toString("utf16le");
+}
+
+function expectTextPdf(pdf: Buffer, images: number) {
+  const body = pdf.toString("latin1");
+  expect(body.startsWith("%PDF-")).toBe(true);
+  /* Embedded, subset fonts with a map back to the characters */
+  expect(body).toContain("/FontFile2");
+  expect(body).toContain("/ToUnicode");
+  expect(body.match(/\/Subtype \/Image/g) ?? []).toHaveLength(images);
+}
+
+describe("seatingPdf", () => {
+  it("sets its text as text, in the language asked for", async () => {
+    const rsvps = [rsvp("a", "Ioana Popescu"), rsvp("b", "Mihai Ionescu")];
+    const ro = await seatingPdf(config, plan, rsvps, "ro");
+    expectTextPdf(ro, 0);
+    expect(ro.length).toBeLessThan(200_000);
+    expect(title(ro)).toContain("Plan de așezare");
+
+    const en = await seatingPdf(config, plan, rsvps, "en");
+    expect(title(en)).toContain("Seating plan");
+  });
+});
+
+describe("wishesPdf", () => {
+  it("runs over as many pages as the wishes take", async () => {
+    const wishes = Array.from({ length: 40 }, (_, i) => ({
+      id: String(i),
+      wedding: config.slug,
+      name: `Invitatul ${i}`,
+      text: "Vă dorim o viață împreună plină de bucurii, răbdare și multă dragoste. ".repeat(3),
+      status: "approved" as const,
+      createdAt: new Date(Date.UTC(2026, 7, 16, 0, i)).toISOString(),
+    }));
+    const pdf = await wishesPdf(config, wishes, "ro");
+    expectTextPdf(pdf, 0);
+    expect(pdf.toString("latin1").match(/\/Type \/Page\b/g)!.length).toBeGreaterThan(1);
+  });
+});
+
+describe("invitationPdf", () => {
+  it("keeps only the roses as an image", async () => {
+    expectTextPdf(await invitationPdf(config, "ro"), 1);
+  });
+});
@@ -0,0 +1,446 @@
+import * as fontkit from "fontkit";
+import { promises as fs } from "fs";
+import path from "path";
+import PDFDocument from "pdfkit";
+import sharp from "sharp";
+import { format, getMessages, plural, type Locale } from "@/i18n";
+import { clusterSize, clusterSvg, iconSvg } from "./artwork";
+import { FLOWERS } from "./flowers";
+import { describePerson, type Rsvp } from "./rsvp";
+import { partiesOf, tableLoads, tableOf, type SeatingPlan } from "./seating";
+import { resolveTheme } from "./themes";
+import { minutesOf } from "./time";
+import {
+  coupleNames,
+  eventLabel,
+  formatDate,
+  formatTime,
+  type WeddingConfig,
+} from "./wedding";
+import type { Wish } from "./wishes";
+
+/* ================================================================
+   Print exports — server-only. The invitation as an A5 sheet, in
+   millimetres, written out as SVG or as a 300 dpi PDF, the
+   seating plan as a PDF for the venue and the guestbook as a
+   keepsake PDF for the couple.
+
+   Both invitation files come from one layout of centered lines.
+   The SVG embeds the Faith script so it opens the same anywhere.
+   PDFs are written with PDFKit and keep their text as text, set
+   in Faith and the Cormorant Garamond shipped in public/fonts, so
+   it can be selected and searched; only the invitation's roses
+   are an image, rasterized with sharp under the lines.
+   ================================================================ */
+
+const A5 = { width: 148, height: 210 };
+
+const DPI = 300;
+const MARGIN = 12;
+const TEXT_WIDTH = A5.width - 2 * MARGIN;
+const FONTS = path.join(process.cwd(), "public", "fonts");
+const FAITH = path.join(FONTS, "faith.ttf");
+const CORMORANT = path.join(FONTS, "cormorant-garamond-regular.ttf");
+const CORMORANT_SEMIBOLD = path.join(FONTS, "cormorant-garamond-semibold.ttf");
+const SERIF = "Cormorant Garamond, Georgia, serif";
+
+interface PrintLine {
+  text: string;
+  /* Baseline, from the top of the sheet */
+  y: number;
+  size: number;
+  font: "script" | "serif";
+  weight?: 400 | 600;
+  /* Letter spacing, in em */
+  tracking?: number;
+  opacity?: number;
+}
+
+interface InvitationSheet {
+  lines: PrintLine[];
+  /* Vertical centers of the rose dividers */
+  dividers: number[];
+}
+
+/* Greedy word wrap for a line of `size` mm type; the widths are
+   estimates, generous enough for any of the theme serifs */
+function wrap(text: string, size: number, tracking = 0) {
+  const perLine = Math.floor(TEXT_WIDTH / (size * (0.55 + tracking)));
+  const lines: string[] = [];
+  for (const word of text.split(/\s+/)) {
+    const last = lines[lines.length - 1];
+    if (last && last.length + 1 + word.length <= perLine) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  }
+  return lines;
+}
+
+const CLUSTER_TOP = 12;
+const CLUSTER_HEIGHT = 34;
+
+function invitationSheet(config: WeddingConfig, locale: Locale): InvitationSheet {
+  const m = getMessages(locale);
+  const lines: PrintLine[] = [];
+  const dividers: number[] = [];
+  let y = CLUSTER_TOP + CLUSTER_HEIGHT;
+
+  const add = (text: string, line: Omit<PrintLine, "text" | "y">, leading = 1.6) => {
+    y += line.size * leading;
+    lines.push({ ...line, text, y });
+  };
+  const upper = (text: string) => text.toLocaleUpperCase(locale);
+  const paragraph = (text: string, size: number, tracking: number) =>
+    wrap(upper(text), size, tracking).forEach((t) =>
+      add(t, { size, font: "serif", tracking })
+    );
+  const gap = (mm: number) => (y += mm);
+
+  const names = coupleNames(config);
+  add(names, { size: Math.min(15, TEXT_WIDTH / (names.length * 0.5)), font: "script" }, 1.2);
+  gap(6);
+  dividers.push(y);
+  gap(4);
+
+  paragraph(m.invitation.before, 3.4, 0.15);
+  config.family.parents.forEach((p) => add(p, { size: 4.6, font: "serif", weight: 600 }, 1.5));
+  gap(2);
+  paragraph(m.invitation.godparents, 3.4, 0.15);
+  config.family.godparents.forEach((p) =>
+    add(p, { size: 4.6, font: "serif", weight: 600 }, 1.5)
+  );
+  gap(2);
+  paragraph(m.invitation.after, 3.4, 0.15);
+  gap(6);
+  dividers.push(y);
+  gap(4);
+
+  add(upper(formatDate(config.date, config.timeZone, locale)), {
+    size: 5.6,
+    font: "serif",
+    weight: 600,
+    tracking: 0.2,
+  });
+  gap(3);
+
+  const events = [...config.events].sort((a, b) => minutesOf(a.time) - minutesOf(b.time));
+  for (const event of events) {
+    gap(3);
+    add(upper(eventLabel(event, locale, m.events)), {
+      size: 3,
+      font: "serif",
+      weight: 600,
+      tracking: 0.3,
+      opacity: 0.7,
+    });
+    add(event.venue, { size: 4.4, font: "serif", weight: 600 }, 1.5);
+    const when = format(m.locations.time, { time: formatTime(event.time, locale) });
+    add(`${event.address} · ${when}`, { size: 3.2, font: "serif", opacity: 0.8 }, 1.5);
+  }
+
+  /* Squeeze a long text into the sheet rather than run off it */
+  const top = CLUSTER_TOP + CLUSTER_HEIGHT;
+  const fit = Math.min(1, (A5.height - MARGIN - top) / (y - top));
+  const scaled = (at: number) => top + (at - top) * fit;
+  return {
+    lines: lines.map((l) => ({ ...l, y: scaled(l.y), size: l.size * fit })),
+    dividers: dividers.map(scaled),
+  };
+}
+
+const escape = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/* Roses, dividers and background; the text goes on top */
+function artworkSvg(
+  config: WeddingConfig,
+  sheet: InvitationSheet,
+  body: string,
+  defs = ""
+) {
+  const theme = resolveTheme(config.theme);
+  const species = FLOWERS[config.flower];
+  const cluster = clusterSize();
+  const scale = CLUSTER_HEIGHT / cluster.height;
+  const width = cluster.width * scale;
+  const middle = A5.width / 2;
+
+  const dividers = sheet.dividers
+    .map(
+      (y) =>
+        `<g stroke="${theme.primary}" stroke-width="0.2" opacity="0.3">` +
+        `<line x1="${middle - 26}" y1="${y}" x2="${middle - 6}" y2="${y}"/>` +
+        `<line x1="${middle + 6}" y1="${y}" x2="${middle + 26}" y2="${y}"/></g>` +
+        iconSvg(species, middle, y, 7)
+    )
+    .join("");
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${A5.width}mm" height="${A5.height}mm" ` +
+    `viewBox="0 0 ${A5.width} ${A5.height}">${defs}` +
+    `<rect width="${A5.width}" height="${A5.height}" fill="${theme.background}"/>` +
+    clusterSvg(species, middle - 4 - width, CLUSTER_TOP, scale) +
+    clusterSvg(species, middle + 4, CLUSTER_TOP, scale, true) +
+    dividers +
+    body +
+    `</svg>`
+  );
+}
+
+export async function invitationSvg(config: WeddingConfig, locale: Locale) {
+  const theme = resolveTheme(config.theme);
+  const faith = (await fs.readFile(FAITH)).toString("base64");
+  const defs =
+    `<defs><style>@font-face{font-family:"Faith";` +
+    `src:url(data:font/ttf;base64,${faith}) format("truetype")}</style></defs>`;
+
+  const sheet = invitationSheet(config, locale);
+  const text = sheet.lines
+    .map(
+      (l) =>
+        `<text x="${A5.width / 2}" y="${l.y.toFixed(2)}" text-anchor="middle" ` +
+        `font-family="${l.font === "script" ? "Faith, cursive" : SERIF}" ` +
+        `font-size="${l.size.toFixed(2)}" font-weight="${l.weight ?? 400}" ` +
+        `letter-spacing="${((l.tracking ?? 0) * l.size).toFixed(2)}" ` +
+        `fill="${theme.primary}" opacity="${l.opacity ?? 1}">${escape(l.text)}</text>`
+    )
+    .join("");
+
+  return artworkSvg(config, sheet, text, defs);
+}
+
+/* ── PDF ── */
+
+const px = (mm: number) => Math.round((mm / 25.4) * DPI);
+/* Millimetres to PDF points */
+const pt = (mm: number) => (mm / 25.4) * 72;
+
+type TextStyle = Omit<PrintLine, "text" | "y">;
+
+/* A paragraph of a PDF, wrapped to the width it is given */
+interface PrintText {
+  text: string;
+  style: TextStyle;
+  /* From the left edge of its column, in mm */
+  indent?: number;
+}
+
+function createPdf(paper: typeof A5, title: string) {
+  const doc = new PDFDocument({
+    size: [pt(paper.width), pt(paper.height)],
+    margin: 0,
+    info: { Title: title },
+  });
+  doc.registerFont("script", FAITH);
+  doc.registerFont("serif", CORMORANT);
+  doc.registerFont("serif-semibold", CORMORANT_SEMIBOLD);
+  return doc;
+}
+
+/* Ends `doc` and collects what it wrote */
+function pdfBuffer(doc: PDFKit.PDFDocument) {
+  return new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+    doc.end();
+  });
+}
+
+let faith: fontkit.Font | undefined;
+
+/* Faith has no Romanian diacritics, among others */
+function faithCovers(text: string) {
+  faith ??= fontkit.openSync(FAITH) as fontkit.Font;
+  return [...text].every((c) => /\s/.test(c) || faith!.hasGlyphForCodePoint(c.codePointAt(0)!));
+}
+
+/* Makes `style` the current font, size and color of `doc` for
+   `text`; returns the letter spacing to pass along with it. A
+   script line Faith can't set whole goes in the serif, a size down */
+function setStyle(doc: PDFKit.PDFDocument, style: TextStyle, text: string, color: string) {
+  const script = style.font === "script" && faithCovers(text);
+  const size = style.font === "script" && !script ? style.size * 0.7 : style.size;
+  const font = script ? "script" : style.weight === 600 ? "serif-semibold" : "serif";
+  doc.font(font).fontSize(pt(size)).fillColor(color, style.opacity ?? 1);
+  return { characterSpacing: (style.tracking ?? 0) * pt(size) };
+}
+
+export async function invitationPdf(config: WeddingConfig, locale: Locale) {
+  const theme = resolveTheme(config.theme);
+  const sheet = invitationSheet(config, locale);
+
+  /* The roses go under the text as an image; the text stays text */
+  const artwork = await sharp(Buffer.from(artworkSvg(config, sheet, "")), { density: DPI })
+    .resize(px(A5.width), px(A5.height))
+    .jpeg({ quality: 92 })
+    .toBuffer();
+
+  const doc = createPdf(A5, coupleNames(config));
+  doc.image(artwork, 0, 0, { width: pt(A5.width), height: pt(A5.height) });
+  for (const { text, y, ...style } of sheet.lines) {
+    const spacing = setStyle(doc, style, text, theme.primary);
+    const width = doc.widthOfString(text, spacing);
+    doc.text(text, (pt(A5.width) - width) / 2, pt(y), {
+      ...spacing,
+      baseline: "alphabetic",
+      lineBreak: false,
+    });
+  }
+  return pdfBuffer(doc);
+}
+
+/* ── Two columns on A4 ── */
+
+const A4 = { width: 210, height: 297 };
+const A4_MARGIN = 15;
+const COLUMN_GAP = 8;
+const COLUMN = (A4.width - 2 * A4_MARGIN - COLUMN_GAP) / 2;
+
+/* A centered `header` over `blocks` of paragraphs in two columns,
+   on as many A4 pages as it takes */
+async function columnsPdf(
+  title: string,
+  header: PrintText[],
+  blocks: PrintText[][],
+  { color, background }: { color: string; background: string }
+) {
+  const doc = createPdf(A4, title);
+  const paint = () => doc.rect(0, 0, pt(A4.width), pt(A4.height)).fill(background);
+  paint();
+  doc.on("pageAdded", paint);
+
+  const margin = pt(A4_MARGIN);
+  const bottom = pt(A4.height - A4_MARGIN);
+  let y = margin;
+  for (const { text, style } of header) {
+    const spacing = setStyle(doc, style, text, color);
+    doc.text(text, margin, y, { ...spacing, width: pt(A4.width - 2 * A4_MARGIN), align: "center" });
+    y = doc.y;
+  }
+
+  /* Sets a paragraph's style; returns what it is wrapped with */
+  const prepare = ({ text, style, indent = 0 }: PrintText) => ({
+    ...setStyle(doc, style, text, color),
+    width: pt(COLUMN - indent),
+  });
+  const heightOf = (block: PrintText[]) =>
+    block.reduce((sum, p) => sum + doc.heightOfString(p.text, prepare(p)), 0);
+
+  /* Each block goes into the shorter column, on a new page when
+     neither has room */
+  const start = y + pt(8);
+  let columns = [start, start];
+  for (const block of blocks) {
+    const height = heightOf(block);
+    let c = columns[0] <= columns[1] ? 0 : 1;
+    if (columns[c] + height > bottom && columns[c] > margin) {
+      doc.addPage();
+      columns = [margin, margin];
+      c = 0;
+    }
+    const left = margin + c * pt(COLUMN + COLUMN_GAP);
+    for (const p of block) {
+      doc.text(p.text, left + pt(p.indent ?? 0), columns[c], prepare(p));
+      columns[c] = doc.y;
+    }
+    columns[c] += pt(6);
+  }
+  return pdfBuffer(doc);
+}
+
+/* ── Seating plan ── */
+
+/* The plan for the venue: one block per table with everyone
+   sitting there and their menu, in two columns over as many A4
+   pages as it takes, and whoever has no seat yet at the end */
+export async function seatingPdf(
+  config: WeddingConfig,
+  plan: SeatingPlan,
+  rsvps: Rsvp[],
+  locale: Locale
+) {
+  const m = getMessages(locale);
+  const confirmed = rsvps.filter((r) => r.wedding === config.slug && r.attendance === "yes");
+  const loads = tableLoads(plan, partiesOf(rsvps, config.slug));
+  const caption: TextStyle = {
+    size: 2.8,
+    font: "serif",
+    weight: 600,
+    tracking: 0.2,
+    opacity: 0.7,
+  };
+  const person: TextStyle = { size: 3, font: "serif", opacity: 0.85 };
+
+  const block = (title: string, meta: string, responses: Rsvp[]): PrintText[] => [
+    { text: title, style: { size: 8, font: "script" } },
+    { text: meta.toLocaleUpperCase(locale), style: caption },
+    ...responses.flatMap((r) => [
+      { text: r.name, style: { size: 3.4, font: "serif", weight: 600 } } as const,
+      ...r.people.map((p) => ({ text: describePerson(p, m.rsvp), style: person, indent: 3 })),
+    ]),
+  ];
+
+  const blocks = [...plan.tables]
+    .sort((a, b) => a.number - b.number)
+    .map((table) =>
+      block(
+        format(m.print.table, { number: table.number }),
+        format(m.print.seats, { load: loads.get(table.id) ?? 0, capacity: table.capacity }),
+        confirmed.filter((r) => plan.seats[r.id] === table.id)
+      )
+    );
+  const unseated = confirmed.filter((r) => !tableOf(plan, r.id));
+  if (unseated.length > 0) {
+    const people = unseated.reduce((s, r) => s + r.guests, 0);
+    blocks.push(block(m.print.unseated, plural(locale, people, m.print.people), unseated));
+  }
+
+  const names = coupleNames(config);
+  const subtitle = format(m.print.seating, {
+    date: formatDate(config.date, config.timeZone, locale),
+  });
+  return columnsPdf(
+    `${names} — ${subtitle}`,
+    [
+      { text: names, style: { size: 12, font: "script" } },
+      { text: subtitle.toLocaleUpperCase(locale), style: caption },
+    ],
+    blocks,
+    { color: resolveTheme(config.theme).primary, background: "#ffffff" }
+  );
+}
+
+/* ── Guestbook ── */
+
+/* Every approved wish, oldest first, on the theme's paper */
+export async function wishesPdf(config: WeddingConfig, wishes: Wish[], locale: Locale) {
+  const m = getMessages(locale);
+  const theme = resolveTheme(config.theme);
+  const blocks = [...wishes]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map((w): PrintText[] => [
+      { text: w.text, style: { size: 3.6, font: "serif", opacity: 0.9 } },
+      { text: w.name, style: { size: 7, font: "script" } },
+    ]);
+
+  const names = coupleNames(config);
+  const subtitle = format(m.print.wishes, {
+    date: formatDate(config.date, config.timeZone, locale),
+  });
+  return columnsPdf(
+    `${names} — ${subtitle}`,
+    [
+      { text: names, style: { size: 14, font: "script" } },
+      {
+        text: subtitle.toLocaleUpperCase(locale),
+        style: { size: 3, font: "serif", weight: 600, tracking: 0.2, opacity: 0.7 },
+      },
+    ],
+    blocks,
+    { color: theme.primary, background: theme.background }
+  );
+}
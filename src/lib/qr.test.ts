@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { qrMatrix, qrPath } from "./qr";
+
+/* The 7×7 finder pattern: a dark ring, a light ring, a dark 3×3 core */
+function hasFinder(grid: boolean[][], left: number, top: number) {
+  for (let y = 0; y < 7; y++) {
+    for (let x = 0; x < 7; x++) {
+      const ring = Math.max(Math.abs(x - 3), Math.abs(y - 3));
+      if (grid[top + y][left + x] !== (ring !== 2)) return false;
+    }
+  }
+  return true;
+}
+
+describe("qrMatrix", () => {
+  it("fits short text in a version 1 code", () => {
+    const grid = qrMatrix("hello");
+    expect(grid).toHaveLength(21);
+    expect(grid.every((row) => row.length === 21)).toBe(true);
+  });
+
+  it("grows by four modules per version", () => {
+    const size = qrMatrix("x".repeat(100)).length;
+    expect(size).toBeGreaterThan(21);
+    expect((size - 17) % 4).toBe(0);
+  });
+
+  it("draws the finder patterns in three corners", () => {
+    const grid = qrMatrix("https://example.com/ro/maria-andrei");
+    const size = grid.length;
+    expect(hasFinder(grid, 0, 0)).toBe(true);
+    expect(hasFinder(grid, size - 7, 0)).toBe(true);
+    expect(hasFinder(grid, 0, size - 7)).toBe(true);
+  });
+
+  it("alternates the timing patterns", () => {
+    const grid = qrMatrix("timing");
+    for (let i = 8; i < grid.length - 8; i++) {
+      expect(grid[6][i]).toBe(i % 2 === 0);
+      expect(grid[i][6]).toBe(i % 2 === 0);
+    }
+  });
+
+  it("sets the dark module next to the lower finder", () => {
+    const grid = qrMatrix("dark");
+    expect(grid[grid.length - 8][8]).toBe(true);
+  });
+
+  it("refuses text beyond version 40", () => {
+    expect(() => qrMatrix("x".repeat(3000))).toThrow(RangeError);
+  });
+
+  it("encodes UTF-8 text deterministically", () => {
+    expect(qrMatrix("Mulțumim!")).toEqual(qrMatrix("Mulțumim!"));
+    expect(qrMatrix("Mulțumim!")).not.toEqual(qrMatrix("Multumim!"));
+  });
+});
+
+describe("qrPath", () => {
+  it("draws one unit square per dark module, inside the quiet zone", () => {
+    const { d, size } = qrPath("hello");
+    const dark = qrMatrix("hello").flat().filter(Boolean).length;
+    expect(size).toBe(21 + 8);
+    expect(d.match(/M/g)).toHaveLength(dark);
+    expect(d.startsWith("M4 4")).toBe(true);
+  });
+});
@@ -0,0 +1,333 @@
+/* ================================================================
+   QR codes — byte mode at error correction level M, the level
+   EPC payment codes ask for, drawn as a single SVG path
+
+   Follows ISO/IEC 18004: the data is split into blocks with
+   Reed–Solomon error correction, placed around the function
+   patterns, and masked with whichever of the eight masks scores
+   the lowest penalty. Pure, so it runs on either side.
+   ================================================================ */
+
+/* Error correction codewords per block and number of blocks at
+   level M, by version (index 0 unused) */
+const ECC_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26,
+  26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+];
+const BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20,
+  21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+];
+
+/* Format bits of level M */
+const LEVEL_M = 0;
+
+/* Modules outside the quiet zone */
+const sizeOf = (version: number) => version * 4 + 17;
+
+function rawModules(version: number) {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const align = Math.floor(version / 7) + 2;
+    result -= (25 * align - 10) * align - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+const dataCodewords = (version: number) =>
+  Math.floor(rawModules(version) / 8) - ECC_PER_BLOCK[version] * BLOCKS[version];
+
+/* ── Reed–Solomon over GF(256) ── */
+
+function gfMultiply(x: number, y: number) {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function rsDivisor(degree: number) {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function rsRemainder(data: number[], divisor: number[]) {
+  const result = divisor.map(() => 0);
+  for (const b of data) {
+    const factor = b ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((d, i) => (result[i] ^= gfMultiply(d, factor)));
+  }
+  return result;
+}
+
+/* ── Codewords ── */
+
+function encodeData(bytes: Uint8Array, version: number) {
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4);
+  push(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach((b) => push(b, 8));
+
+  const capacity = dataCodewords(version) * 8;
+  push(0, Math.min(4, capacity - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacity / 8; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+}
+
+/* Data and error correction blocks, interleaved */
+function withErrorCorrection(data: number[], version: number) {
+  const blocks = BLOCKS[version];
+  const eccLength = ECC_PER_BLOCK[version];
+  const raw = Math.floor(rawModules(version) / 8);
+  const shortBlocks = blocks - (raw % blocks);
+  const shortLength = Math.floor(raw / blocks);
+  const divisor = rsDivisor(eccLength);
+
+  const split: { data: number[]; ecc: number[] }[] = [];
+  for (let i = 0, k = 0; i < blocks; i++) {
+    const length = shortLength - eccLength + (i < shortBlocks ? 0 : 1);
+    const block = data.slice(k, k + length);
+    k += length;
+    split.push({ data: block, ecc: rsRemainder(block, divisor) });
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i <= shortLength - eccLength; i++) {
+    split.forEach((b) => i < b.data.length && result.push(b.data[i]));
+  }
+  for (let i = 0; i < eccLength; i++) split.forEach((b) => result.push(b.ecc[i]));
+  return result;
+}
+
+/* ── Matrix ── */
+
+type Grid = boolean[][];
+
+function alignmentPositions(version: number) {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step =
+    version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = sizeOf(version) - 7; result.length < count; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+}
+
+function functionPatterns(version: number) {
+  const size = sizeOf(version);
+  const modules: Grid = Array.from({ length: size }, () => new Array(size).fill(false));
+  const reserved: Grid = Array.from({ length: size }, () => new Array(size).fill(false));
+  const set = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    reserved[y][x] = true;
+  };
+
+  for (let i = 0; i < size; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) set(x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  }
+
+  const align = alignmentPositions(version);
+  const last = align.length - 1;
+  align.forEach((cx, i) =>
+    align.forEach((cy, j) => {
+      /* Skip the three that would overlap the finders */
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    })
+  );
+
+  /* Format areas are reserved now and filled once the mask is known */
+  drawFormat(set, size, 0);
+
+  if (version >= 7) {
+    let rem = version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      set(a, b, dark);
+      set(b, a, dark);
+    }
+  }
+
+  return { modules, reserved };
+}
+
+function drawFormat(
+  set: (x: number, y: number, dark: boolean) => void,
+  size: number,
+  mask: number
+) {
+  const data = (LEVEL_M << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  const bits = ((data << 10) | rem) ^ 0x5412;
+  const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+  for (let i = 0; i <= 5; i++) set(8, i, bit(i));
+  set(8, 7, bit(6));
+  set(8, 8, bit(7));
+  set(7, 8, bit(8));
+  for (let i = 9; i < 15; i++) set(14 - i, 8, bit(i));
+
+  for (let i = 0; i < 8; i++) set(size - 1 - i, 8, bit(i));
+  for (let i = 8; i < 15; i++) set(8, size - 15 + i, bit(i));
+  set(8, size - 8, true);
+}
+
+function drawCodewords(modules: Grid, reserved: Grid, codewords: number[]) {
+  const size = modules.length;
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (!reserved[y][x] && i < codewords.length * 8) {
+          modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+          i++;
+        }
+      }
+    }
+  }
+}
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+function applyMask(modules: Grid, reserved: Grid, mask: number) {
+  return modules.map((row, y) =>
+    row.map((dark, x) => (!reserved[y][x] && MASKS[mask](x, y) ? !dark : dark))
+  );
+}
+
+/* The four penalty rules of the standard; lower reads better */
+function penalty(modules: Grid) {
+  const size = modules.length;
+  const columns = modules.map((_, x) => modules.map((row) => row[x]));
+  const finderLike = [
+    [true, false, true, true, true, false, true, false, false, false, false],
+    [false, false, false, false, true, false, true, true, true, false, true],
+  ];
+  let score = 0;
+
+  for (const line of [...modules, ...columns]) {
+    for (let i = 0, run = 1; i < size; i++) {
+      if (i + 1 < size && line[i + 1] === line[i]) {
+        run++;
+        continue;
+      }
+      if (run >= 5) score += run - 2;
+      run = 1;
+    }
+    for (let i = 0; i + 11 <= size; i++) {
+      if (finderLike.some((p) => p.every((dark, k) => line[i + k] === dark))) score += 40;
+    }
+  }
+
+  for (let y = 0; y + 1 < size; y++) {
+    for (let x = 0; x + 1 < size; x++) {
+      const c = modules[y][x];
+      if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) {
+        score += 3;
+      }
+    }
+  }
+
+  const dark = modules.flat().filter(Boolean).length;
+  score += Math.floor(Math.abs((dark * 20) / (size * size) - 10)) * 10;
+  return score;
+}
+
+/* Dark modules of the smallest code holding `text` as UTF-8 */
+export function qrMatrix(text: string): Grid {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+  const needed = (v: number) => Math.ceil((12 + (v <= 9 ? 0 : 8) + bytes.length * 8) / 8);
+  while (needed(version) > dataCodewords(version)) {
+    if (++version > 40) throw new RangeError("Text too long for a QR code");
+  }
+
+  const { modules, reserved } = functionPatterns(version);
+  drawCodewords(modules, reserved, withErrorCorrection(encodeData(bytes, version), version));
+
+  let best: Grid = modules;
+  let bestScore = Infinity;
+  MASKS.forEach((_, mask) => {
+    const candidate = applyMask(modules, reserved, mask);
+    drawFormat((x, y, dark) => (candidate[y][x] = dark), candidate.length, mask);
+    const score = penalty(candidate);
+    if (score < bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+/* The code as one path in a square `size` units across, quiet
+   zone included, to draw with <path d> in a matching viewBox */
+export function qrPath(text: string) {
+  const modules = qrMatrix(text);
+  const quiet = 4;
+  const d = modules
+    .flatMap((row, y) =>
+      row.map((dark, x) => (dark ? `M${x + quiet} ${y + quiet}h1v1h-1z` : ""))
+    )
+    .join("");
+  return { size: modules.length + quiet * 2, d };
+}
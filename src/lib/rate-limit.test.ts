@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { allowHit, clientAddress } from "./rate-limit";
+
+const request = vi.hoisted(() => ({ headers: new Headers() }));
+vi.mock("next/headers", () => ({ headers: async () => request.headers }));
+
+describe("allowHit", () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it("allows `limit` hits per window and counts no refused ones", () => {
+    expect([1, 2, 3, 4].map(() => allowHit("wish:a", 3, 1000))).toEqual([
+      true,
+      true,
+      true,
+      false,
+    ]);
+    vi.advanceTimersByTime(1001);
+    expect(allowHit("wish:a", 3, 1000)).toBe(true);
+  });
+
+  it("keeps keys apart", () => {
+    expect(allowHit("wish:b", 1, 1000)).toBe(true);
+    expect(allowHit("wish:c", 1, 1000)).toBe(true);
+    expect(allowHit("wish:b", 1, 1000)).toBe(false);
+  });
+});
+
+describe("clientAddress", () => {
+  afterEach(() => {
+    request.headers = new Headers();
+    vi.unstubAllEnvs();
+  });
+
+  it("takes the address Next recorded from the socket", async () => {
+    request.headers = new Headers({ "x-forwarded-for": "203.0.113.7", "x-real-ip": "6.6.6.6" });
+    expect(await clientAddress()).toBe("203.0.113.7");
+  });
+
+  it("takes the hop the proxy appended, not what the client sent", async () => {
+    vi.stubEnv("TRUST_PROXY", "1");
+    request.headers = new Headers({ "x-forwarded-for": "6.6.6.6, 203.0.113.7" });
+    expect(await clientAddress()).toBe("203.0.113.7");
+  });
+
+  it("counts back one hop per trusted proxy", async () => {
+    vi.stubEnv("TRUST_PROXY", "2");
+    request.headers = new Headers({ "x-forwarded-for": "6.6.6.6, 203.0.113.7, 10.0.0.2" });
+    expect(await clientAddress()).toBe("203.0.113.7");
+  });
+
+  it("falls back to X-Real-IP behind a proxy", async () => {
+    vi.stubEnv("TRUST_PROXY", "1");
+    request.headers = new Headers({ "x-real-ip": "203.0.113.7" });
+    expect(await clientAddress()).toBe("203.0.113.7");
+  });
+});
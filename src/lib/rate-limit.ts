@@ -0,0 +1,57 @@
+import { headers } from "next/headers";
+
+/* ================================================================
+   Rate limiting — server-only. A sliding window per key, kept in
+   memory: a restart forgets it, which is fine for keeping a form
+   from being flooded.
+   ================================================================ */
+
+const hits = new Map<string, { times: number[]; windowMs: number }>();
+
+/* Keys whose window has passed are dropped at most this often */
+const SWEEP_MS = 60 * 1000;
+let lastSweep = 0;
+
+function sweep(now: number) {
+  if (now - lastSweep < SWEEP_MS) return;
+  lastSweep = now;
+  for (const [key, { times, windowMs }] of hits) {
+    if (times.every((t) => t <= now - windowMs)) hits.delete(key);
+  }
+}
+
+/* Records a hit for `key` and tells whether it is within `limit`
+   hits in the last `windowMs`; refused hits are not counted */
+export function allowHit(key: string, limit: number, windowMs: number) {
+  const now = Date.now();
+  sweep(now);
+  const recent = (hits.get(key)?.times ?? []).filter((t) => t > now - windowMs);
+  if (recent.length >= limit) {
+    hits.set(key, { times: recent, windowMs });
+    return false;
+  }
+  hits.set(key, { times: [...recent, now], windowMs });
+  return true;
+}
+
+/* How many proxies in front of the app append to X-Forwarded-For;
+   TRUST_PROXY, 0 by default, when the app faces the internet */
+export function trustedHops() {
+  const hops = Number(process.env.TRUST_PROXY ?? 0);
+  return Number.isInteger(hops) && hops >= 0 ? hops : 0;
+}
+
+/* The visitor's address, as the nearest trusted proxy saw it.
+   Entries before that one come from the client and can be forged.
+   With no proxy trusted the header is the one Next fills from the
+   socket, a client's own being dropped first (see instrumentation) */
+export async function clientAddress() {
+  const hops = trustedHops();
+  const h = await headers();
+  const forwarded = (h.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (forwarded.length > 0) return forwarded[Math.max(0, forwarded.length - Math.max(hops, 1))];
+  return (hops > 0 && h.get("x-real-ip")?.trim()) || "unknown";
+}
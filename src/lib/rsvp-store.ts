@@ -0,0 +1,61 @@
+import type { Rsvp, RsvpInput } from "./rsvp";
+import { newId, readCollection, updateCollection } from "./store";
+
+/* ================================================================
+   RSVP persistence — server-only wrapper around the "rsvps"
+   collection, newest responses first
+   ================================================================ */
+
+const COLLECTION = "rsvps";
+
+/* Responses stored before these fields were collected lack them */
+type DetailKey = "email" | "people" | "accommodation" | "transport";
+type StoredRsvp = Omit<Rsvp, DetailKey> & Partial<Pick<Rsvp, DetailKey>>;
+
+function upgrade({
+  email = "",
+  people = [],
+  accommodation = false,
+  transport = false,
+  ...rest
+}: StoredRsvp): Rsvp {
+  return { ...rest, email, people, accommodation, transport };
+}
+
+async function readRsvps() {
+  return (await readCollection<StoredRsvp>(COLLECTION)).map(upgrade);
+}
+
+export async function listRsvps(): Promise<Rsvp[]> {
+  const items = await readRsvps();
+  return items.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getRsvp(id: string) {
+  const items = await readRsvps();
+  return items.find((r) => r.id === id);
+}
+
+export async function addRsvp(
+  input: RsvpInput & Pick<Rsvp, "wedding" | "guestToken" | "locale">
+): Promise<Rsvp> {
+  const rsvp: Rsvp = {
+    ...input,
+    id: newId(),
+    createdAt: new Date().toISOString(),
+  };
+  await updateCollection<Rsvp>(COLLECTION, (items) => [...items, rsvp]);
+  return rsvp;
+}
+
+export async function updateRsvp(id: string, input: RsvpInput) {
+  await updateCollection<Rsvp>(COLLECTION, (items) =>
+    items.map((r) => (r.id === id ? { ...r, ...input } : r))
+  );
+}
+
+export async function deleteRsvp(id: string) {
+  await updateCollection<Rsvp>(COLLECTION, (items) =>
+    items.filter((r) => r.id !== id)
+  );
+}
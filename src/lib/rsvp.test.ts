@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { parseRsvp } from "./rsvp";
+
+function form(fields: Record<string, string | string[]>) {
+  const data = new FormData();
+  for (const [key, value] of Object.entries(fields)) {
+    for (const v of [value].flat()) data.append(key, v);
+  }
+  return data;
+}
+
+const coming = {
+  name: "Familia Popescu",
+  email: "ana@example.com",
+  guests: "2",
+  attendance: "yes",
+  "people.0.name": "Ana",
+  "people.0.menu": "standard",
+  "people.1.name": "Ion",
+  "people.1.menu": "vegetarian",
+  "people.1.diet": ["gluten", "nuts", "gluten"],
+  accommodation: "on",
+  notes: " Abia așteptăm! ",
+};
+
+describe("parseRsvp", () => {
+  it("reads a complete answer", () => {
+    expect(parseRsvp(form(coming))).toEqual({
+      ok: true,
+      value: {
+        name: "Familia Popescu",
+        email: "ana@example.com",
+        guests: 2,
+        attendance: "yes",
+        people: [
+          { name: "Ana", menu: "standard", diet: [] },
+          { name: "Ion", menu: "vegetarian", diet: ["gluten", "nuts"] },
+        ],
+        accommodation: true,
+        transport: false,
+        notes: "Abia așteptăm!",
+      },
+    });
+  });
+
+  it("asks for a name, a valid email and an answer", () => {
+    expect(parseRsvp(form({ name: " ", email: "nope", guests: "1" }))).toEqual({
+      ok: false,
+      errors: { name: "required", email: "email", attendance: "choice" },
+    });
+  });
+
+  it("keeps the number of guests between 1 and 10", () => {
+    for (const guests of ["0", "11", "1.5", ""]) {
+      expect(parseRsvp(form({ ...coming, guests }))).toMatchObject({
+        ok: false,
+        errors: { guests: "range" },
+      });
+    }
+  });
+
+  it("keeps the number of guests within the seats", () => {
+    expect(parseRsvp(form({ ...coming, guests: "3" }), 2)).toMatchObject({
+      ok: false,
+      errors: { guests: "range" },
+    });
+  });
+
+  it("checks every person who comes", () => {
+    expect(parseRsvp(form({ ...coming, "people.1.menu": "steak" }))).toEqual({
+      ok: false,
+      errors: { people: { 1: { menu: "choice" } } },
+    });
+  });
+
+  it("drops details of those who decline", () => {
+    expect(parseRsvp(form({ ...coming, attendance: "no", "people.0.menu": "x" }))).toMatchObject({
+      ok: true,
+      value: { people: [], accommodation: false },
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import type { Locale, Messages } from "@/i18n";
+import { EMAIL_RE } from "./schema";
+
+/* ================================================================
+   RSVP model — shared by the form, server actions and admin
+   ================================================================ */
+
+export const MIN_GUESTS = 1;
+export const MAX_GUESTS = 10;
+
+export type Attendance = "yes" | "no";
+
+export const MENUS = ["standard", "vegetarian", "kids"] as const;
+export type Menu = (typeof MENUS)[number];
+
+export const DIETS = ["gluten", "lactose", "nuts", "seafood"] as const;
+export type Diet = (typeof DIETS)[number];
+
+/* One attending person, for catering */
+export interface Person {
+  name: string;
+  menu: Menu;
+  diet: Diet[];
+}
+
+export interface RsvpInput {
+  name: string;
+  /* Optional; where the confirmation email goes */
+  email: string;
+  guests: number;
+  attendance: Attendance;
+  /* Exactly `guests` entries when attending, empty when declining */
+  people: Person[];
+  accommodation: boolean;
+  transport: boolean;
+  notes: string;
+}
+
+export interface Rsvp extends RsvpInput {
+  id: string;
+  /* Slug of the wedding the response belongs to */
+  wedding: string;
+  /* Token of the personal invitation it came through, if any */
+  guestToken?: string;
+  /* Language the form was filled in, used for the confirmation */
+  locale?: Locale;
+  createdAt: string;
+}
+
+/* Keys into the `rsvp.errors` message catalog */
+export type RsvpErrorCode = "required" | "tooLong" | "range" | "choice" | "email";
+
+export type RsvpField = "name" | "email" | "guests" | "attendance" | "notes";
+
+export type PersonErrors = Partial<Record<keyof Person, RsvpErrorCode>>;
+
+export type RsvpErrors = Partial<Record<RsvpField, RsvpErrorCode>> & {
+  /* Keyed by the person's index in the form */
+  people?: Record<number, PersonErrors>;
+};
+
+export type RsvpResult =
+  | { status: "idle" }
+  | { status: "success"; rsvp: Rsvp }
+  | { status: "error"; errors: RsvpErrors }
+  /* The answer reached the server but could not be saved */
+  | { status: "failed" };
+
+export type RsvpParse =
+  | { ok: true; value: RsvpInput }
+  | { ok: false; errors: RsvpErrors };
+
+const MAX_NAME = 120;
+
+const isMenu = (v: unknown): v is Menu => MENUS.includes(v as Menu);
+const isDiet = (v: unknown): v is Diet => DIETS.includes(v as Diet);
+
+/* Form fields are `people.<i>.name`, `people.<i>.menu` and one
+   `people.<i>.diet` per checked restriction */
+function parsePerson(formData: FormData, i: number) {
+  const name = String(formData.get(`people.${i}.name`) ?? "").trim();
+  const menu = formData.get(`people.${i}.menu`);
+  const diet = formData.getAll(`people.${i}.diet`);
+
+  const errors: PersonErrors = {};
+  if (!name) {
+    errors.name = "required";
+  } else if (name.length > MAX_NAME) {
+    errors.name = "tooLong";
+  }
+  if (!isMenu(menu)) errors.menu = "choice";
+  if (!diet.every(isDiet)) errors.diet = "choice";
+
+  const person: Person = { name, menu: menu as Menu, diet: [...new Set(diet as Diet[])] };
+  return { person, errors };
+}
+
+/* Shared by the invitation form (before submitting) and the server
+   actions, so both sides agree on what a valid response is */
+export function parseRsvp(
+  formData: FormData,
+  maxGuests: number = MAX_GUESTS
+): RsvpParse {
+  const name = String(formData.get("name") ?? "").trim();
+  const email = String(formData.get("email") ?? "").trim();
+  const guests = Number(formData.get("guests"));
+  const attendance = formData.get("attendance");
+  const notes = String(formData.get("notes") ?? "").trim();
+
+  const errors: RsvpErrors = {};
+  if (!name) {
+    errors.name = "required";
+  } else if (name.length > MAX_NAME) {
+    errors.name = "tooLong";
+  }
+  if (email && !EMAIL_RE.test(email)) {
+    errors.email = "email";
+  }
+  const guestsValid =
+    Number.isInteger(guests) && guests >= MIN_GUESTS && guests <= maxGuests;
+  if (!guestsValid) {
+    errors.guests = "range";
+  }
+  if (attendance !== "yes" && attendance !== "no") {
+    errors.attendance = "choice";
+  }
+  if (notes.length > 1000) {
+    errors.notes = "tooLong";
+  }
+
+  /* Per-person details only matter for those who come */
+  const people: Person[] = [];
+  if (attendance === "yes" && guestsValid) {
+    for (let i = 0; i < guests; i++) {
+      const parsed = parsePerson(formData, i);
+      people.push(parsed.person);
+      if (Object.keys(parsed.errors).length > 0) {
+        errors.people = { ...errors.people, [i]: parsed.errors };
+      }
+    }
+  }
+  const attending = attendance === "yes";
+
+  if (Object.keys(errors).length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      name,
+      email,
+      guests,
+      attendance: attendance as Attendance,
+      people,
+      accommodation: attending && formData.get("accommodation") === "on",
+      transport: attending && formData.get("transport") === "on",
+      notes,
+    },
+  };
+}
+
+/* ── Reporting ── */
+
+export interface RsvpSummary {
+  confirmed: number;
+  declined: number;
+  /* People expected, summed over confirmed responses only */
+  headcount: number;
+  withNotes: number;
+  /* Catering and logistics, over confirmed responses */
+  menus: Record<Menu, number>;
+  diets: Record<Diet, number>;
+  accommodation: number;
+  transport: number;
+}
+
+const tally = <K extends string>(keys: readonly K[]) =>
+  Object.fromEntries(keys.map((k) => [k, 0])) as Record<K, number>;
+
+export function summarizeRsvps(rsvps: Rsvp[]): RsvpSummary {
+  const summary: RsvpSummary = {
+    confirmed: 0,
+    declined: 0,
+    headcount: 0,
+    withNotes: 0,
+    menus: tally(MENUS),
+    diets: tally(DIETS),
+    accommodation: 0,
+    transport: 0,
+  };
+  for (const r of rsvps) {
+    if (r.attendance === "yes") {
+      summary.confirmed++;
+      summary.headcount += r.guests;
+      for (const p of r.people) {
+        summary.menus[p.menu]++;
+        p.diet.forEach((d) => summary.diets[d]++);
+      }
+      if (r.accommodation) summary.accommodation++;
+      if (r.transport) summary.transport++;
+    } else {
+      summary.declined++;
+    }
+    if (r.notes) summary.withNotes++;
+  }
+  return summary;
+}
+
+/* "Ana Popescu — Vegetarian (Fără gluten)" */
+export function describePerson(person: Person, messages: Messages["rsvp"]) {
+  const diet = person.diet.map((d) => messages.diets[d]).join(", ");
+  return `${person.name} — ${messages.menus[person.menu]}${diet ? ` (${diet})` : ""}`;
+}
+
+export interface RsvpFilter {
+  wedding?: string;
+  attendance?: Attendance;
+  query?: string;
+  notesOnly?: boolean;
+}
+
+export function parseRsvpFilter(
+  params: Record<string, string | string[] | undefined>
+): RsvpFilter {
+  const get = (key: string) => {
+    const v = params[key];
+    return (Array.isArray(v) ? v[0] : v)?.trim() || undefined;
+  };
+  const attendance = get("attendance");
+  return {
+    wedding: get("wedding"),
+    attendance: attendance === "yes" || attendance === "no" ? attendance : undefined,
+    query: get("q"),
+    notesOnly: get("notes") === "1",
+  };
+}
+
+export function filterRsvps(rsvps: Rsvp[], filter: RsvpFilter): Rsvp[] {
+  const query = filter.query?.toLowerCase();
+  return rsvps.filter(
+    (r) =>
+      (!filter.wedding || r.wedding === filter.wedding) &&
+      (!filter.attendance || r.attendance === filter.attendance) &&
+      (!filter.notesOnly || r.notes !== "") &&
+      (!query ||
+        r.name.toLowerCase().includes(query) ||
+        r.notes.toLowerCase().includes(query) ||
+        r.people.some((p) => p.name.toLowerCase().includes(query)))
+  );
+}
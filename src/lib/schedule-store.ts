@@ -0,0 +1,54 @@
+import { EventEmitter } from "events";
+import type { ScheduleChange, ScheduleChanges } from "./schedule";
+import { readCollection, updateCollection } from "./store";
+
+/* ================================================================
+   Schedule changes — server-only. The "schedule-changes"
+   collection holds at most one set per wedding, and every save is
+   announced to the open live feeds (api/schedule) of that wedding.
+
+   The feed lives in this process, like the store's write queue;
+   it is kept on globalThis so route handlers and server actions
+   bundled apart still share it.
+   ================================================================ */
+
+const COLLECTION = "schedule-changes";
+
+const feed = ((globalThis as { scheduleFeed?: EventEmitter }).scheduleFeed ??=
+  new EventEmitter().setMaxListeners(0));
+
+export async function getScheduleChanges(wedding: string): Promise<ScheduleChange[]> {
+  const sets = await readCollection<ScheduleChanges>(COLLECTION);
+  return sets.find((s) => s.wedding === wedding)?.changes ?? [];
+}
+
+/* `change` replaces any earlier one for the same item; null
+   puts the item back at its time in the config */
+export async function setScheduleChange(
+  wedding: string,
+  item: number,
+  change: ScheduleChange | null
+) {
+  let changes: ScheduleChange[] = [];
+  await updateCollection<ScheduleChanges>(COLLECTION, (sets) => {
+    const current = sets.find((s) => s.wedding === wedding)?.changes ?? [];
+    changes = [...current.filter((c) => c.item !== item), ...(change ? [change] : [])].sort(
+      (a, b) => a.item - b.item
+    );
+    const others = sets.filter((s) => s.wedding !== wedding);
+    if (changes.length === 0) return others;
+    return [...others, { wedding, changes, updatedAt: new Date().toISOString() }];
+  });
+  feed.emit(wedding, changes);
+  return changes;
+}
+
+/* Calls `listener` with a wedding's changes after every save;
+   returns the unsubscribe function */
+export function onScheduleChange(
+  wedding: string,
+  listener: (changes: ScheduleChange[]) => void
+) {
+  feed.on(wedding, listener);
+  return () => void feed.off(wedding, listener);
+}
@@ -0,0 +1,114 @@
+import { addDays, zonedTime } from "./time";
+import {
+  datedSchedule,
+  TIME_RE,
+  weddingTimes,
+  type ScheduleItem,
+  type WeddingConfig,
+} from "./wedding";
+
+/* ================================================================
+   Live schedule — the day's programme with the couple's changes
+   on the day ("Tortul miresei moved to 00:30") applied, and where
+   the day has got to at any moment
+
+   Safe to import from client components; persistence and the
+   change feed live in schedule-store.
+   ================================================================ */
+
+/* A schedule item, by its position in the config, moved to `time`
+   and optionally explained by `note` */
+export interface ScheduleChange {
+  item: number;
+  time: string;
+  note?: string;
+}
+
+export interface ScheduleChanges {
+  wedding: string;
+  changes: ScheduleChange[];
+  updatedAt: string;
+}
+
+export const MAX_CHANGE_NOTE = 140;
+
+export type ScheduleParseResult =
+  | { ok: true; value: ScheduleChange }
+  | { ok: false; error: string };
+
+export function parseScheduleChange(
+  config: WeddingConfig,
+  item: number,
+  formData: FormData
+): ScheduleParseResult {
+  if (!Number.isInteger(item) || !config.schedule[item]) {
+    return { ok: false, error: "Momentul nu există în program" };
+  }
+  const time = String(formData.get("time") ?? "").trim();
+  if (!TIME_RE.test(time)) return { ok: false, error: "Ora trebuie să fie de forma 00:30" };
+  const note = String(formData.get("note") ?? "").trim();
+  if (note.length > MAX_CHANGE_NOTE) {
+    return { ok: false, error: `Nota poate avea cel mult ${MAX_CHANGE_NOTE} de caractere` };
+  }
+  return { ok: true, value: { item, time, ...(note && { note }) } };
+}
+
+export interface LiveItem extends ScheduleItem {
+  /* Position in the config, stable while items move around */
+  index: number;
+  /* Epoch ms the item starts at */
+  at: number;
+  /* Time in the config, when a change moved it */
+  movedFrom?: string;
+  note?: string;
+}
+
+/* Schedule items in the order they now happen. A moved item stays
+   on the day it was on unless the new time is nearer across
+   midnight: "23:30" moved to "00:30" happens an hour later, not
+   the morning before. */
+export function liveSchedule(
+  config: WeddingConfig,
+  changes: ScheduleChange[]
+): LiveItem[] {
+  const byItem = new Map(changes.map((c) => [c.item, c]));
+  return datedSchedule(config)
+    .map(({ date, ...item }, index) => {
+      const planned = zonedTime(date, item.time, config.timeZone).getTime();
+      const change = byItem.get(index);
+      if (!change || change.time === item.time) {
+        return { ...item, index, at: planned, note: change?.note };
+      }
+      const at = [-1, 0, 1]
+        .map((days) => zonedTime(addDays(date, days), change.time, config.timeZone).getTime())
+        .reduce((best, t) => (Math.abs(t - planned) < Math.abs(best - planned) ? t : best));
+      return {
+        ...item,
+        index,
+        at,
+        time: change.time,
+        movedFrom: item.time,
+        note: change.note,
+      };
+    })
+    .sort((a, b) => a.at - b.at || a.index - b.index);
+}
+
+/* Which item is on at `now` and how far along to the next one
+   (0–1), or null outside the programme. The last item runs for
+   an hour, as in weddingTimes(), however late it was moved. */
+export function scheduleProgress(
+  config: WeddingConfig,
+  items: LiveItem[],
+  now: number
+) {
+  const end = Math.max(weddingTimes(config).end, items[items.length - 1].at + 3600000);
+  if (now < items[0].at || now >= end) return null;
+  const current = items.findLastIndex((item) => item.at <= now);
+  const until = items[current + 1]?.at ?? end;
+  return {
+    current,
+    next: current + 1 < items.length ? current + 1 : null,
+    fraction: (now - items[current].at) / (until - items[current].at),
+  };
+}
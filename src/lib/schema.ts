@@ -0,0 +1,87 @@
+import { DEFAULT_LOCALE, isLocale } from "@/i18n/config";
+
+/* ================================================================
+   Tiny schema helpers for validating JSON config files
+
+   Each check appends a human-readable message to `issues`
+   instead of throwing, so a single run reports every problem.
+   ================================================================ */
+
+export type Issues = string[];
+
+export const EMAIL_RE = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+export function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+export function str(issues: Issues, v: unknown, path: string, re?: RegExp) {
+  if (typeof v !== "string" || v.trim() === "") {
+    issues.push(`${path} must be a non-empty string`);
+  } else if (re && !re.test(v)) {
+    issues.push(`${path} has an invalid format ("${v}")`);
+  }
+}
+
+export function int(
+  issues: Issues,
+  v: unknown,
+  path: string,
+  min: number,
+  max: number
+) {
+  if (!Number.isInteger(v) || (v as number) < min || (v as number) > max) {
+    issues.push(`${path} must be an integer between ${min} and ${max}`);
+  }
+}
+
+export function num(
+  issues: Issues,
+  v: unknown,
+  path: string,
+  min: number,
+  max: number
+) {
+  if (typeof v !== "number" || !Number.isFinite(v) || v < min || v > max) {
+    issues.push(`${path} must be a number between ${min} and ${max}`);
+  }
+}
+
+export function oneOf<T extends string>(
+  issues: Issues,
+  v: unknown,
+  path: string,
+  values: readonly T[]
+) {
+  if (!values.includes(v as T)) {
+    issues.push(`${path} must be one of ${values.join(", ")}`);
+  }
+}
+
+export function obj(issues: Issues, v: unknown, path: string) {
+  if (!isObject(v)) {
+    issues.push(`${path} must be an object`);
+    return {};
+  }
+  return v;
+}
+
+export function list(issues: Issues, v: unknown, path: string) {
+  if (!Array.isArray(v) || v.length === 0) {
+    issues.push(`${path} must be a non-empty array`);
+    return [];
+  }
+  return v as unknown[];
+}
+
+/* A plain string, or { "ro": "…", "en": "…" } with at least the default locale */
+export function localized(issues: Issues, v: unknown, path: string) {
+  if (!isObject(v)) return str(issues, v, path);
+  for (const [key, text] of Object.entries(v)) {
+    if (!isLocale(key)) issues.push(`${path}.${key} is not a supported locale`);
+    str(issues, text, `${path}.${key}`);
+  }
+  if (!(DEFAULT_LOCALE in v)) {
+    issues.push(`${path} must include the "${DEFAULT_LOCALE}" text`);
+  }
+}
@@ -0,0 +1,41 @@
+import { listRsvps } from "./rsvp-store";
+import { emptyPlan, tableOf, type SeatingPlan } from "./seating";
+import { readCollection, updateCollection } from "./store";
+
+/* ================================================================
+   Seating persistence — server-only. The "seating" collection
+   holds at most one plan per wedding.
+   ================================================================ */
+
+const COLLECTION = "seating";
+
+export async function getSeating(wedding: string): Promise<SeatingPlan> {
+  const plans = await readCollection<SeatingPlan>(COLLECTION);
+  return plans.find((p) => p.wedding === wedding) ?? emptyPlan(wedding);
+}
+
+export async function setSeating(
+  wedding: string,
+  plan: Pick<SeatingPlan, "tables" | "seats">
+): Promise<SeatingPlan> {
+  const saved: SeatingPlan = { wedding, ...plan, updatedAt: new Date().toISOString() };
+  await updateCollection<SeatingPlan>(COLLECTION, (plans) => [
+    ...plans.filter((p) => p.wedding !== wedding),
+    saved,
+  ]);
+  return saved;
+}
+
+/* Number of the table a personal invitation's guests sit at: the
+   newest confirmed response through it that has a seat */
+export async function findTableNumber(wedding: string, guestToken: string) {
+  const [plan, rsvps] = await Promise.all([getSeating(wedding), listRsvps()]);
+  for (const r of rsvps) {
+    if (r.wedding !== wedding || r.guestToken !== guestToken || r.attendance !== "yes") {
+      continue;
+    }
+    const table = tableOf(plan, r.id);
+    if (table) return table.number;
+  }
+  return undefined;
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { parseSeating, seatingIssues, type Party } from "./seating";
+
+const party = (id: string, guests: number, invitation?: string): Party => ({
+  id,
+  name: `Familia ${id}`,
+  guests,
+  people: [],
+  invitation,
+});
+
+const tables = [
+  { id: "t1", number: 1, capacity: 4 },
+  { id: "t2", number: 2, capacity: 10 },
+];
+
+describe("parseSeating", () => {
+  it("keeps only seats of confirmed responses at tables that exist", () => {
+    const parsed = parseSeating(
+      { tables, seats: { a: "t1", b: "t9", gone: "t2" } },
+      [party("a", 2), party("b", 2)]
+    );
+    expect(parsed).toEqual({ ok: true, value: { tables, seats: { a: "t1" } } });
+  });
+
+  it("refuses two tables with the same number", () => {
+    const parsed = parseSeating(
+      { tables: [tables[0], { ...tables[1], number: 1 }], seats: {} },
+      []
+    );
+    expect(parsed.ok).toBe(false);
+  });
+
+  it("refuses tables without seats or with too many", () => {
+    for (const capacity of [0, 31, 2.5]) {
+      expect(parseSeating({ tables: [{ ...tables[0], capacity }], seats: {} }, []).ok).toBe(
+        false
+      );
+    }
+  });
+
+  it("refuses what is not a plan", () => {
+    expect(parseSeating(null, []).ok).toBe(false);
+    expect(parseSeating({ tables: {}, seats: {} }, []).ok).toBe(false);
+  });
+});
+
+describe("seatingIssues", () => {
+  it("finds full tables, invitations answered twice and who has no table", () => {
+    const parties = [party("a", 3, "inv"), party("b", 2, "inv"), party("c", 1)];
+    const issues = seatingIssues({ tables, seats: { a: "t1", b: "t1" } }, parties);
+    expect(issues.overflow).toEqual([{ table: tables[0], load: 5 }]);
+    expect(issues.duplicates).toEqual([[parties[0], parties[1]]]);
+    expect(issues.unseated).toEqual([parties[2]]);
+  });
+
+  it("finds nothing wrong with a plan that fits", () => {
+    const parties = [party("a", 4), party("b", 2)];
+    expect(seatingIssues({ tables, seats: { a: "t1", b: "t2" } }, parties)).toEqual({
+      overflow: [],
+      duplicates: [],
+      unseated: [],
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import type { Rsvp } from "./rsvp";
+
+/* ================================================================
+   Seating plan — which table each confirmed response sits at
+
+   A plan belongs to one wedding and seats whole responses, since
+   an invitation's guests sit together. Tables carry the number
+   printed on their card and the seats they have.
+
+   Safe to import from client components; persistence lives in
+   seating-store.
+   ================================================================ */
+
+export interface SeatingTable {
+  id: string;
+  number: number;
+  capacity: number;
+}
+
+export interface SeatingPlan {
+  wedding: string;
+  tables: SeatingTable[];
+  /* RSVP id → table id */
+  seats: Record<string, string>;
+  /* Empty while the plan was never saved */
+  updatedAt: string;
+}
+
+/* A confirmed response as the seating board sees it */
+export interface Party {
+  id: string;
+  name: string;
+  guests: number;
+  people: string[];
+  /* Token of the invitation it came through, to spot answers given twice */
+  invitation?: string;
+}
+
+export const MAX_TABLES = 60;
+export const MAX_CAPACITY = 30;
+export const DEFAULT_CAPACITY = 10;
+
+export function emptyPlan(wedding: string): SeatingPlan {
+  return { wedding, tables: [], seats: {}, updatedAt: "" };
+}
+
+/* Confirmed responses to `wedding`, by name */
+export function partiesOf(rsvps: Rsvp[], wedding: string): Party[] {
+  return rsvps
+    .filter((r) => r.wedding === wedding && r.attendance === "yes")
+    .map((r) => ({
+      id: r.id,
+      name: r.name,
+      guests: r.guests,
+      people: r.people.map((p) => p.name),
+      invitation: r.guestToken,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name, "ro"));
+}
+
+export function tableOf(plan: Pick<SeatingPlan, "tables" | "seats">, rsvpId: string) {
+  const id = plan.seats[rsvpId];
+  return id ? plan.tables.find((t) => t.id === id) : undefined;
+}
+
+/* People seated at each table, by table id */
+export function tableLoads(
+  plan: Pick<SeatingPlan, "tables" | "seats">,
+  parties: Party[]
+) {
+  const loads = new Map(plan.tables.map((t) => [t.id, 0]));
+  for (const party of parties) {
+    const table = plan.seats[party.id];
+    if (loads.has(table)) loads.set(table, loads.get(table)! + party.guests);
+  }
+  return loads;
+}
+
+export interface SeatingIssues {
+  /* Tables with more people than seats */
+  overflow: { table: SeatingTable; load: number }[];
+  /* Responses seated more than once through the same invitation */
+  duplicates: Party[][];
+  unseated: Party[];
+}
+
+export function seatingIssues(
+  plan: Pick<SeatingPlan, "tables" | "seats">,
+  parties: Party[]
+): SeatingIssues {
+  const loads = tableLoads(plan, parties);
+  const seated = parties.filter((p) => tableOf(plan, p.id));
+
+  const byInvitation = new Map<string, Party[]>();
+  for (const party of seated) {
+    if (!party.invitation) continue;
+    byInvitation.set(party.invitation, [
+      ...(byInvitation.get(party.invitation) ?? []),
+      party,
+    ]);
+  }
+
+  return {
+    overflow: plan.tables
+      .map((table) => ({ table, load: loads.get(table.id) ?? 0 }))
+      .filter(({ table, load }) => load > table.capacity),
+    duplicates: [...byInvitation.values()].filter((group) => group.length > 1),
+    unseated: parties.filter((p) => !tableOf(plan, p.id)),
+  };
+}
+
+export type SeatingParseResult =
+  | { ok: true; value: Pick<SeatingPlan, "tables" | "seats"> }
+  | { ok: false; error: string };
+
+const isInt = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+/* Checks a plan sent from the board. Seats for responses that are
+   no longer confirmed, or at tables that are gone, are dropped. */
+export function parseSeating(input: unknown, parties: Party[]): SeatingParseResult {
+  const { tables, seats } = (input ?? {}) as { tables?: unknown; seats?: unknown };
+  if (!Array.isArray(tables) || typeof seats !== "object" || seats === null) {
+    return { ok: false, error: "Planul nu are forma așteptată" };
+  }
+  if (tables.length > MAX_TABLES) {
+    return { ok: false, error: `Cel mult ${MAX_TABLES} de mese` };
+  }
+
+  const numbers = new Set<number>();
+  const clean: SeatingTable[] = [];
+  for (const t of tables as Partial<SeatingTable>[]) {
+    if (typeof t?.id !== "string" || !t.id) {
+      return { ok: false, error: "O masă nu are identificator" };
+    }
+    if (!isInt(t.number, 1, 999)) {
+      return { ok: false, error: "Numerele meselor sunt între 1 și 999" };
+    }
+    if (!isInt(t.capacity, 1, MAX_CAPACITY)) {
+      return { ok: false, error: `Masa ${t.number} are între 1 și ${MAX_CAPACITY} de locuri` };
+    }
+    if (numbers.has(t.number)) {
+      return { ok: false, error: `Numărul ${t.number} este folosit de două mese` };
+    }
+    numbers.add(t.number);
+    clean.push({ id: t.id, number: t.number, capacity: t.capacity });
+  }
+
+  const tableIds = new Set(clean.map((t) => t.id));
+  const partyIds = new Set(parties.map((p) => p.id));
+  const cleanSeats = Object.fromEntries(
+    Object.entries(seats as Record<string, unknown>).filter(
+      (entry): entry is [string, string] =>
+        partyIds.has(entry[0]) && typeof entry[1] === "string" && tableIds.has(entry[1])
+    )
+  );
+
+  return { ok: true, value: { tables: clean, seats: cleanSeats } };
+}
@@ -0,0 +1,175 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { ImageResponse } from "next/og";
+import { getMessages, type Locale } from "@/i18n";
+import { clusterSize, clusterSvg, iconSvg } from "./artwork";
+import { FLOWERS } from "./flowers";
+import type { Guest } from "./guests";
+import { resolveTheme, type SerifFont } from "./themes";
+import {
+  coupleNames,
+  formatDate,
+  mainVenue,
+  weddingTitle,
+  type WeddingConfig,
+} from "./wedding";
+
+/* ================================================================
+   Share image — the preview messengers and social sites show for
+   an invitation link: the roses, the couple's names in Faith, the
+   date and the venue, and on a guest's link who it is for.
+
+   Rendered by the opengraph-image and twitter-image routes, next
+   to the wedding's icon for browser tabs and home screens.
+   ================================================================ */
+
+export const SHARE_IMAGE_SIZE = { width: 1200, height: 630 };
+
+const FAITH = path.join(process.cwd(), "public", "fonts", "faith.ttf");
+const CLUSTER_HEIGHT = 170;
+const CLUSTER_GAP = 8;
+
+const SERIF_FAMILIES: Record<SerifFont, string> = {
+  cormorant: "Cormorant Garamond",
+  playfair: "Playfair Display",
+};
+
+/* next/font only hands the serif to pages, so the image fetches the
+   glyphs it needs from Google Fonts. Null when that fails, and the
+   text falls back to Faith rather than the image failing. */
+async function serifFont(font: SerifFont, text: string) {
+  const family = encodeURIComponent(SERIF_FAMILIES[font]);
+  try {
+    const css = await fetch(
+      `https://fonts.googleapis.com/css2?family=${family}&text=${encodeURIComponent(text)}`
+    ).then((res) => res.text());
+    const url = css.match(/src: url\((.+?)\) format\('(opentype|truetype)'\)/)?.[1];
+    if (!url) return null;
+    const res = await fetch(url);
+    return res.ok ? await res.arrayBuffer() : null;
+  } catch {
+    return null;
+  }
+}
+
+export function shareImageAlt(config: WeddingConfig, locale: Locale, guest?: Guest) {
+  const title = weddingTitle(config, locale);
+  return guest
+    ? `${getMessages(locale).invitation.for} ${guest.displayName} — ${title}`
+    : title;
+}
+
+const svgDataUri = (svg: string) =>
+  `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+
+/* Both clusters side by side, the right one mirrored, as on the
+   printed invitation */
+function rosesDataUri(config: WeddingConfig) {
+  const species = FLOWERS[config.flower];
+  const cluster = clusterSize();
+  const width = cluster.width * 2 + CLUSTER_GAP;
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${cluster.height}" ` +
+    `viewBox="0 0 ${width} ${cluster.height}">` +
+    clusterSvg(species, 0, 0, 1) +
+    clusterSvg(species, cluster.width + CLUSTER_GAP, 0, 1, true) +
+    `</svg>`;
+  return {
+    src: svgDataUri(svg),
+    width: Math.round((width * CLUSTER_HEIGHT) / cluster.height),
+  };
+}
+
+export async function shareImage(config: WeddingConfig, locale: Locale, guest?: Guest) {
+  const theme = resolveTheme(config.theme);
+  const m = getMessages(locale);
+  const names = coupleNames(config);
+  const roses = rosesDataUri(config);
+  const date = formatDate(config.date, config.timeZone, locale);
+  const venue = mainVenue(config);
+  const serif = await serifFont(
+    theme.serifFont,
+    [m.invitation.for, date, venue].join("").toUpperCase()
+  );
+  /* Long names shrink so they stay on one line */
+  const namesSize = Math.min(132, Math.round(1900 / names.length));
+
+  /* Spaced capitals read poorly in the script fallback */
+  const small = {
+    fontSize: 26,
+    opacity: 0.75,
+    ...(serif && { letterSpacing: "0.3em", textTransform: "uppercase" }),
+  } as const;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          alignItems: "center",
+          justifyContent: "center",
+          gap: 16,
+          background: theme.background,
+          color: theme.primary,
+          fontFamily: "Serif",
+        }}
+      >
+        {/* eslint-disable-next-line @next/next/no-img-element, jsx-a11y/alt-text */}
+        <img src={roses.src} width={roses.width} height={CLUSTER_HEIGHT} />
+        {guest && (
+          <div style={{ display: "flex", alignItems: "baseline", gap: 20 }}>
+            <span style={small}>{m.invitation.for}</span>
+            <span style={{ fontFamily: "Faith", fontSize: 54 }}>{guest.displayName}</span>
+          </div>
+        )}
+        <div style={{ fontFamily: "Faith", fontSize: namesSize, lineHeight: 1.2 }}>
+          {names}
+        </div>
+        <div style={{ ...small, opacity: 1 }}>{date}</div>
+        <div style={{ ...small, fontSize: 22 }}>{venue}</div>
+      </div>
+    ),
+    {
+      ...SHARE_IMAGE_SIZE,
+      fonts: [
+        { name: "Faith", data: await fs.readFile(FAITH), style: "normal" },
+        ...(serif ? [{ name: "Serif", data: serif, style: "normal" as const }] : []),
+      ],
+    }
+  );
+}
+
+/* Home screen icons of the web app manifest */
+export const PWA_ICON_SIZES = [192, 512];
+
+/* The wedding's bloom, on the theme background when `filled` (home
+   screen icons are not transparent) */
+export function iconImage(config: WeddingConfig, size: number, filled = false) {
+  const theme = resolveTheme(config.theme);
+  const bloom = filled ? size * 0.8 : size;
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" ` +
+    `viewBox="0 0 ${size} ${size}">` +
+    iconSvg(FLOWERS[config.flower], size / 2, size / 2, bloom) +
+    `</svg>`;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          background: filled ? theme.background : "transparent",
+        }}
+      >
+        {/* eslint-disable-next-line @next/next/no-img-element, jsx-a11y/alt-text */}
+        <img src={svgDataUri(svg)} width={size} height={size} />
+      </div>
+    ),
+    { width: size, height: size }
+  );
+}
@@ -0,0 +1,185 @@
+import { connect as tcpConnect, type Socket } from "node:net";
+import { connect as tlsConnect } from "node:tls";
+import { randomUUID } from "node:crypto";
+
+/* ================================================================
+   Minimal SMTP client and MIME writer
+
+   Enough of RFC 5321 to hand a message to a relay: a local
+   catcher such as MailHog in development, or a provider's
+   submission port (implicit TLS, AUTH PLAIN) in production.
+   No STARTTLS, no pipelining.
+   ================================================================ */
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /* Implicit TLS, usually port 465 */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+export interface MimeAttachment {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+export interface MimeMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+  attachments?: MimeAttachment[];
+}
+
+const TIMEOUT = 15000;
+
+/* ── MIME ── */
+
+function base64Lines(content: string) {
+  return (
+    Buffer.from(content, "utf8")
+      .toString("base64")
+      .match(/.{1,76}/g)
+      ?.join("\r\n") ?? ""
+  );
+}
+
+/* RFC 2047 encoded word, for non-ASCII subjects and names */
+function encodeHeader(value: string) {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+/* Only the display name may be encoded, never the address */
+function encodeMailbox(mailbox: string) {
+  const match = mailbox.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  return match ? `${encodeHeader(match[1])} <${match[2]}>` : mailbox;
+}
+
+function part(contentType: string, content: string, extra: string[] = []) {
+  return [
+    `Content-Type: ${contentType}`,
+    "Content-Transfer-Encoding: base64",
+    ...extra,
+    "",
+    base64Lines(content),
+  ].join("\r\n");
+}
+
+function multipart(type: string, parts: string[]) {
+  const boundary = `=_${randomUUID()}`;
+  return [
+    `Content-Type: multipart/${type}; boundary="${boundary}"`,
+    "",
+    ...parts.map((p) => `--${boundary}\r\n${p}`),
+    `--${boundary}--`,
+  ].join("\r\n");
+}
+
+export function buildMime(message: MimeMessage, domain: string) {
+  const body = multipart("alternative", [
+    part('text/plain; charset="utf-8"', message.text),
+    part('text/html; charset="utf-8"', message.html),
+  ]);
+  const attachments = message.attachments ?? [];
+  const content =
+    attachments.length === 0
+      ? body
+      : multipart("mixed", [
+          body,
+          ...attachments.map((a) =>
+            part(`${a.contentType}; name="${a.filename}"`, a.content, [
+              `Content-Disposition: attachment; filename="${a.filename}"`,
+            ])
+          ),
+        ]);
+
+  return [
+    `From: ${encodeMailbox(message.from)}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    content,
+  ].join("\r\n");
+}
+
+/* "Maria & Andrei <nunta@example.ro>" → "nunta@example.ro" */
+export function addressOf(mailbox: string) {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+}
+
+/* ── Protocol ── */
+
+interface Reply {
+  code: number;
+  text: string;
+}
+
+/* Yields complete replies; continuation lines ("250-…") are folded
+   into the reply whose last line has a space after the code */
+async function* replies(socket: Socket): AsyncGenerator<Reply> {
+  let buffer = "";
+  for await (const chunk of socket) {
+    buffer += chunk.toString("utf8");
+    let match;
+    while ((match = buffer.match(/^(\d{3}) .*\r?\n/m))) {
+      const end = match.index! + match[0].length;
+      yield { code: Number(match[1]), text: buffer.slice(0, end).trim() };
+      buffer = buffer.slice(end);
+    }
+  }
+}
+
+function open(options: SmtpOptions) {
+  return new Promise<Socket>((resolve, reject) => {
+    const socket = options.secure
+      ? tlsConnect({ host: options.host, port: options.port })
+      : tcpConnect({ host: options.host, port: options.port });
+    socket.setTimeout(TIMEOUT, () => socket.destroy(new Error("SMTP timeout")));
+    socket.once(options.secure ? "secureConnect" : "connect", () => resolve(socket));
+    socket.once("error", reject);
+  });
+}
+
+export async function sendSmtp(options: SmtpOptions, message: MimeMessage) {
+  const from = addressOf(message.from);
+  const domain = from.split("@")[1] ?? "localhost";
+  const socket = await open(options);
+  const reader = replies(socket);
+
+  const expect = async (code: number, command?: string) => {
+    if (command !== undefined) socket.write(`${command}\r\n`);
+    const { value } = await reader.next();
+    if (!value || value.code !== code) {
+      const step = command?.split(" ")[0] ?? "greeting";
+      throw new Error(`SMTP ${step}: ${value?.text ?? "connection closed"}`);
+    }
+  };
+
+  try {
+    await expect(220);
+    await expect(250, `EHLO ${domain}`);
+    if (options.user) {
+      const token = Buffer.from(
+        `\0${options.user}\0${options.pass ?? ""}`
+      ).toString("base64");
+      await expect(235, `AUTH PLAIN ${token}`);
+    }
+    await expect(250, `MAIL FROM:<${from}>`);
+    for (const to of message.to) await expect(250, `RCPT TO:<${addressOf(to)}>`);
+    await expect(354, "DATA");
+    /* Dot-stuffing: a line starting with "." gets another one */
+    const data = buildMime(message, domain).replace(/^\./gm, "..");
+    await expect(250, `${data}\r\n.`);
+    socket.write("QUIT\r\n");
+  } finally {
+    socket.end();
+  }
+}
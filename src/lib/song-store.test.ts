@@ -0,0 +1,53 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+let dir: string;
+let songs: typeof import("./song-store");
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "songs-"));
+  vi.stubEnv("DATA_DIR", dir);
+  songs = await import("./song-store");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+const request = { wedding: "maria-andrei", title: "Hora", artist: "Taraf" };
+
+describe("addSong", () => {
+  it("turns a song asked for twice into a second vote", async () => {
+    await songs.addSong(request, "guest:a");
+    await songs.addSong({ ...request, title: "HORA" }, "guest:b");
+    const [song, ...rest] = await songs.listSongs("maria-andrei");
+    expect(rest).toEqual([]);
+    expect(song.votes).toEqual(["guest:a", "guest:b"]);
+  });
+});
+
+describe("toggleVote", () => {
+  it("adds a vote and takes it back", async () => {
+    const [{ id }] = await songs.listSongs("maria-andrei");
+    await songs.toggleVote("maria-andrei", id, "device:c");
+    expect((await songs.listSongs("maria-andrei"))[0].votes).toContain("device:c");
+    await songs.toggleVote("maria-andrei", id, "device:c");
+    expect((await songs.listSongs("maria-andrei"))[0].votes).not.toContain("device:c");
+  });
+
+  it("counts concurrent votes", async () => {
+    const [{ id }] = await songs.listSongs("maria-andrei");
+    await Promise.all(["x", "y", "z"].map((v) => songs.toggleVote("maria-andrei", id, v)));
+    expect((await songs.listSongs("maria-andrei"))[0].votes).toHaveLength(5);
+  });
+
+  it("refuses a song of another wedding", async () => {
+    const [{ id }] = await songs.listSongs("maria-andrei");
+    await expect(songs.toggleVote("ana-mihai", id, "guest:a")).rejects.toThrow(
+      songs.SongNotFoundError
+    );
+  });
+});
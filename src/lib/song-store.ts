@@ -0,0 +1,64 @@
+import { songKey, type SongRequest } from "./songs";
+import { newId, readCollection, updateCollection } from "./store";
+
+/* ================================================================
+   Song requests — server-only wrapper around the "songs"
+   collection. Votes are changed inside the store's queue, so two
+   guests voting at once both count.
+   ================================================================ */
+
+const COLLECTION = "songs";
+
+export class SongNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Song request ${id} not found`);
+    this.name = "SongNotFoundError";
+  }
+}
+
+export async function listSongs(wedding: string): Promise<SongRequest[]> {
+  const items = await readCollection<SongRequest>(COLLECTION);
+  return items.filter((s) => s.wedding === wedding);
+}
+
+/* A song already requested gets the suggester's vote instead */
+export async function addSong(
+  input: Pick<SongRequest, "wedding" | "title" | "artist" | "suggestedBy">,
+  voter: string
+) {
+  const key = songKey(input);
+  await updateCollection<SongRequest>(COLLECTION, (items) => {
+    const existing = items.find((s) => s.wedding === input.wedding && songKey(s) === key);
+    if (existing) {
+      return items.map((s) =>
+        s === existing && !s.votes.includes(voter) ? { ...s, votes: [...s.votes, voter] } : s
+      );
+    }
+    const song: SongRequest = {
+      ...input,
+      id: newId(),
+      votes: [voter],
+      createdAt: new Date().toISOString(),
+    };
+    return [...items, song];
+  });
+}
+
+/* Adds `voter`'s vote, or takes it back if it was there */
+export async function toggleVote(wedding: string, id: string, voter: string) {
+  await updateCollection<SongRequest>(COLLECTION, (items) => {
+    if (!items.some((s) => s.wedding === wedding && s.id === id)) {
+      throw new SongNotFoundError(id);
+    }
+    return items.map((s) =>
+      s.id !== id
+        ? s
+        : {
+            ...s,
+            votes: s.votes.includes(voter)
+              ? s.votes.filter((v) => v !== voter)
+              : [...s.votes, voter],
+          }
+    );
+  });
+}
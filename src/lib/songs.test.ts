@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { rankSongs, songKey, type SongRequest } from "./songs";
+
+const song = (id: string, votes: number, createdAt: string): SongRequest => ({
+  id,
+  wedding: "maria-andrei",
+  title: `Song ${id}`,
+  artist: "Artist",
+  votes: Array.from({ length: votes }, (_, i) => `guest:${i}`),
+  createdAt,
+});
+
+describe("rankSongs", () => {
+  it("puts the most votes first and the earlier suggestion among equals", () => {
+    const ranked = rankSongs([
+      song("late", 2, "2026-08-01T12:00:00.000Z"),
+      song("top", 5, "2026-08-02T12:00:00.000Z"),
+      song("early", 2, "2026-07-01T12:00:00.000Z"),
+    ]);
+    expect(ranked.map((s) => s.id)).toEqual(["top", "early", "late"]);
+  });
+
+  it("shows how many voted, not who", () => {
+    const [ranked] = rankSongs([song("a", 3, "2026-08-01T12:00:00.000Z")]);
+    expect(ranked).toEqual({ id: "a", title: "Song a", artist: "Artist", votes: 3 });
+  });
+});
+
+describe("songKey", () => {
+  it("matches a song whatever its accents, case and punctuation", () => {
+    expect(songKey({ title: "Ciocârlia", artist: "Gheorghe Zamfir" })).toBe(
+      songKey({ title: "ciocarlia!", artist: "GHEORGHE  ZAMFIR" })
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import { weddingTimes, type WeddingConfig } from "./wedding";
+
+/* ================================================================
+   Song requests for the party — guests suggest songs and upvote
+   each other's, and the DJ plays from the ranked list
+
+   Everything is typed in by guests; no music service is asked.
+   A song suggested twice (same title and artist, whatever the
+   spelling of accents and case) is one request with two votes.
+   A voter is a personal invitation or, without one, the browser
+   it votes from, with a device token the server issued (see
+   lib/device).
+
+   Safe to import from client components; persistence lives in
+   song-store.
+   ================================================================ */
+
+export interface SongRequest {
+  id: string;
+  wedding: string;
+  title: string;
+  artist: string;
+  /* Name given by whoever suggested it first, if any */
+  suggestedBy?: string;
+  /* Voter keys, see voterKey(); the suggester is the first */
+  votes: string[];
+  createdAt: string;
+}
+
+/* What guests and the DJ see of a request */
+export interface PublicSong {
+  id: string;
+  title: string;
+  artist: string;
+  votes: number;
+}
+
+export const MAX_SONG_FIELD = 120;
+
+/* Keys into the `songs.errors` message catalog */
+export type SongErrorCode = "title" | "artist" | "closed" | "voter" | "unknown" | "rate";
+
+export type SongResult =
+  | { ok: true; songs: PublicSong[]; voted: string[] }
+  | { ok: false; error: SongErrorCode };
+
+const DEVICE_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/* "guest:<token>" for a checked invitation token, "device:<uuid>"
+   for a verified device; undefined when neither is usable */
+export function voterKey({ guest, device }: { guest?: string; device?: string }) {
+  if (guest) return `guest:${guest}`;
+  if (device && DEVICE_RE.test(device)) return `device:${device.toLowerCase()}`;
+  return undefined;
+}
+
+const DEVICE_KEY = "flower.device";
+
+/* Browser only: the device token the song list handed out, kept
+   in localStorage so votes from this browser count once */
+export function storedDevice() {
+  try {
+    return localStorage.getItem(DEVICE_KEY) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function keepDevice(token: string) {
+  try {
+    localStorage.setItem(DEVICE_KEY, token);
+  } catch {
+    /* Private mode: this browser gets a new token next visit */
+  }
+}
+
+export function songKey(song: Pick<SongRequest, "title" | "artist">) {
+  const fold = (s: string) =>
+    s
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, " ")
+      .trim();
+  return `${fold(song.artist)}|${fold(song.title)}`;
+}
+
+export function checkSong(input: { title: string; artist: string }): SongErrorCode | undefined {
+  if (!input.title || input.title.length > MAX_SONG_FIELD) return "title";
+  if (!input.artist || input.artist.length > MAX_SONG_FIELD) return "artist";
+  return undefined;
+}
+
+/* Requests are taken until the party is over */
+export function songsOpen(config: WeddingConfig, now = Date.now()) {
+  return now < weddingTimes(config).end;
+}
+
+/* Most votes first; among equals, the earlier suggestion */
+export function rankSongs(songs: SongRequest[]): PublicSong[] {
+  return [...songs]
+    .sort((a, b) => b.votes.length - a.votes.length || a.createdAt.localeCompare(b.createdAt))
+    .map(({ id, title, artist, votes }) => ({ id, title, artist, votes: votes.length }));
+}
+
+/* An M3U playlist of the ranked requests. Without a music service
+   there are no file locations: each entry names an "Artist -
+   Title.mp3" for the DJ's software to match in their library. */
+export function songsM3u(songs: PublicSong[]) {
+  return [
+    "#EXTM3U",
+    ...songs.flatMap((s) => {
+      const name = `${s.artist} - ${s.title}`.replace(/[\r\n]+/g, " ");
+      return [`#EXTINF:-1,${name}`, `${name.replace(/[\\/:*?"<>|]/g, "_")}.mp3`];
+    }),
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,45 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+let dir: string;
+let store: typeof import("./store");
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "store-"));
+  vi.stubEnv("DATA_DIR", dir);
+  store = await import("./store");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("updateCollection", () => {
+  it("applies concurrent updates one after another", async () => {
+    await Promise.all(
+      [1, 2, 3, 4, 5].map((n) => store.updateCollection<number>("numbers", (xs) => [...xs, n]))
+    );
+    expect(await store.readCollection<number>("numbers")).toEqual([1, 2, 3, 4, 5]);
+    expect((await fs.readdir(dir)).filter((f) => f.endsWith(".tmp"))).toEqual([]);
+  });
+});
+
+describe("appendLog", () => {
+  it("keeps every record of concurrent appends", async () => {
+    await Promise.all([1, 2, 3].map((n) => store.appendLog("events", { n })));
+    const records = await store.readLog<{ n: number }>("events");
+    expect(records.map((r) => r.n).sort()).toEqual([1, 2, 3]);
+  });
+
+  it("skips a line cut short", async () => {
+    await fs.appendFile(path.join(dir, "events.jsonl"), '{"n":');
+    expect(await store.readLog("events")).toHaveLength(3);
+  });
+
+  it("reads a missing log as empty", async () => {
+    expect(await store.readLog("nothing")).toEqual([]);
+  });
+});
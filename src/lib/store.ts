@@ -0,0 +1,93 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/* ================================================================
+   File-backed JSON store
+
+   Each collection lives in its own `<name>.json` file under
+   DATA_DIR (defaults to ./data). Writes go through a single
+   promise queue and are swapped in with a rename so a crash
+   mid-write never leaves a half-written file behind. The queue
+   is kept on globalThis so route handlers and server actions,
+   bundled apart, still wait for each other.
+
+   Logs that only ever grow, one record per line in `<name>.jsonl`,
+   are appended to instead, so a busy one isn't rewritten whole on
+   every record.
+   ================================================================ */
+
+export const DATA_DIR = process.env.DATA_DIR ?? path.join(process.cwd(), "data");
+
+const shared = globalThis as { storeQueue?: Promise<unknown> };
+
+function fileFor(name: string) {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+export async function readCollection<T>(name: string): Promise<T[]> {
+  try {
+    const raw = await fs.readFile(fileFor(name), "utf8");
+    return JSON.parse(raw) as T[];
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+}
+
+async function writeCollection<T>(name: string, items: T[]) {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const file = fileFor(name);
+  const tmp = `${file}.${crypto.randomUUID()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(items, null, 2), "utf8");
+  await fs.rename(tmp, file);
+}
+
+/* Read-modify-write a collection; calls are serialized */
+export function updateCollection<T>(
+  name: string,
+  update: (items: T[]) => T[]
+): Promise<T[]> {
+  const next = (shared.storeQueue ?? Promise.resolve()).then(async () => {
+    const items = update(await readCollection<T>(name));
+    await writeCollection(name, items);
+    return items;
+  });
+  shared.storeQueue = next.catch(() => undefined);
+  return next;
+}
+
+/* ── Logs ── */
+
+function logFor(name: string) {
+  return path.join(DATA_DIR, `${name}.jsonl`);
+}
+
+export async function readLog<T>(name: string): Promise<T[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(logFor(name), "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+  /* A line cut short by a crash is skipped */
+  return raw.split("\n").flatMap((line) => {
+    if (!line) return [];
+    try {
+      return [JSON.parse(line) as T];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/* One short write in append mode, so records from concurrent
+   requests don't interleave */
+export async function appendLog<T>(name: string, item: T) {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  await fs.appendFile(logFor(name), `${JSON.stringify(item)}\n`, "utf8");
+}
+
+export function newId() {
+  return crypto.randomUUID();
+}
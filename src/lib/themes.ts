@@ -0,0 +1,94 @@
+import type { CSSProperties } from "react";
+
+/* ================================================================
+   Themes — colors, fonts and backdrop of an invitation
+
+   A theme is applied as CSS variables (see globals.css), and
+   components only use the token classes built on them
+   (`bg-primary`, `text-accent/70`, …), so switching a wedding's
+   look never touches markup. Hover shades are mixed in CSS.
+   ================================================================ */
+
+export const SCRIPT_FONTS = ["faith", "greatVibes"] as const;
+export const SERIF_FONTS = ["cormorant", "playfair"] as const;
+
+export type ScriptFont = (typeof SCRIPT_FONTS)[number];
+export type SerifFont = (typeof SERIF_FONTS)[number];
+
+export interface Theme {
+  /* Headings, text and dark surfaces */
+  primary: string;
+  /* Light highlights on dark surfaces */
+  accent: string;
+  background: string;
+  /* Mid tone for links, markers and errors on light surfaces */
+  highlight: string;
+  scriptFont: ScriptFont;
+  serifFont: SerifFont;
+  /* Photo behind the hero and dark sections, or null for plain color */
+  backgroundImage: string | null;
+}
+
+export const THEMES = {
+  burgundyRose: {
+    primary: "#5c1a2a",
+    accent: "#f4b0c4",
+    background: "#fef7f0",
+    highlight: "#a83458",
+    scriptFont: "faith",
+    serifFont: "cormorant",
+    backgroundImage: "/flowers-bg.jpg",
+  },
+  sageEucalyptus: {
+    primary: "#2f4a3a",
+    accent: "#c9dcc3",
+    background: "#f6f7f1",
+    highlight: "#5f8a6a",
+    scriptFont: "greatVibes",
+    serifFont: "cormorant",
+    backgroundImage: null,
+  },
+  navyGold: {
+    primary: "#1c2a4a",
+    accent: "#e6cb83",
+    background: "#fbf8f1",
+    highlight: "#a9822f",
+    scriptFont: "faith",
+    serifFont: "playfair",
+    backgroundImage: null,
+  },
+} satisfies Record<string, Theme>;
+
+export type ThemeId = keyof typeof THEMES;
+
+export const THEME_IDS = Object.keys(THEMES) as ThemeId[];
+
+/* How a wedding config picks its theme: a preset, optionally with
+   some of its values replaced */
+export type ThemeChoice = { preset: ThemeId } & Partial<Theme>;
+
+export function resolveTheme({ preset, ...overrides }: ThemeChoice): Theme {
+  return { ...THEMES[preset], ...overrides };
+}
+
+/* next/font variable of each font, declared in app/fonts.ts */
+const FONT_VARIABLES: Record<ScriptFont | SerifFont, string> = {
+  faith: "--font-faith",
+  greatVibes: "--font-great-vibes",
+  cormorant: "--font-cormorant",
+  playfair: "--font-playfair",
+};
+
+export function themeStyle(theme: Theme) {
+  return {
+    "--primary": theme.primary,
+    "--accent": theme.accent,
+    "--background": theme.background,
+    "--highlight": theme.highlight,
+    "--font-script": `var(${FONT_VARIABLES[theme.scriptFont]})`,
+    "--font-serif": `var(${FONT_VARIABLES[theme.serifFont]})`,
+    "--background-image": theme.backgroundImage
+      ? `url("${theme.backgroundImage}")`
+      : "none",
+  } as CSSProperties;
+}
@@ -0,0 +1,48 @@
+/* ================================================================
+   Wall-clock helpers
+
+   Config dates ("2026-08-15") and times ("18:00") are local to
+   the wedding's time zone. These helpers turn them into real
+   instants without pulling in a date library: the zone's UTC
+   offset at any moment comes from Intl.
+   ================================================================ */
+
+/* "2026-08-15" + 1 → "2026-08-16" */
+export function addDays(date: string, days: number) {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export function minutesOf(time: string) {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+/* Offset of `timeZone` from UTC at `instant`, in minutes (+180 for EEST) */
+export function zoneOffset(instant: Date, timeZone: string) {
+  const name = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    timeZoneName: "longOffset",
+  })
+    .formatToParts(instant)
+    .find((p) => p.type === "timeZoneName")?.value;
+  const match = name?.match(/GMT([+-])(\d{2}):(\d{2})/);
+  if (!match) return 0;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === "-" ? -minutes : minutes;
+}
+
+/* Local wall-clock date and time in `timeZone` → the instant it denotes */
+export function zonedTime(date: string, time: string, timeZone: string) {
+  const asUtc = new Date(`${date}T${time}:00Z`);
+  const guess = new Date(asUtc.getTime() - zoneOffset(asUtc, timeZone) * 60000);
+  /* Re-check in case the guess crossed a DST change */
+  const offset = zoneOffset(guess, timeZone);
+  return new Date(asUtc.getTime() - offset * 60000);
+}
+
+/* Calendar date ("2026-08-15") it is in `timeZone` at `instant` */
+export function localDate(instant: Date, timeZone: string) {
+  return new Intl.DateTimeFormat("en-CA", { timeZone }).format(instant);
+}
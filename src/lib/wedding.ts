@@ -0,0 +1,341 @@
+import { INTL_LOCALES, localize, type Locale, type Localized } from "@/i18n";
+import { FLOWER_IDS, type FlowerId } from "./flowers";
+import {
+  BIC_RE,
+  isValidIban,
+  REVOLUT_RE,
+  type GiftsConfig,
+} from "./gifts";
+import {
+  SCRIPT_FONTS,
+  SERIF_FONTS,
+  THEME_IDS,
+  type ThemeChoice,
+} from "./themes";
+import {
+  EMAIL_RE,
+  int,
+  list,
+  localized,
+  num,
+  obj,
+  oneOf,
+  str,
+  type Issues,
+} from "./schema";
+import { addDays, minutesOf, zonedTime } from "./time";
+
+/* ================================================================
+   Wedding configuration — everything that differs between couples
+
+   Config files are plain JSON so they can be edited without
+   touching markup. They are checked against the schema below
+   when the module loads, which happens during `next build`, so
+   a broken config fails the build instead of rendering blanks.
+   ================================================================ */
+
+export type EventKind = "civil" | "religious" | "party";
+
+export interface WeddingEvent {
+  kind: EventKind;
+  /* Overrides the standard name for the kind, e.g. "Cununie Civilă" */
+  label?: Localized;
+  venue: string;
+  address: string;
+  /* Local time of day, "HH:MM" */
+  time: string;
+  coordinates: Coordinates;
+}
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+export type MapProviderId = "osm" | "google";
+
+export interface ScheduleItem {
+  time: string;
+  title: Localized;
+  desc?: Localized;
+}
+
+/* One moment of the couple's story, e.g. how they met */
+export interface StoryItem {
+  /* Free text, "Toamna 2018" rather than a date */
+  when: Localized;
+  title: Localized;
+  text?: Localized;
+}
+
+export interface WeddingConfig {
+  /* URL segment the wedding is served under, e.g. "maria-andrei" */
+  slug: string;
+  couple: { bride: string; groom: string };
+  /* Calendar date of the wedding, "YYYY-MM-DD" */
+  date: string;
+  timeZone: string;
+  city: string;
+  family: { parents: string[]; godparents: string[] };
+  events: WeddingEvent[];
+  schedule: ScheduleItem[];
+  /* Shown with the photo gallery, see config/galleries */
+  story?: StoryItem[];
+  /* `notify` lists the addresses told about every new response */
+  rsvp: { deadline: string; notify?: string[] };
+  /* `zoom` is used when a single venue is in focus */
+  map: { provider: MapProviderId; zoom: number };
+  /* A built-in theme, optionally with some values replaced */
+  theme: ThemeChoice;
+  /* Species drawn for every rose on the page, see lib/flowers */
+  flower: FlowerId;
+  /* Opens the photo album for guests without a personal link */
+  albumCode?: string;
+  /* Opens the ranked song requests for the DJ, see lib/songs */
+  djCode?: string;
+  /* Bank details and registry, see lib/gifts */
+  gifts?: GiftsConfig;
+}
+
+/* What may be sent to the browser: the config without the codes
+   that open the album and the DJ's list to anyone holding them,
+   and without the couple's addresses RSVPs are sent to */
+export type PublicWeddingConfig = Omit<WeddingConfig, "albumCode" | "djCode" | "rsvp"> & {
+  rsvp: Omit<WeddingConfig["rsvp"], "notify">;
+};
+
+export class WeddingConfigError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid wedding config:\n  - ${issues.join("\n  - ")}`);
+    this.name = "WeddingConfigError";
+  }
+}
+
+/* ── Schema ── */
+
+const EVENT_KINDS: readonly EventKind[] = ["civil", "religious", "party"];
+const MAP_PROVIDERS: readonly MapProviderId[] = ["osm", "google"];
+const SLUG_RE = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+export const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+const COLOR_RE = /^#[0-9a-f]{6}$/i;
+const ALBUM_CODE_RE = /^[a-z0-9-]{6,40}$/i;
+const GIFT_ID_RE = /^[a-z0-9-]{1,40}$/;
+
+export function validateWeddingConfig(input: unknown): WeddingConfig {
+  const issues: Issues = [];
+  const root = obj(issues, input, "config");
+
+  str(issues, root.slug, "slug", SLUG_RE);
+
+  const couple = obj(issues, root.couple, "couple");
+  str(issues, couple.bride, "couple.bride");
+  str(issues, couple.groom, "couple.groom");
+
+  str(issues, root.date, "date", DATE_RE);
+  str(issues, root.timeZone, "timeZone");
+  str(issues, root.city, "city");
+
+  const family = obj(issues, root.family, "family");
+  list(issues, family.parents, "family.parents").forEach((p, i) =>
+    str(issues, p, `family.parents[${i}]`)
+  );
+  list(issues, family.godparents, "family.godparents").forEach((p, i) =>
+    str(issues, p, `family.godparents[${i}]`)
+  );
+
+  const kinds = new Set<unknown>();
+  list(issues, root.events, "events").forEach((e, i) => {
+    const event = obj(issues, e, `events[${i}]`);
+    oneOf(issues, event.kind, `events[${i}].kind`, EVENT_KINDS);
+    if (kinds.has(event.kind)) {
+      issues.push(`events[${i}].kind "${event.kind}" is used twice`);
+    }
+    kinds.add(event.kind);
+    if (event.label !== undefined) {
+      localized(issues, event.label, `events[${i}].label`);
+    }
+    str(issues, event.venue, `events[${i}].venue`);
+    str(issues, event.address, `events[${i}].address`);
+    str(issues, event.time, `events[${i}].time`, TIME_RE);
+    const at = obj(issues, event.coordinates, `events[${i}].coordinates`);
+    num(issues, at.lat, `events[${i}].coordinates.lat`, -90, 90);
+    num(issues, at.lng, `events[${i}].coordinates.lng`, -180, 180);
+  });
+
+  list(issues, root.schedule, "schedule").forEach((s, i) => {
+    const item = obj(issues, s, `schedule[${i}]`);
+    str(issues, item.time, `schedule[${i}].time`, TIME_RE);
+    localized(issues, item.title, `schedule[${i}].title`);
+    if (item.desc !== undefined) {
+      localized(issues, item.desc, `schedule[${i}].desc`);
+    }
+  });
+
+  if (root.story !== undefined) {
+    list(issues, root.story, "story").forEach((s, i) => {
+      const item = obj(issues, s, `story[${i}]`);
+      localized(issues, item.when, `story[${i}].when`);
+      localized(issues, item.title, `story[${i}].title`);
+      if (item.text !== undefined) {
+        localized(issues, item.text, `story[${i}].text`);
+      }
+    });
+  }
+
+  const rsvp = obj(issues, root.rsvp, "rsvp");
+  str(issues, rsvp.deadline, "rsvp.deadline", DATE_RE);
+  if (rsvp.notify !== undefined) {
+    list(issues, rsvp.notify, "rsvp.notify").forEach((e, i) =>
+      str(issues, e, `rsvp.notify[${i}]`, EMAIL_RE)
+    );
+  }
+
+  const map = obj(issues, root.map, "map");
+  oneOf(issues, map.provider, "map.provider", MAP_PROVIDERS);
+  int(issues, map.zoom, "map.zoom", 1, 19);
+
+  const theme = obj(issues, root.theme, "theme");
+  oneOf(issues, theme.preset, "theme.preset", THEME_IDS);
+  for (const key of ["primary", "accent", "background", "highlight"] as const) {
+    if (theme[key] !== undefined) str(issues, theme[key], `theme.${key}`, COLOR_RE);
+  }
+  if (theme.scriptFont !== undefined) {
+    oneOf(issues, theme.scriptFont, "theme.scriptFont", SCRIPT_FONTS);
+  }
+  if (theme.serifFont !== undefined) {
+    oneOf(issues, theme.serifFont, "theme.serifFont", SERIF_FONTS);
+  }
+  if (theme.backgroundImage !== undefined && theme.backgroundImage !== null) {
+    str(issues, theme.backgroundImage, "theme.backgroundImage", /^\//);
+  }
+
+  oneOf(issues, root.flower, "flower", FLOWER_IDS);
+
+  if (root.albumCode !== undefined) {
+    str(issues, root.albumCode, "albumCode", ALBUM_CODE_RE);
+  }
+  if (root.djCode !== undefined) {
+    str(issues, root.djCode, "djCode", ALBUM_CODE_RE);
+  }
+
+  if (root.gifts !== undefined) {
+    const gifts = obj(issues, root.gifts, "gifts");
+    if (gifts.note !== undefined) localized(issues, gifts.note, "gifts.note");
+    if (gifts.bank !== undefined) {
+      const bank = obj(issues, gifts.bank, "gifts.bank");
+      str(issues, bank.holder, "gifts.bank.holder");
+      str(issues, bank.iban, "gifts.bank.iban");
+      if (typeof bank.iban === "string" && bank.iban.trim() && !isValidIban(bank.iban)) {
+        issues.push(`gifts.bank.iban is not a valid IBAN ("${bank.iban}")`);
+      }
+      if (bank.bic !== undefined) str(issues, bank.bic, "gifts.bank.bic", BIC_RE);
+      if (bank.bank !== undefined) str(issues, bank.bank, "gifts.bank.bank");
+    }
+    if (gifts.revolut !== undefined) {
+      str(issues, gifts.revolut, "gifts.revolut", REVOLUT_RE);
+    }
+    if (gifts.registry !== undefined) {
+      const ids = new Set<unknown>();
+      list(issues, gifts.registry, "gifts.registry").forEach((g, i) => {
+        const path = `gifts.registry[${i}]`;
+        const item = obj(issues, g, path);
+        str(issues, item.id, `${path}.id`, GIFT_ID_RE);
+        if (ids.has(item.id)) issues.push(`${path}.id "${item.id}" is used twice`);
+        ids.add(item.id);
+        localized(issues, item.title, `${path}.title`);
+        if (item.desc !== undefined) localized(issues, item.desc, `${path}.desc`);
+        if (item.url !== undefined) str(issues, item.url, `${path}.url`, /^https?:\/\//);
+      });
+    }
+    if (gifts.bank === undefined && gifts.revolut === undefined && !gifts.registry) {
+      issues.push("gifts needs a bank account, a Revolut username or a registry");
+    }
+  }
+
+  if (issues.length > 0) throw new WeddingConfigError(issues);
+  return input as WeddingConfig;
+}
+
+/* For props of client components, see PublicWeddingConfig */
+export function publicConfig(config: WeddingConfig): PublicWeddingConfig {
+  const copy = { ...config, rsvp: { ...config.rsvp } };
+  delete copy.albumCode;
+  delete copy.djCode;
+  delete copy.rsvp.notify;
+  return copy;
+}
+
+/* ── Derived values ── */
+
+export function coupleNames(config: WeddingConfig) {
+  return `${config.couple.bride} & ${config.couple.groom}`;
+}
+
+export function weddingTitle(config: WeddingConfig, locale: Locale) {
+  return `${coupleNames(config)} — ${formatDate(config.date, config.timeZone, locale)}`;
+}
+
+export function eventLabel(
+  event: WeddingEvent,
+  locale: Locale,
+  standard: Record<EventKind, string>
+) {
+  return event.label ? localize(event.label, locale) : standard[event.kind];
+}
+
+/* "2026-08-15" → "15 August 2026" / "August 15, 2026" */
+export function formatDate(date: string, timeZone: string, locale: Locale) {
+  const text = new Intl.DateTimeFormat(INTL_LOCALES[locale], {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone,
+  }).format(new Date(`${date}T12:00:00Z`));
+  return text
+    .split(" ")
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(" ");
+}
+
+/* Schedule items with their calendar date. An item earlier than the
+   one before it ("00:00" after "19:00") falls on the next day. */
+export function datedSchedule(config: WeddingConfig) {
+  let day = 0;
+  return config.schedule.map((item, i, all) => {
+    if (i > 0 && minutesOf(item.time) < minutesOf(all[i - 1].time)) day++;
+    return { ...item, date: addDays(config.date, day) };
+  });
+}
+
+/* Real instants (epoch ms) framing the wedding day: when the day
+   starts, when the first event begins, and when the last scheduled
+   item has run its course (which may be after midnight). */
+export function weddingTimes(config: WeddingConfig) {
+  const schedule = datedSchedule(config);
+  const first = [...config.events].sort(
+    (a, b) => minutesOf(a.time) - minutesOf(b.time)
+  )[0];
+  const last = schedule[schedule.length - 1];
+  const hour = 3600000;
+  return {
+    dayStart: zonedTime(config.date, "00:00", config.timeZone).getTime(),
+    start: zonedTime(config.date, first.time, config.timeZone).getTime(),
+    end: zonedTime(last.date, last.time, config.timeZone).getTime() + hour,
+  };
+}
+
+export function mainVenue(config: WeddingConfig) {
+  const party = config.events.find((e) => e.kind === "party");
+  return party ? `${config.city}, ${party.venue}` : config.city;
+}
+
+/* "18:00" → "18:00" / "6:00 PM" */
+export function formatTime(time: string, locale: Locale) {
+  const [h, m] = time.split(":").map(Number);
+  return new Intl.DateTimeFormat(INTL_LOCALES[locale], {
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: "UTC",
+  }).format(new Date(Date.UTC(2000, 0, 1, h, m)));
+}
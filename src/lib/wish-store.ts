@@ -0,0 +1,45 @@
+import { newId, readCollection, updateCollection } from "./store";
+import type { Wish, WishStatus } from "./wishes";
+
+/* ================================================================
+   Guestbook persistence — server-only wrapper around the
+   "wishes" collection
+   ================================================================ */
+
+const COLLECTION = "wishes";
+
+export async function addWish(
+  input: Pick<Wish, "wedding" | "guestToken" | "name" | "text">
+): Promise<Wish> {
+  const wish: Wish = {
+    ...input,
+    id: newId(),
+    status: "pending",
+    createdAt: new Date().toISOString(),
+  };
+  await updateCollection<Wish>(COLLECTION, (items) => [...items, wish]);
+  return wish;
+}
+
+export async function listWishes(
+  filter: { wedding?: string; status?: WishStatus } = {}
+): Promise<Wish[]> {
+  const items = await readCollection<Wish>(COLLECTION);
+  return items
+    .filter(
+      (w) =>
+        (!filter.wedding || w.wedding === filter.wedding) &&
+        (!filter.status || w.status === filter.status)
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function setWishStatus(id: string, status: WishStatus) {
+  await updateCollection<Wish>(COLLECTION, (items) =>
+    items.map((w) => (w.id === id ? { ...w, status } : w))
+  );
+}
+
+export async function deleteWish(id: string) {
+  await updateCollection<Wish>(COLLECTION, (items) => items.filter((w) => w.id !== id));
+}
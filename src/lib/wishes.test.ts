@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { checkWish, MAX_WISH_TEXT } from "./wishes";
+
+const wish = (text: string, name = "Ioana") => checkWish({ name, text });
+
+describe("checkWish", () => {
+  it("accepts a kind word", () => {
+    expect(wish("Să fiți fericiți și să vă iubiți o viață întreagă!")).toBeUndefined();
+  });
+
+  it("asks for a name and a text of reasonable length", () => {
+    expect(wish("Casă de piatră!", "")).toBe("name");
+    expect(wish("a")).toBe("text");
+    expect(wish("a".repeat(MAX_WISH_TEXT + 1))).toBe("text");
+  });
+
+  it("turns away links, with or without a scheme", () => {
+    expect(wish("Vedeți https://example.com")).toBe("links");
+    expect(wish("Reduceri pe www.example.com")).toBe("links");
+    expect(wish("Intrați pe cazino.ro azi")).toBe("links");
+    expect(wish("Felicitări!", "shop.com")).toBe("links");
+  });
+
+  it("turns away coarse words however they are spelled", () => {
+    expect(wish("What the FUCK")).toBe("language");
+    expect(wish("sh1t happens")).toBe("language");
+    expect(wish("Felicitări!", "Bitch")).toBe("language");
+  });
+
+  it("leaves words that only contain a coarse one", () => {
+    expect(wish("Shitake și dickens la masă, ce mai petrecere")).toBeUndefined();
+  });
+});
@@ -0,0 +1,99 @@
+import { weddingTimes, type WeddingConfig } from "./wedding";
+
+/* ================================================================
+   Guestbook — wishes guests leave for the couple
+
+   Every wish waits for the couple's approval before it shows on
+   the invitation. Wishes with links or coarse language are turned
+   away before that, with a message the guest can act on.
+
+   Safe to import from client components; persistence lives in
+   wish-store.
+   ================================================================ */
+
+export type WishStatus = "pending" | "approved" | "rejected";
+
+export interface Wish {
+  id: string;
+  wedding: string;
+  /* Invitation it was left through, if any */
+  guestToken?: string;
+  name: string;
+  text: string;
+  status: WishStatus;
+  createdAt: string;
+}
+
+/* What the invitation shows of an approved wish */
+export type PublicWish = Pick<Wish, "id" | "name" | "text" | "createdAt">;
+
+export const MAX_WISH_NAME = 80;
+export const MAX_WISH_TEXT = 600;
+export const WISHES_PER_PAGE = 6;
+
+/* Keys into the `guestbook.errors` message catalog */
+export type WishErrorCode = "name" | "text" | "links" | "language" | "rate";
+
+export type WishResult = { ok: true } | { ok: false; error: WishErrorCode };
+
+const LINK_RE = /(https?:\/\/|www\.|\b[a-z0-9-]+\.(com|net|org|ro|ru|info|xyz|io)\b)/i;
+
+/* Whole words, compared without diacritics */
+const COARSE_WORDS = new Set([
+  "muie",
+  "pula",
+  "pizda",
+  "curva",
+  "cacat",
+  "bulangiu",
+  "labagiu",
+  "fut",
+  "futu",
+  "futui",
+  "futut",
+  "fuck",
+  "fucking",
+  "shit",
+  "bitch",
+  "cunt",
+  "asshole",
+  "dick",
+]);
+
+/* Word beginnings that are coarse whatever follows */
+const COARSE_STEMS = ["fuck", "pizd", "muist"];
+
+function words(text: string) {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/0/g, "o")
+    .replace(/1/g, "i")
+    .replace(/3/g, "e")
+    .replace(/4|@/g, "a")
+    .replace(/\$/g, "s")
+    .split(/[^a-z*]+/)
+    .filter(Boolean);
+}
+
+export function isCoarse(text: string) {
+  return words(text).some(
+    (w) => COARSE_WORDS.has(w) || COARSE_STEMS.some((stem) => w.startsWith(stem))
+  );
+}
+
+/* What can be told from the text alone; the server also limits
+   how often one visitor posts */
+export function checkWish(input: { name: string; text: string }): WishErrorCode | undefined {
+  if (!input.name || input.name.length > MAX_WISH_NAME) return "name";
+  if (input.text.length < 2 || input.text.length > MAX_WISH_TEXT) return "text";
+  if (LINK_RE.test(input.text) || LINK_RE.test(input.name)) return "links";
+  if (isCoarse(input.text) || isCoarse(input.name)) return "language";
+  return undefined;
+}
+
+/* The keepsake of all wishes is made once the day is over */
+export function keepsakeReady(config: WeddingConfig, now = Date.now()) {
+  return now >= weddingTimes(config).end;
+}
@@ -0,0 +1,42 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { defaultWedding, findGuest } from "@/config";
+import { DEFAULT_LOCALE, isLocale, type Locale } from "@/i18n/config";
+
+/* ================================================================
+   Locale prefixing
+
+   Every public page lives under /<locale>/…. Unprefixed URLs —
+   "/", "/maria-andrei" and invitation links already sent out —
+   are redirected: personal links open in the guest's language,
+   everything else in the browser's preferred supported locale.
+   ================================================================ */
+
+function guestLocale([slug, inv, token]: string[]) {
+  if (inv !== "inv" || !token) return undefined;
+  return findGuest(slug, token)?.language;
+}
+
+function preferredLocale(request: NextRequest): Locale {
+  const header = request.headers.get("accept-language") ?? "";
+  for (const part of header.split(",")) {
+    const lang = part.split(";")[0].trim().toLowerCase().split("-")[0];
+    if (isLocale(lang)) return lang;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export function proxy(request: NextRequest) {
+  const segments = request.nextUrl.pathname.split("/").filter(Boolean);
+  if (segments[0] && isLocale(segments[0])) return NextResponse.next();
+
+  if (segments.length === 0) segments.push(defaultWedding().slug);
+  const locale = guestLocale(segments) ?? preferredLocale(request);
+
+  const url = request.nextUrl.clone();
+  url.pathname = `/${locale}/${segments.join("/")}`;
+  return NextResponse.redirect(url);
+}
+
+export const config = {
+  matcher: ["/((?!admin|api|_next|.*\\..*).*)"],
+};